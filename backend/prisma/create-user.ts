@@ -0,0 +1,47 @@
+import { PrismaClient, UserRole } from '@prisma/client';
+import crypto from 'crypto';
+import path from 'path';
+import { UsersService } from '../src/users';
+
+const dbPath = process.env.DB_PATH || './data/blog.sqlite3';
+process.env.DATABASE_URL = `file:${path.resolve(dbPath)}`;
+
+const prisma = new PrismaClient();
+
+// Usage: npm run create-user -- <email> <name> [ADMIN|EDITOR|AUTHOR]
+// The password is read from USER_PASSWORD, or generated and printed once.
+async function createUser() {
+  const [email, name, role = 'ADMIN'] = process.argv.slice(2);
+
+  if (!email || !name || !(role in UserRole)) {
+    console.log('Usage: npm run create-user -- <email> <name> [ADMIN|EDITOR|AUTHOR]');
+    process.exit(1);
+  }
+
+  const password = process.env.USER_PASSWORD || crypto.randomBytes(12).toString('base64url');
+
+  try {
+    const usersService = new UsersService(prisma);
+    const user = await usersService.createUser({
+      email,
+      name,
+      password,
+      role: role as UserRole,
+    });
+
+    console.log(`✅ Created ${user.role} user ${user.email}`);
+    if (!process.env.USER_PASSWORD) {
+      console.log(`🔑 Generated password: ${password}`);
+    }
+  } catch (error) {
+    console.error('❌ Creating user failed:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+createUser()
+  .catch(() => {
+    process.exit(1);
+  });
@@ -0,0 +1,265 @@
+import { CreateModuleData } from '../src/modules';
+
+// Privacy checklist shared by every module
+const PRIVACY_NOTES = [
+  'Review AI tool privacy policies before classroom use',
+  'Ensure compliance with school and district policies',
+  'Never enter student names, grades or other personal data into AI tools',
+  'Use age-appropriate AI tools and platforms',
+];
+
+// Starting content for the curriculum, taken from the cards that were
+// hand-written in curriculum.html and the sample text of module-template.html
+export const curriculumModules: CreateModuleData[] = [
+  {
+    title: 'Getting Started with AI',
+    slug: 'getting-started-with-ai',
+    summary: 'Learn the fundamentals of artificial intelligence and how it can enhance your teaching. This module covers basic AI concepts, terminology, and practical applications in educational settings.',
+    overview: `This module introduces the key ideas behind the AI tools teachers use every day: what they can do well, where they go wrong, and how to get useful results from them.
+
+We'll explore the background, practical applications, and real-world examples that show how AI can support your teaching without replacing your professional judgment.`,
+    competencies: [
+      'Understanding AI fundamentals and terminology',
+      'Writing clear prompts for chat-based AI tools',
+      'Checking AI output for accuracy and bias',
+      'Ethical considerations and best practices',
+    ],
+    skills: 'By the end of this module, you\'ll be able to choose a suitable AI tool, ask it for classroom-ready material, and judge whether the result is fit to use.',
+    prompts: [
+      {
+        title: 'Explain a Concept',
+        prompt: 'Explain [CONCEPT] to a [GRADE LEVEL] student in three short paragraphs, using one everyday example.',
+      },
+      {
+        title: 'Discussion Questions',
+        prompt: 'Write five open-ended discussion questions about [TOPIC] for [GRADE LEVEL] students, from easiest to hardest.',
+      },
+    ],
+    practiceSteps: [
+      'Choose an AI tool that fits your needs and comfort level',
+      'Start with simple tasks like generating discussion questions',
+      'Compare the output with what you would have written yourself',
+      'Reflect on what works best for your teaching style',
+    ],
+    practiceNotes: 'Begin with low-stakes activities to build confidence. Use AI to enhance existing lessons rather than replacing your teaching methods entirely.',
+    classroomIdeas: [
+      'Class discussion: "Is the AI always right?"',
+      'Spot the mistake in an AI-written paragraph',
+      'Compare answers from two different AI tools',
+    ],
+    rubricCriteria: [
+      'Understanding of AI concepts and applications',
+      'Critical thinking about AI-generated content',
+      'Ethical use of AI tools',
+    ],
+    privacyNotes: PRIVACY_NOTES,
+    ethicsNotes: 'Emphasize the importance of using AI responsibly, including proper attribution, critical evaluation of AI-generated content, and maintaining academic integrity.',
+  },
+  {
+    title: 'Lesson Planning with AI',
+    slug: 'lesson-planning-with-ai',
+    summary: 'Discover how AI can streamline your lesson planning process. Learn to use AI tools to create engaging lesson plans, generate content, and adapt materials for different learning styles.',
+    overview: 'Planning is where AI saves teachers the most time. This module shows how to turn learning objectives into complete lesson plans, activities and materials, and how to adapt them for the students in front of you.',
+    competencies: [
+      'Drafting lesson plans from learning objectives',
+      'Generating activities, examples and practice exercises',
+      'Adapting materials for different reading levels',
+      'Reviewing AI drafts against your curriculum standards',
+    ],
+    skills: 'By the end of this module, you\'ll be able to plan a week of lessons with AI support while keeping your objectives and standards at the center.',
+    prompts: [
+      {
+        title: 'Lesson Planning Prompt',
+        prompt: 'Create a detailed lesson plan for [SUBJECT] grade [LEVEL] that incorporates AI tools. Include learning objectives, activities, assessment methods, and differentiation strategies.',
+      },
+      {
+        title: 'Content Generation Prompt',
+        prompt: 'Generate [TYPE OF CONTENT] for [SUBJECT] that is appropriate for [GRADE LEVEL] students. Include examples, explanations, and practice exercises.',
+      },
+    ],
+    practiceSteps: [
+      'Write down the learning objectives for one lesson',
+      'Ask an AI tool for a lesson plan built around those objectives',
+      'Edit the plan to fit your class, time and resources',
+      'Teach the lesson and note what you would change next time',
+    ],
+    practiceNotes: 'Always start from your own objectives. An AI plan is a first draft to edit, not a finished lesson.',
+    classroomIdeas: [
+      'AI-generated warm-up questions for each lesson',
+      'Leveled reading passages on the same topic',
+      'Exit tickets drafted from the day\'s objectives',
+    ],
+    rubricCriteria: [
+      'Alignment of activities with learning objectives',
+      'Accuracy of AI-generated content',
+      'Fit for the needs of the class',
+    ],
+    privacyNotes: PRIVACY_NOTES,
+    ethicsNotes: 'Check generated materials for factual errors and stereotypes before they reach students.',
+  },
+  {
+    title: 'Grading & Feedback',
+    slug: 'grading-and-feedback',
+    summary: 'Transform your assessment workflow with AI-powered grading tools. Learn to provide faster, more detailed feedback while maintaining the personal touch that students need.',
+    overview: 'Feedback matters most when it is timely and specific. This module covers how AI can help you build rubrics, draft comments and spot patterns in student work, while the final judgment stays with you.',
+    competencies: [
+      'Building clear rubrics with AI support',
+      'Drafting specific, actionable feedback',
+      'Spotting common misconceptions across a class',
+      'Keeping grading decisions in human hands',
+    ],
+    skills: 'By the end of this module, you\'ll be able to cut the time spent on routine feedback and put it into conversations with students.',
+    prompts: [
+      {
+        title: 'Assessment Prompt',
+        prompt: 'Create a rubric for assessing [ASSIGNMENT TYPE] that includes clear criteria, point values, and examples of different performance levels.',
+      },
+      {
+        title: 'Feedback Prompt',
+        prompt: 'Using this rubric: [RUBRIC], suggest two strengths and one next step for the following anonymized student answer: [ANSWER]',
+      },
+    ],
+    practiceSteps: [
+      'Create a rubric for an upcoming assignment',
+      'Remove names and personal details from a few sample answers',
+      'Ask for draft feedback against the rubric',
+      'Rewrite the feedback in your own voice before sharing it',
+    ],
+    practiceNotes: 'Use AI for first drafts of comments, never for final grades.',
+    classroomIdeas: [
+      'Students self-assess against an AI-drafted rubric',
+      'Peer review using AI-generated criteria',
+      'Class-wide misconception review from anonymized answers',
+    ],
+    rubricCriteria: [
+      'Clarity and fairness of the rubric',
+      'Specificity of the feedback',
+      'Consistency across students',
+    ],
+    privacyNotes: PRIVACY_NOTES,
+    ethicsNotes: 'Students deserve to know when AI helped with their feedback, and every grade must be a teacher\'s decision.',
+  },
+  {
+    title: 'Creative Classroom Projects',
+    slug: 'creative-classroom-projects',
+    summary: 'Explore innovative ways to integrate AI into student projects and activities. From coding exercises to creative writing, discover how AI can spark student creativity and engagement.',
+    overview: 'AI can be a creative partner for students: a brainstorming buddy, a writing coach or a coding helper. This module collects projects that use AI to spark ideas while the students do the thinking.',
+    competencies: [
+      'Designing projects where AI supports student creativity',
+      'Setting clear rules for AI use in student work',
+      'Guiding students to question and improve AI output',
+      'Assessing the process as well as the product',
+    ],
+    skills: 'By the end of this module, you\'ll be able to run a creative project in which students use AI openly and responsibly.',
+    prompts: [
+      {
+        title: 'Project Ideas',
+        prompt: 'Suggest five creative project ideas for [GRADE LEVEL] students studying [TOPIC] in which students use AI for brainstorming but create the final product themselves.',
+      },
+    ],
+    practiceSteps: [
+      'Pick one project and define where AI may and may not be used',
+      'Share the rules with students before they start',
+      'Ask students to keep a short log of their AI use',
+      'Discuss the logs together at the end of the project',
+    ],
+    classroomIdeas: [
+      'AI-assisted brainstorming sessions',
+      'Collaborative content creation projects',
+      'Student-led AI tool exploration',
+      'Story writing with an AI "editor"',
+    ],
+    classroomNotes: 'Encourage students to use AI as a creative partner, helping them develop ideas, refine writing, and explore new perspectives on familiar topics.',
+    rubricCriteria: [
+      'Originality of the final product',
+      'Quality of reflection on AI use',
+      'Ethical use of AI tools',
+    ],
+    rubricNotes: 'Use the rubric to assess student work that incorporates AI tools. Focus on learning outcomes rather than the tools themselves.',
+    privacyNotes: PRIVACY_NOTES,
+    ethicsNotes: 'Teach proper attribution of AI help and discuss who owns AI-assisted work.',
+  },
+  {
+    title: 'Admin Efficiency with AI',
+    slug: 'admin-efficiency-with-ai',
+    summary: 'Streamline administrative tasks and improve school operations with AI tools. Learn to automate scheduling, manage resources, and optimize communication workflows for better efficiency.',
+    overview: 'Emails, newsletters, meeting notes and schedules take up hours every week. This module shows how AI can draft routine communication and organize information so more of your time goes to teaching.',
+    competencies: [
+      'Drafting parent and staff communication',
+      'Summarizing meetings and documents',
+      'Planning schedules and resources',
+      'Setting up reusable prompt templates',
+    ],
+    prompts: [
+      {
+        title: 'Parent Email',
+        prompt: 'Draft a friendly, concise email to parents of [GRADE LEVEL] students about [EVENT OR TOPIC]. Include the date, what students need to bring, and a contact for questions.',
+      },
+      {
+        title: 'Meeting Summary',
+        prompt: 'Summarize these meeting notes into decisions, action items with owners, and open questions: [NOTES]',
+      },
+    ],
+    practiceSteps: [
+      'List the administrative tasks that take most of your week',
+      'Pick one and write a prompt template for it',
+      'Use the template for two weeks and refine it',
+      'Share templates that work with your colleagues',
+    ],
+    classroomIdeas: [
+      'Weekly class newsletter drafted from your notes',
+      'Volunteer and field-trip schedules',
+      'Translated messages for multilingual families',
+    ],
+    rubricCriteria: [
+      'Time saved on routine tasks',
+      'Accuracy and tone of communication',
+      'Compliance with school policies',
+    ],
+    privacyNotes: PRIVACY_NOTES,
+    ethicsNotes: 'Always read AI-drafted messages before sending them; you remain responsible for everything that goes out in your name.',
+  },
+  {
+    title: 'Student Support & Differentiation',
+    slug: 'student-support-and-differentiation',
+    summary: 'Use AI to provide personalized learning experiences and support for diverse student needs. Discover tools for adaptive learning, accessibility, and individualized instruction strategies.',
+    overview: 'Every class has students who need more challenge, more support or a different way in. This module shows how AI can help you prepare differentiated materials and accessible resources quickly.',
+    competencies: [
+      'Creating materials at several reading levels',
+      'Preparing scaffolds and extension tasks',
+      'Making resources more accessible',
+      'Monitoring the effect of differentiation',
+    ],
+    prompts: [
+      {
+        title: 'Leveled Text',
+        prompt: 'Rewrite the following text at three reading levels (beginning, intermediate, advanced) while keeping the key facts: [TEXT]',
+      },
+      {
+        title: 'Scaffolded Task',
+        prompt: 'Break this task into small steps with a hint for each step, for a student who finds [SKILL] difficult: [TASK]',
+      },
+    ],
+    practiceSteps: [
+      'Choose one upcoming lesson and the students who need adaptations',
+      'Generate leveled or scaffolded versions of the main material',
+      'Check each version for accuracy and tone',
+      'Observe how students respond and adjust',
+    ],
+    classroomIdeas: [
+      'Choice boards with tasks at different levels',
+      'Vocabulary support for language learners',
+      'Extension challenges for early finishers',
+    ],
+    rubricCriteria: [
+      'Access to the same learning goals for all students',
+      'Appropriateness of the level of challenge',
+      'Student progress over time',
+    ],
+    privacyNotes: [
+      ...PRIVACY_NOTES,
+      'Never share information about learning plans or diagnoses with AI tools',
+    ],
+    ethicsNotes: 'Differentiation should open doors, not label students. Keep expectations high for everyone.',
+  },
+];
@@ -0,0 +1,44 @@
+import { PrismaClient } from '@prisma/client';
+import fs from 'fs/promises';
+import path from 'path';
+import { PostArchiveService } from '../src/post-archive';
+
+const dbPath = process.env.DB_PATH || './data/blog.sqlite3';
+process.env.DATABASE_URL = `file:${path.resolve(dbPath)}`;
+
+const prisma = new PrismaClient();
+
+// Usage: npm run export-posts [-- <file.zip | directory>]
+// Writes every post as Markdown with YAML front matter, zipped by default.
+// A path without .zip is treated as a directory and gets one file per post.
+async function exportPosts() {
+  const target = process.argv[2] || `posts-${new Date().toISOString().slice(0, 10)}.zip`;
+
+  try {
+    const archiveService = new PostArchiveService(prisma);
+
+    if (target.endsWith('.zip')) {
+      await fs.writeFile(target, await archiveService.exportZip());
+      console.log(`✅ Exported posts to ${target}`);
+      return;
+    }
+
+    const files = await archiveService.exportFiles();
+    await fs.mkdir(target, { recursive: true });
+    for (const file of files) {
+      await fs.writeFile(path.join(target, file.name), file.content);
+    }
+
+    console.log(`✅ Exported ${files.length} posts to ${target}/`);
+  } catch (error) {
+    console.error('❌ Export failed:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+exportPosts()
+  .catch(() => {
+    process.exit(1);
+  });
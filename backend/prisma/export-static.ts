@@ -0,0 +1,268 @@
+import { PrismaClient } from '@prisma/client';
+import fs from 'fs/promises';
+import path from 'path';
+import { PostsService } from '../src/posts';
+import { BlogRenderer } from '../src/blog';
+import { CurriculumRenderer, moduleSitemapEntries } from '../src/curriculum';
+import { ModulesService } from '../src/modules';
+import { ResourcesService } from '../src/resources';
+import { featuredToolsHtml, resourceCategoriesHtml } from '../src/resource-pages';
+import { buildFeed, FeedFormat, FEED_TITLE } from '../src/feeds';
+import { buildSitemap, SitemapEntry } from '../src/sitemap';
+import { buildRobotsTxt, postSitemapEntries } from '../src/seo';
+import { isValidSlug } from '../src/slugs';
+
+const dbPath = process.env.DB_PATH || './data/blog.sqlite3';
+process.env.DATABASE_URL = `file:${path.resolve(dbPath)}`;
+
+const prisma = new PrismaClient();
+
+const siteBaseUrl = process.env.SITE_BASE_URL || 'http://localhost:8080';
+const outputDir = path.resolve(process.env.STATIC_OUTPUT_DIR || process.env.TEMPLATES_DIR || '..');
+const postsDir = path.join(outputDir, 'blog-posts');
+const modulesDir = path.join(outputDir, 'curriculum');
+const manifestPath = path.join(postsDir, '.export-manifest.json');
+
+const FEED_ITEMS = 50;
+
+// Feed files written next to blog.html
+const FEED_FILES: Record<FeedFormat, string> = {
+  rss: 'rss.xml',
+  atom: 'feed.atom',
+  json: 'feed.json',
+};
+
+const feedUrls: Record<FeedFormat, string> = {
+  rss: `${siteBaseUrl}/${FEED_FILES.rss}`,
+  atom: `${siteBaseUrl}/${FEED_FILES.atom}`,
+  json: `${siteBaseUrl}/${FEED_FILES.json}`,
+};
+
+// Hand-written pages of the site that belong in the sitemap
+const STATIC_PAGES = ['index.html', 'curriculum.html', 'blog.html', 'resources.html', 'contact.html'];
+
+// What the last export wrote, so pages of deleted or unpublished posts can be removed
+interface ExportManifest {
+  posts: Record<string, { id: string }>;
+  modules?: string[];
+}
+
+const postUrl = (slug: string) => `${siteBaseUrl}/blog-posts/${slug}.html`;
+const moduleUrl = (slug: string) => `${siteBaseUrl}/curriculum/${slug}.html`;
+
+async function readManifest(): Promise<ExportManifest | null> {
+  try {
+    return JSON.parse(await fs.readFile(manifestPath, 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Page of a post or module inside dir, or null if the slug could name a file
+// elsewhere; slugs of older posts and old manifests were never validated
+function pagePath(dir: string, slug: string): string | null {
+  if (!isValidSlug(slug)) {
+    return null;
+  }
+
+  const filePath = path.resolve(dir, `${slug}.html`);
+  return path.dirname(filePath) === path.resolve(dir) ? filePath : null;
+}
+
+// Swap the content between <!-- BEGIN GENERATED: name --> and <!-- END GENERATED: name -->
+function replaceSection(html: string, name: string, content: string, file = 'blog.html'): string {
+  const begin = `<!-- BEGIN GENERATED: ${name} -->`;
+  const end = `<!-- END GENERATED: ${name} -->`;
+  const start = html.indexOf(begin);
+  const finish = html.indexOf(end);
+
+  if (start === -1 || finish < start) {
+    throw new Error(`${file} is missing the "${name}" markers`);
+  }
+
+  const indent = html.slice(html.lastIndexOf('\n', finish) + 1, finish);
+  const body = content ? `${indent}${content}\n` : '';
+  return `${html.slice(0, start + begin.length)}\n${body}${indent}${html.slice(finish)}`;
+}
+
+// Write a file only if its content changed; returns whether it was written
+async function writeIfChanged(filePath: string, content: string): Promise<boolean> {
+  try {
+    if ((await fs.readFile(filePath, 'utf8')) === content) {
+      return false;
+    }
+  } catch {
+    // File does not exist yet
+  }
+
+  await fs.writeFile(filePath, content);
+  return true;
+}
+
+// Usage: npm run export-static
+// Builds published posts into blog-posts/<slug>.html and published curriculum modules
+// into curriculum/<slug>.html, and refreshes blog.html, curriculum.html, resources.html,
+// the feeds, sitemap.xml and robots.txt in the site root.
+async function exportStatic() {
+  try {
+    console.log(`📦 Exporting static blog to ${outputDir}...`);
+
+    const postsService = new PostsService(prisma);
+    const renderer = new BlogRenderer(prisma, {
+      siteBaseUrl,
+      blogUrl: `${siteBaseUrl}/blog.html`,
+      feedUrls,
+      postUrl,
+      apiBaseUrl: process.env.STATIC_API_BASE_URL || null,
+    });
+
+    const posts = await postsService.getLivePosts();
+    const previous = await readManifest();
+    const manifest: ExportManifest = { posts: {} };
+
+    await fs.mkdir(postsDir, { recursive: true });
+
+    // Every page is rendered, since a post's page also shows its neighbours,
+    // related posts and the sidebars; only pages whose HTML changed are written
+    let written = 0;
+    for (const post of posts) {
+      const filePath = pagePath(postsDir, post.slug);
+      if (!filePath) {
+        console.warn(`  ⚠️  Skipping post ${post.id}: invalid slug "${post.slug}"`);
+        continue;
+      }
+
+      manifest.posts[post.slug] = { id: post.id };
+
+      const page = await renderer.renderPostPage(post.slug);
+      if (page && (await writeIfChanged(filePath, page.html))) {
+        written++;
+        console.log(`  ✏️  blog-posts/${post.slug}.html`);
+      }
+    }
+
+    // Only pages written by an earlier export are removed, never hand-written ones
+    let removed = 0;
+    for (const slug of Object.keys(previous?.posts || {})) {
+      if (manifest.posts[slug]) {
+        continue;
+      }
+
+      const filePath = pagePath(postsDir, slug);
+      if (filePath && (await fileExists(filePath))) {
+        await fs.unlink(filePath);
+        removed++;
+        console.log(`  🗑️  blog-posts/${slug}.html`);
+      }
+    }
+
+    // Listing section of blog.html
+    const blogPath = path.join(outputDir, 'blog.html');
+    const fragments = await renderer.renderListingFragments(posts);
+    let blogHtml = await fs.readFile(blogPath, 'utf8');
+    blogHtml = replaceSection(blogHtml, 'posts', fragments.postsHtml);
+    blogHtml = replaceSection(blogHtml, 'tags', fragments.tagsHtml);
+    blogHtml = replaceSection(blogHtml, 'recent-posts', fragments.recentPostsHtml);
+    blogHtml = replaceSection(blogHtml, 'pagination', '');
+    const blogChanged = await writeIfChanged(blogPath, blogHtml);
+
+    // Module pages are few, so they are all rendered and only written when changed
+    const curriculumRenderer = new CurriculumRenderer(prisma, {
+      siteBaseUrl,
+      curriculumUrl: `${siteBaseUrl}/curriculum.html`,
+      moduleUrl,
+    });
+    const modules = await new ModulesService(prisma).getModuleSummaries();
+
+    await fs.mkdir(modulesDir, { recursive: true });
+
+    manifest.modules = [];
+
+    let modulesWritten = 0;
+    for (const module of modules) {
+      const filePath = pagePath(modulesDir, module.slug);
+      if (!filePath) {
+        console.warn(`  ⚠️  Skipping module "${module.title}": invalid slug "${module.slug}"`);
+        continue;
+      }
+
+      manifest.modules.push(module.slug);
+
+      const page = await curriculumRenderer.renderModulePage(module.slug);
+      if (page && (await writeIfChanged(filePath, page.html))) {
+        modulesWritten++;
+        console.log(`  ✏️  curriculum/${module.slug}.html`);
+      }
+    }
+
+    for (const slug of previous?.modules || []) {
+      const filePath = pagePath(modulesDir, slug);
+      if (filePath && !manifest.modules.includes(slug) && (await fileExists(filePath))) {
+        await fs.unlink(filePath);
+        console.log(`  🗑️  curriculum/${slug}.html`);
+      }
+    }
+
+    // Module cards of curriculum.html
+    const curriculumPath = path.join(outputDir, 'curriculum.html');
+    let curriculumHtml = await fs.readFile(curriculumPath, 'utf8');
+    curriculumHtml = replaceSection(curriculumHtml, 'modules', await curriculumRenderer.renderModuleCards(), 'curriculum.html');
+    const curriculumChanged = await writeIfChanged(curriculumPath, curriculumHtml);
+
+    // Featured tools and categories of resources.html
+    const resources = await new ResourcesService(prisma).getPublishedResources();
+    const resourcesPath = path.join(outputDir, 'resources.html');
+    let resourcesHtml = await fs.readFile(resourcesPath, 'utf8');
+    resourcesHtml = replaceSection(resourcesHtml, 'featured-tools', featuredToolsHtml(resources), 'resources.html');
+    resourcesHtml = replaceSection(resourcesHtml, 'resource-categories', resourceCategoriesHtml(resources), 'resources.html');
+    const resourcesChanged = await writeIfChanged(resourcesPath, resourcesHtml);
+
+    for (const format of Object.keys(FEED_FILES) as FeedFormat[]) {
+      const feed = buildFeed(format, posts.slice(0, FEED_ITEMS), {
+        title: FEED_TITLE,
+        feedUrl: feedUrls[format],
+        siteUrl: `${siteBaseUrl}/blog.html`,
+        postUrl,
+      });
+      await fs.writeFile(path.join(outputDir, FEED_FILES[format]), feed);
+    }
+
+    const sitemapEntries: SitemapEntry[] = [
+      ...STATIC_PAGES.map(page => ({
+        loc: `${siteBaseUrl}/${page}`,
+        changefreq: page === 'blog.html' ? 'daily' as const : 'monthly' as const,
+        priority: page === 'index.html' ? 1.0 : 0.8,
+      })),
+      ...moduleSitemapEntries(modules, curriculumRenderer.links),
+      ...postSitemapEntries(posts, { siteBaseUrl, postUrl }),
+    ];
+    await fs.writeFile(path.join(outputDir, 'sitemap.xml'), buildSitemap(sitemapEntries));
+    await fs.writeFile(path.join(outputDir, 'robots.txt'), buildRobotsTxt(siteBaseUrl));
+
+    await fs.writeFile(manifestPath, JSON.stringify(manifest, null, 2) + '\n');
+
+    console.log(`✅ ${written} post pages written, ${posts.length - written} unchanged, ${removed} removed`);
+    console.log(`✅ ${modulesWritten} module pages written, ${modules.length - modulesWritten} unchanged`);
+    console.log(`   blog.html ${blogChanged ? 'updated' : 'unchanged'}, curriculum.html ${curriculumChanged ? 'updated' : 'unchanged'}, resources.html ${resourcesChanged ? 'updated' : 'unchanged'}`);
+    console.log('   feeds, sitemap.xml and robots.txt regenerated');
+  } catch (error) {
+    console.error('❌ Static export failed:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+exportStatic()
+  .catch(() => {
+    process.exit(1);
+  });
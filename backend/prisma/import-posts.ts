@@ -0,0 +1,92 @@
+import { PrismaClient } from '@prisma/client';
+import fs from 'fs/promises';
+import path from 'path';
+import { ImportAction, PostArchiveService, PostFile, isPostFile, readZip } from '../src/post-archive';
+import { IMPORT_ACTOR } from '../src/revisions';
+
+const dbPath = process.env.DB_PATH || './data/blog.sqlite3';
+process.env.DATABASE_URL = `file:${path.resolve(dbPath)}`;
+
+const prisma = new PrismaClient();
+
+const ACTION_ICONS: Record<ImportAction, string> = {
+  create: '➕',
+  update: '✏️ ',
+  unchanged: '  ',
+  conflict: '⚠️ ',
+  invalid: '❌',
+};
+
+// A zip, a directory of .md/.html files, or a single file
+async function readPostFiles(target: string): Promise<PostFile[]> {
+  const stat = await fs.stat(target);
+
+  if (stat.isDirectory()) {
+    const names = (await fs.readdir(target)).filter(isPostFile).sort();
+    return Promise.all(names.map(async name => ({
+      name,
+      content: await fs.readFile(path.join(target, name), 'utf8'),
+    })));
+  }
+
+  if (target.endsWith('.zip')) {
+    return readZip(await fs.readFile(target));
+  }
+
+  return [{ name: path.basename(target), content: await fs.readFile(target, 'utf8') }];
+}
+
+// Usage: npm run import-posts -- <file.zip | directory | file.md>... [--dry-run] [--force]
+// Creates or updates posts by slug. HTML pages from blog-posts/ are converted
+// to Markdown, e.g. npm run import-posts -- ../blog-posts --dry-run
+async function importPosts() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const force = args.includes('--force');
+  const targets = args.filter(arg => !arg.startsWith('--'));
+
+  if (targets.length === 0) {
+    console.log('Usage: npm run import-posts -- <file.zip | directory | file.md>... [--dry-run] [--force]');
+    process.exit(1);
+  }
+
+  try {
+    console.log(`📥 Importing posts${dryRun ? ' (dry run)' : ''}...`);
+
+    const files: PostFile[] = [];
+    for (const target of targets) {
+      files.push(...await readPostFiles(target));
+    }
+
+    const archiveService = new PostArchiveService(prisma);
+    const report = await archiveService.importFiles(files, IMPORT_ACTOR, { dryRun, force });
+
+    for (const item of report.items) {
+      const detail = item.reason ? ` - ${item.reason}` : '';
+      console.log(`  ${ACTION_ICONS[item.action]} ${item.action.padEnd(9)} ${item.slug || item.file}${detail}`);
+      for (const warning of item.warnings) {
+        console.log(`       ${warning}`);
+      }
+    }
+
+    const { counts } = report;
+    console.log(
+      `✅ ${counts.create} ${dryRun ? 'to create' : 'created'}, ${counts.update} ${dryRun ? 'to update' : 'updated'}, ` +
+      `${counts.unchanged} unchanged, ${counts.conflict} conflicts, ${counts.invalid} invalid`
+    );
+
+    if (counts.conflict > 0 && !force) {
+      console.log('   Conflicting files were skipped; use --force to overwrite posts changed since the export');
+    }
+  } catch (error) {
+    console.error('❌ Import failed:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+importPosts()
+  .catch(() => {
+    process.exit(1);
+  });
@@ -13,17 +13,46 @@ if (!fs.existsSync(dataDir)) {
 // Set DATABASE_URL for Prisma
 process.env.DATABASE_URL = `file:${path.resolve(dbPath)}`;
 
-try {
-  console.log('🔄 Running Prisma migrations...');
-  
-  // Generate Prisma client
-  execSync('npx prisma generate', { stdio: 'inherit' });
-  
-  // Run migrations
-  execSync('npx prisma db push', { stdio: 'inherit' });
-  
-  console.log('✅ Database migrations completed successfully');
-} catch (error) {
-  console.error('❌ Migration failed:', error);
-  process.exit(1);
+// Data migrations that run after the schema is in place.
+// Loaded lazily so they pick up the client generated above.
+async function migrateData() {
+  const { PrismaClient } = await import('@prisma/client');
+  const { TagsService } = await import('../src/tags');
+  const { UsersService } = await import('../src/users');
+  const prisma = new PrismaClient();
+
+  try {
+    const migratedPosts = await new TagsService(prisma).migrateLegacyTags();
+    if (migratedPosts > 0) {
+      console.log(`🏷️  Migrated tags of ${migratedPosts} posts into the tags table`);
+    }
+
+    const attributedPosts = await new UsersService(prisma).migrateLegacyAuthors();
+    if (attributedPosts > 0) {
+      console.log(`👤 Migrated authors of ${attributedPosts} posts to user accounts`);
+    }
+  } finally {
+    await prisma.$disconnect();
+  }
 }
+
+async function migrate() {
+  try {
+    console.log('🔄 Running Prisma migrations...');
+    
+    // Generate Prisma client
+    execSync('npx prisma generate', { stdio: 'inherit' });
+    
+    // Run migrations
+    execSync('npx prisma db push', { stdio: 'inherit' });
+    
+    await migrateData();
+    
+    console.log('✅ Database migrations completed successfully');
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    process.exit(1);
+  }
+}
+
+migrate();
@@ -0,0 +1,90 @@
+import { PrismaClient } from '@prisma/client';
+import path from 'path';
+import { sanitizeContent } from '../src/sanitize';
+import { SearchService } from '../src/search';
+
+const dbPath = process.env.DB_PATH || './data/blog.sqlite3';
+process.env.DATABASE_URL = `file:${path.resolve(dbPath)}`;
+
+const prisma = new PrismaClient();
+
+// Count tag and attribute names so the report can say what was stripped
+function countMarkup(html: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  const add = (name: string) => counts.set(name, (counts.get(name) || 0) + 1);
+
+  for (const tag of html.matchAll(/<([a-zA-Z][a-zA-Z0-9-]*)([^>]*)>/g)) {
+    add(`<${tag[1]!.toLowerCase()}>`);
+    for (const attribute of tag[2]!.matchAll(/\s([a-zA-Z_:][-a-zA-Z0-9_:.]*)\s*=/g)) {
+      add(attribute[1]!.toLowerCase());
+    }
+  }
+
+  return counts;
+}
+
+function describeRemovals(before: string, after: string): string[] {
+  const beforeCounts = countMarkup(before);
+  const afterCounts = countMarkup(after);
+  const removed: string[] = [];
+
+  for (const [name, count] of beforeCounts) {
+    const difference = count - (afterCounts.get(name) || 0);
+    if (difference > 0) {
+      removed.push(`${name} x${difference}`);
+    }
+  }
+
+  return removed;
+}
+
+// Usage: npm run resanitize [-- --dry-run]
+// Runs every stored post's HTML through the sanitizer and reports the changes.
+async function resanitize() {
+  const dryRun = process.argv.includes('--dry-run');
+
+  try {
+    console.log(`🧹 Re-sanitizing post content${dryRun ? ' (dry run)' : ''}...`);
+
+    const posts = await prisma.post.findMany({
+      where: { contentHtml: { not: null } },
+      select: { id: true, slug: true, contentHtml: true },
+    });
+
+    let changed = 0;
+
+    for (const post of posts) {
+      const sanitized = sanitizeContent(post.contentHtml!);
+      if (sanitized === post.contentHtml) {
+        continue;
+      }
+
+      changed++;
+      const removed = describeRemovals(post.contentHtml!, sanitized);
+      console.log(`  ${post.slug}: ${removed.length > 0 ? `removed ${removed.join(', ')}` : 'markup normalized'}`);
+
+      if (!dryRun) {
+        await prisma.post.update({
+          where: { id: post.id },
+          data: { contentHtml: sanitized },
+        });
+      }
+    }
+
+    if (changed > 0 && !dryRun) {
+      await new SearchService(prisma).rebuildIndex();
+    }
+
+    console.log(`✅ ${changed} of ${posts.length} posts ${dryRun ? 'would be' : 'were'} changed`);
+  } catch (error) {
+    console.error('❌ Re-sanitizing failed:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+resanitize()
+  .catch(() => {
+    process.exit(1);
+  });
@@ -0,0 +1,219 @@
+import { CreateResourceData } from '../src/resources';
+
+// Starting content for the resources directory, taken from the featured tools
+// and categories that were hand-written in resources.html. Privacy ratings are
+// left for editors to fill in.
+export const directoryResources: CreateResourceData[] = [
+  {
+    name: 'ChatGPT',
+    description: 'The most popular AI assistant for generating lesson plans, creating assessments, and answering educational questions.',
+    url: 'https://chat.openai.com',
+    icon: '🤖',
+    category: 'LESSON_PLANNING',
+    pricingTier: 'FREEMIUM',
+    featured: true,
+    position: 0,
+  },
+  {
+    name: 'Claude',
+    description: 'Anthropic\'s AI assistant known for its thoughtful responses and excellent writing capabilities for educational content.',
+    url: 'https://claude.ai',
+    icon: '📝',
+    category: 'CONTENT_CREATION',
+    pricingTier: 'FREEMIUM',
+    featured: true,
+    position: 1,
+  },
+  {
+    name: 'Canva AI',
+    description: 'Create stunning educational materials, presentations, and visual content with AI-powered design tools.',
+    url: 'https://canva.com',
+    linkLabel: 'Try Canva',
+    icon: '🎨',
+    category: 'CONTENT_CREATION',
+    pricingTier: 'FREEMIUM',
+    featured: true,
+    position: 2,
+  },
+  {
+    name: 'Grammarly',
+    description: 'AI-powered writing assistant that helps improve grammar, style, and clarity in your educational materials.',
+    url: 'https://grammarly.com',
+    icon: '📊',
+    category: 'LANGUAGE',
+    pricingTier: 'FREEMIUM',
+    featured: true,
+    position: 3,
+  },
+  {
+    name: 'Khan Academy AI',
+    description: 'Personalized learning assistant that adapts to each student\'s needs and provides targeted practice.',
+    url: 'https://khanacademy.org',
+    linkLabel: 'Try Khan Academy',
+    icon: '🎯',
+    category: 'LESSON_PLANNING',
+    pricingTier: 'FREE',
+    featured: true,
+    position: 4,
+  },
+  {
+    name: 'Perplexity AI',
+    description: 'Research-focused AI that provides accurate, cited information perfect for lesson planning and fact-checking.',
+    url: 'https://perplexity.ai',
+    linkLabel: 'Try Perplexity',
+    icon: '📚',
+    category: 'LESSON_PLANNING',
+    pricingTier: 'FREEMIUM',
+    featured: true,
+    position: 5,
+  },
+  {
+    name: 'MagicSchool AI',
+    description: 'Comprehensive AI platform designed specifically for educators with lesson planning, assessment, and content generation tools.',
+    url: 'https://magicschool.ai',
+    linkLabel: 'Visit MagicSchool',
+    category: 'LESSON_PLANNING',
+    pricingTier: 'FREEMIUM',
+    position: 0,
+  },
+  {
+    name: 'Eduaide.ai',
+    description: 'AI-powered lesson planning assistant that helps create engaging, standards-aligned lesson plans quickly.',
+    url: 'https://eduaide.ai',
+    linkLabel: 'Visit Eduaide',
+    category: 'LESSON_PLANNING',
+    pricingTier: 'FREEMIUM',
+    position: 1,
+  },
+  {
+    name: 'Curipod',
+    description: 'Create interactive presentations and lessons with AI-generated content and student engagement features.',
+    url: 'https://curipod.com',
+    category: 'LESSON_PLANNING',
+    pricingTier: 'FREEMIUM',
+    position: 2,
+  },
+  {
+    name: 'Gradescope',
+    description: 'AI-powered grading platform that streamlines assessment and provides detailed analytics on student performance.',
+    url: 'https://gradescope.com',
+    category: 'ASSESSMENT',
+    gradeBand: 'HIGHER_ED',
+    pricingTier: 'PAID',
+    position: 0,
+  },
+  {
+    name: 'Turnitin',
+    description: 'AI-powered plagiarism detection and writing feedback tool to ensure academic integrity.',
+    url: 'https://turnitin.com',
+    category: 'ASSESSMENT',
+    pricingTier: 'PAID',
+    position: 1,
+  },
+  {
+    name: 'Formative',
+    description: 'Real-time assessment platform with AI-powered insights to track student progress and understanding.',
+    url: 'https://goformative.com',
+    category: 'ASSESSMENT',
+    pricingTier: 'FREEMIUM',
+    position: 2,
+  },
+  {
+    name: 'DALL-E 3',
+    description: 'Create custom images and illustrations for your lessons with AI-generated artwork.',
+    url: 'https://openai.com/dall-e-3',
+    linkLabel: 'Visit DALL-E',
+    category: 'CONTENT_CREATION',
+    pricingTier: 'FREEMIUM',
+    position: 0,
+  },
+  {
+    name: 'Gamma',
+    description: 'AI-powered presentation tool that creates beautiful slides and documents from simple prompts.',
+    url: 'https://gamma.app',
+    category: 'CONTENT_CREATION',
+    pricingTier: 'FREEMIUM',
+    position: 1,
+  },
+  {
+    name: 'Tome',
+    description: 'AI storytelling platform that helps create engaging narratives and presentations for educational content.',
+    url: 'https://tome.app',
+    category: 'CONTENT_CREATION',
+    pricingTier: 'FREEMIUM',
+    position: 2,
+  },
+  {
+    name: 'Otter.ai',
+    description: 'AI transcription service that converts speech to text, perfect for recording lectures and meetings.',
+    url: 'https://otter.ai',
+    category: 'LANGUAGE',
+    pricingTier: 'FREEMIUM',
+    position: 0,
+  },
+  {
+    name: 'DeepL',
+    description: 'Advanced AI translation tool that provides accurate translations for multilingual classrooms.',
+    url: 'https://deepl.com',
+    category: 'LANGUAGE',
+    pricingTier: 'FREEMIUM',
+    position: 1,
+  },
+  {
+    name: 'Speak',
+    description: 'AI language learning platform that provides personalized practice and feedback for language acquisition.',
+    url: 'https://speak.com',
+    category: 'LANGUAGE',
+    pricingTier: 'PAID',
+    position: 2,
+  },
+  {
+    name: 'Tableau',
+    description: 'AI-powered data visualization tool that helps analyze student performance and educational trends.',
+    url: 'https://tableau.com',
+    category: 'DATA_ANALYTICS',
+    pricingTier: 'PAID',
+    position: 0,
+  },
+  {
+    name: 'Power BI',
+    description: 'Microsoft\'s AI-enhanced business intelligence platform for educational data analysis and reporting.',
+    url: 'https://powerbi.microsoft.com',
+    category: 'DATA_ANALYTICS',
+    pricingTier: 'FREEMIUM',
+    position: 1,
+  },
+  {
+    name: 'Google Analytics',
+    description: 'AI-powered web analytics that helps track engagement and performance of online educational content.',
+    url: 'https://analytics.google.com',
+    linkLabel: 'Visit Analytics',
+    category: 'DATA_ANALYTICS',
+    pricingTier: 'FREE',
+    position: 2,
+  },
+  {
+    name: 'Coursera',
+    description: 'AI and machine learning courses for educators to stay current with technology trends.',
+    url: 'https://coursera.org',
+    category: 'PROFESSIONAL_DEVELOPMENT',
+    pricingTier: 'FREEMIUM',
+    position: 0,
+  },
+  {
+    name: 'edX',
+    description: 'University-level AI and education technology courses from top institutions worldwide.',
+    url: 'https://edx.org',
+    category: 'PROFESSIONAL_DEVELOPMENT',
+    pricingTier: 'FREEMIUM',
+    position: 1,
+  },
+  {
+    name: 'LinkedIn Learning',
+    description: 'Professional development courses on AI tools and educational technology integration.',
+    url: 'https://linkedin.com/learning',
+    category: 'PROFESSIONAL_DEVELOPMENT',
+    pricingTier: 'PAID',
+    position: 2,
+  },
+];
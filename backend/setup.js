@@ -84,9 +84,10 @@ rl.question('🌱 Would you like to seed the database with sample posts? (y/n):
   console.log('🎉 Setup completed successfully!\n');
   console.log('📋 Next steps:');
   console.log('1. Edit .env file with your configuration');
-  console.log('2. Run "npm run dev" to start the development server');
-  console.log('3. Visit http://localhost:8080/api/health to test the API');
-  console.log('4. Check the README.md for detailed usage instructions\n');
+  console.log('2. Run "npm run create-user -- <email> <name> ADMIN" to create the first admin');
+  console.log('3. Run "npm run dev" to start the development server');
+  console.log('4. Visit http://localhost:8080/api/health to test the API');
+  console.log('5. Check the README.md for detailed usage instructions\n');
   
   rl.close();
 });
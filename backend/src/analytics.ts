@@ -0,0 +1,272 @@
+import crypto from 'crypto';
+import { PrismaClient, PostStatus } from '@prisma/client';
+import { csvRows } from './csv';
+import { ApiError } from './errors';
+
+export interface Visitor {
+  ip: string;
+  userAgent: string;
+}
+
+// Inclusive range of UTC days, YYYY-MM-DD
+export interface ViewRange {
+  from: string;
+  to: string;
+}
+
+export interface DailyViews {
+  day: string;
+  views: number;
+}
+
+export interface PostViews {
+  postId: string;
+  slug: string;
+  title: string;
+  total: number;
+  days: DailyViews[];
+}
+
+export interface TagViews {
+  tag: string;
+  name: string;
+  total: number;
+  days: DailyViews[];
+}
+
+export interface ViewsReport<T> extends ViewRange {
+  total: number;
+  items: T[];
+}
+
+export class AnalyticsError extends ApiError {
+  constructor(message: string, statusCode: number = 400) {
+    super(message, statusCode);
+    this.name = 'AnalyticsError';
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_DAYS = 366;
+const DEFAULT_REPORT_DAYS = 30;
+
+// Crawlers and link previews are not readers
+const BOT_PATTERN = /bot|crawler|spider|slurp|preview|headless/i;
+
+export function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function parseDay(value: string, name: string): Date {
+  const date = new Date(`${value}T00:00:00Z`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(date.getTime()) || dayKey(date) !== value) {
+    throw new AnalyticsError(`${name} must be a date in the form YYYY-MM-DD`);
+  }
+  return date;
+}
+
+// Number of days in a window like "7d", up to a year
+export function parseWindow(value: string): number {
+  const match = /^(\d+)d$/.exec(value);
+  const days = match ? parseInt(match[1]!, 10) : 0;
+  if (days < 1 || days > MAX_DAYS) {
+    throw new AnalyticsError(`window must be a number of days from 1d to ${MAX_DAYS}d, e.g. 7d`);
+  }
+  return days;
+}
+
+// The last `days` days up to and including today
+export function windowRange(days: number, now: Date = new Date()): ViewRange {
+  return {
+    from: dayKey(new Date(now.getTime() - (days - 1) * DAY_MS)),
+    to: dayKey(now),
+  };
+}
+
+// Range from ?window=, or ?from= and ?to=; the last 30 days by default
+export function parseRange(query: { window?: string | undefined; from?: string | undefined; to?: string | undefined }, now: Date = new Date()): ViewRange {
+  if (query.window) {
+    return windowRange(parseWindow(query.window), now);
+  }
+
+  const to = query.to ? parseDay(query.to, 'to') : parseDay(dayKey(now), 'to');
+  const from = query.from
+    ? parseDay(query.from, 'from')
+    : new Date(to.getTime() - (DEFAULT_REPORT_DAYS - 1) * DAY_MS);
+
+  if (from > to) {
+    throw new AnalyticsError('from must not be after to');
+  }
+  if ((to.getTime() - from.getTime()) / DAY_MS >= MAX_DAYS) {
+    throw new AnalyticsError(`A report covers at most ${MAX_DAYS} days`);
+  }
+
+  return { from: dayKey(from), to: dayKey(to) };
+}
+
+// Every day of the range, so gaps show up as zero views
+function daysOf(range: ViewRange): string[] {
+  const days = [];
+  for (let time = parseDay(range.from, 'from').getTime(); time <= parseDay(range.to, 'to').getTime(); time += DAY_MS) {
+    days.push(dayKey(new Date(time)));
+  }
+  return days;
+}
+
+function dailySeries(range: ViewRange, counts: Map<string, number>): DailyViews[] {
+  return daysOf(range).map(day => ({ day, views: counts.get(day) || 0 }));
+}
+
+// Recognizes repeat views of a post by the same visitor on the same day.
+// The hash of IP address, user agent and post is keyed with a random salt
+// that only lives in memory and is replaced at midnight UTC, so hashes
+// cannot be linked across days or traced back once the salt is gone.
+export class ViewDeduper {
+  private day = '';
+  private salt = Buffer.alloc(0);
+  private seen = new Set<string>();
+
+  constructor(private maxVisitors: number = 100000) {}
+
+  isRepeat(visitor: Visitor, postId: string, now: Date = new Date()): boolean {
+    const day = dayKey(now);
+    if (day !== this.day) {
+      this.day = day;
+      this.salt = crypto.randomBytes(32);
+      this.seen.clear();
+    }
+
+    const hash = crypto
+      .createHmac('sha256', this.salt)
+      .update(`${visitor.ip}\n${visitor.userAgent}\n${postId}`)
+      .digest('base64');
+
+    if (this.seen.has(hash)) {
+      return true;
+    }
+
+    // Past the limit views are counted without deduplication
+    if (this.seen.size < this.maxVisitors) {
+      this.seen.add(hash);
+    }
+    return false;
+  }
+}
+
+export const viewDeduper = new ViewDeduper();
+
+export class AnalyticsService {
+  constructor(private prisma: PrismaClient, private deduper: ViewDeduper = viewDeduper) {}
+
+  // Count a view of a live post. Returns null for unknown posts and
+  // false for bots and repeat views, which are not counted.
+  async recordView(slug: string, visitor: Visitor, now: Date = new Date()): Promise<boolean | null> {
+    const post = await this.prisma.post.findFirst({
+      where: { slug, status: PostStatus.PUBLISHED, publishedAt: { lte: now } },
+      select: { id: true },
+    });
+
+    if (!post) {
+      return null;
+    }
+
+    if (!visitor.userAgent || BOT_PATTERN.test(visitor.userAgent) || this.deduper.isRepeat(visitor, post.id, now)) {
+      return false;
+    }
+
+    const day = dayKey(now);
+    await this.prisma.postViewDaily.upsert({
+      where: { postId_day: { postId: post.id, day } },
+      create: { postId: post.id, day, views: 1 },
+      update: { views: { increment: 1 } },
+    });
+
+    return true;
+  }
+
+  // Daily views per post in the range, most viewed first
+  async getPostViews(range: ViewRange, postId?: string | undefined): Promise<ViewsReport<PostViews>> {
+    const rows = await this.prisma.postViewDaily.findMany({
+      where: { day: { gte: range.from, lte: range.to }, ...(postId ? { postId } : {}) },
+      include: { post: { select: { slug: true, title: true } } },
+    });
+
+    const posts = new Map<string, { slug: string; title: string; counts: Map<string, number> }>();
+    for (const row of rows) {
+      const entry = posts.get(row.postId) || { ...row.post, counts: new Map() };
+      entry.counts.set(row.day, row.views);
+      posts.set(row.postId, entry);
+    }
+
+    const items = [...posts].map(([id, entry]) => {
+      const days = dailySeries(range, entry.counts);
+      return {
+        postId: id,
+        slug: entry.slug,
+        title: entry.title,
+        total: days.reduce((sum, day) => sum + day.views, 0),
+        days,
+      };
+    });
+
+    return this.report(range, items);
+  }
+
+  // Daily views per tag in the range. A post with several tags counts
+  // towards each of them, so tag totals can add up to more than all views.
+  async getTagViews(range: ViewRange): Promise<ViewsReport<TagViews>> {
+    const rows = await this.prisma.postViewDaily.findMany({
+      where: { day: { gte: range.from, lte: range.to } },
+      include: { post: { select: { tags: { include: { tag: true } } } } },
+    });
+
+    const tags = new Map<string, { name: string; counts: Map<string, number> }>();
+    for (const row of rows) {
+      for (const { tag } of row.post.tags) {
+        const entry = tags.get(tag.slug) || { name: tag.name, counts: new Map() };
+        entry.counts.set(row.day, (entry.counts.get(row.day) || 0) + row.views);
+        tags.set(tag.slug, entry);
+      }
+    }
+
+    const items = [...tags].map(([slug, entry]) => {
+      const days = dailySeries(range, entry.counts);
+      return {
+        tag: slug,
+        name: entry.name,
+        total: days.reduce((sum, day) => sum + day.views, 0),
+        days,
+      };
+    });
+
+    return this.report(range, items);
+  }
+
+  private report<T extends { total: number }>(range: ViewRange, items: T[]): ViewsReport<T> {
+    return {
+      ...range,
+      total: items.reduce((sum, item) => sum + item.total, 0),
+      items: items.sort((a, b) => b.total - a.total),
+    };
+  }
+
+  // One row per post and day with views, oldest first
+  async exportPostViewsCsv(range: ViewRange, postId?: string | undefined): Promise<string> {
+    const report = await this.getPostViews(range, postId);
+    const rows = report.items.flatMap(item =>
+      item.days.filter(day => day.views > 0).map(day => [day.day, item.postId, item.slug, item.title, day.views])
+    );
+
+    return csvRows(['day', 'postId', 'slug', 'title', 'views'], rows.sort((a, b) => String(a[0]).localeCompare(String(b[0]))));
+  }
+
+  // One row per tag and day with views, oldest first
+  async exportTagViewsCsv(range: ViewRange): Promise<string> {
+    const report = await this.getTagViews(range);
+    const rows = report.items.flatMap(item =>
+      item.days.filter(day => day.views > 0).map(day => [day.day, item.tag, item.name, day.views])
+    );
+
+    return csvRows(['day', 'tag', 'name', 'views'], rows.sort((a, b) => String(a[0]).localeCompare(String(b[0]))));
+  }
+}
@@ -0,0 +1,356 @@
+import { PrismaClient } from '@prisma/client';
+import { PostsService, PostWithTags } from './posts';
+import { TagsService, TagWithCount, normalizeTag } from './tags';
+import { escapeHtml, loadTemplate, renderTemplate } from './templates';
+import { SeoOptions, buildPostMeta, jsonLdScript } from './seo';
+import { FeedFormat, FEED_TITLE, apiFeedUrls, feedLinks, feedLinksHtml } from './feeds';
+
+const POSTS_PER_PAGE = 10;
+const RECENT_POSTS = 5;
+const RELATED_POSTS = 3;
+
+// Post images fill the content column, which is full width below 1024px
+const IMAGE_SIZES = '(max-width: 1024px) 100vw, 850px';
+
+const BLOG_DESCRIPTION =
+  'Insights, tips, and strategies for integrating AI into your teaching practice. Stay updated with the latest trends and practical applications.';
+
+const CALENDAR_ICON = `<svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor">
+                                    <path d="M19 3h-1V1h-2v2H8V1H6v2H5c-1.11 0-1.99.9-1.99 2L3 19c0 1.1.89 2 2 2h14c1.1 0 2-.9 2-2V5c0-1.1-.9-2-2-2zm0 16H5V8h14v11zM7 10h5v5H7z"/>
+                                </svg>`;
+
+const ARROW_ICON = `<svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
+                                <path d="M8.59 16.59L13.17 12 8.59 7.41 10 6l6 6-6 6-1.41-1.41z"/>
+                            </svg>`;
+
+export interface RenderedPage {
+  html: string;
+  lastModified: Date | null;
+}
+
+// Where pages link to; the static export points posts at blog-posts/<slug>.html
+export interface BlogRendererOptions {
+  siteBaseUrl?: string;
+  blogUrl?: string;
+  feedUrls?: Record<FeedFormat, string>;
+  postUrl?: (slug: string) => string;
+  // API that post pages send their view beacon to; null leaves it out
+  apiBaseUrl?: string | null;
+}
+
+// Generated parts of a listing, also used to fill in blog.html
+export interface ListingFragments {
+  postsHtml: string;
+  recentPostsHtml: string;
+  tagsHtml: string;
+}
+
+// Renders the public blog pages from the HTML templates in the site root
+export class BlogRenderer {
+  private postsService: PostsService;
+  private tagsService: TagsService;
+  private siteBaseUrl: string;
+  private blogUrl: string;
+
+  constructor(prisma: PrismaClient, private options: BlogRendererOptions = {}) {
+    this.postsService = new PostsService(prisma);
+    this.tagsService = new TagsService(prisma);
+    this.siteBaseUrl = options.siteBaseUrl || process.env.SITE_BASE_URL || 'http://localhost:8080';
+    this.blogUrl = options.blogUrl || `${this.siteBaseUrl}/blog`;
+  }
+
+  postUrl(slug: string): string {
+    return this.options.postUrl ? this.options.postUrl(slug) : `${this.siteBaseUrl}/blog/${slug}`;
+  }
+
+  // URLs used for canonical links, JSON-LD and the sitemap
+  seoOptions(): SeoOptions {
+    return {
+      siteBaseUrl: this.siteBaseUrl,
+      postUrl: slug => this.postUrl(slug),
+    };
+  }
+
+  private listUrl(options: { page?: number; tag?: string | undefined } = {}): string {
+    const params = new URLSearchParams();
+    if (options.tag) {
+      params.set('tag', options.tag);
+    }
+    if (options.page && options.page > 1) {
+      params.set('page', String(options.page));
+    }
+
+    const query = params.toString();
+    return `${this.siteBaseUrl}/blog${query ? `?${query}` : ''}`;
+  }
+
+  private formatDate(date: Date): string {
+    return date.toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      timeZone: 'UTC',
+    });
+  }
+
+  private feedUrls(tag?: string | undefined): Record<FeedFormat, string> {
+    return !tag && this.options.feedUrls ? this.options.feedUrls : apiFeedUrls(this.siteBaseUrl, tag);
+  }
+
+  private feedValues(tag?: { slug: string; name: string } | null): Record<string, string> {
+    const urls = this.feedUrls(tag?.slug);
+    const title = tag ? `${FEED_TITLE}: ${tag.name}` : FEED_TITLE;
+
+    return {
+      RSS_URL: urls.rss,
+      FEED_LINKS_HTML: feedLinksHtml(feedLinks(urls, title)),
+    };
+  }
+
+  private commonValues(): Record<string, string> {
+    return {
+      SITE_URL: this.siteBaseUrl,
+      BLOG_URL: this.blogUrl,
+      ...this.feedValues(),
+    };
+  }
+
+  private recentPostsHtml(posts: PostWithTags[]): string {
+    return posts
+      .map(post => `<li><a href="${escapeHtml(this.postUrl(post.slug))}">${escapeHtml(post.title)}</a></li>`)
+      .join('\n                        ');
+  }
+
+  // Sidebar block with the related posts; left out when there are none
+  private relatedPostsHtml(posts: PostWithTags[]): string {
+    if (posts.length === 0) {
+      return '';
+    }
+
+    return `<h3>Related Posts</h3>
+                    <ul>
+                        ${this.recentPostsHtml(posts)}
+                    </ul>`;
+  }
+
+  // Counts a view without cookies; see AnalyticsService.recordView
+  private viewBeaconHtml(slug: string): string {
+    const apiBaseUrl = this.options.apiBaseUrl === undefined ? this.siteBaseUrl : this.options.apiBaseUrl;
+    if (!apiBaseUrl) {
+      return '';
+    }
+
+    const url = `${apiBaseUrl}/api/posts/${encodeURIComponent(slug)}/view`;
+    return `<script>
+        if (navigator.sendBeacon) {
+            navigator.sendBeacon(${JSON.stringify(url).replace(/</g, '\\u003c')});
+        }
+    </script>`;
+  }
+
+  private tagsHtml(tags: TagWithCount[]): string {
+    return tags
+      .map(tag => `<li><a href="${escapeHtml(this.listUrl({ tag: tag.slug }))}">${escapeHtml(tag.name)} (${tag.postCount})</a></li>`)
+      .join('\n                        ');
+  }
+
+  private postTagsHtml(post: PostWithTags): string {
+    if (post.tags.length === 0) {
+      return '';
+    }
+
+    const items = post.tags
+      .map(tag => `<li><a href="${escapeHtml(this.listUrl({ tag: normalizeTag(tag) }))}">#${escapeHtml(tag)}</a></li>`)
+      .join('');
+
+    return `<ul class="post-tags">${items}</ul>`;
+  }
+
+  // Media images get a srcset of their WebP variants; external URLs are used as they are
+  private imageHtml(post: PostWithTags, className: string, lazy: boolean): string {
+    const loading = lazy ? ' loading="lazy"' : '';
+
+    if (post.image) {
+      const { image } = post;
+      return `<img class="${className}" src="${escapeHtml(image.url)}" srcset="${escapeHtml(image.srcset)}" ` +
+        `sizes="${IMAGE_SIZES}" width="${image.width}" height="${image.height}" alt="${escapeHtml(image.alt || '')}"${loading}>`;
+    }
+
+    return post.imageUrl ? `<img class="${className}" src="${escapeHtml(post.imageUrl)}" alt=""${loading}>` : '';
+  }
+
+  private postCardHtml(post: PostWithTags): string {
+    const url = escapeHtml(this.postUrl(post.slug));
+    const image = this.imageHtml(post, 'post-thumbnail', true);
+
+    return `<article class="blog-post">
+                        ${image}
+                        <div class="post-meta">
+                            <div class="post-date">
+                                ${CALENDAR_ICON}
+                                ${escapeHtml(this.formatDate(post.publishedAt))}
+                            </div>
+                            <div class="post-category">${escapeHtml(post.tags[0] || 'General')}</div>
+                        </div>
+                        <h2 class="post-title">
+                            <a href="${url}">${escapeHtml(post.title)}</a>
+                        </h2>
+                        <p class="post-excerpt">${escapeHtml(post.summary || '')}</p>
+                        ${this.postTagsHtml(post)}
+                        <a href="${url}" class="read-more">
+                            Read More
+                            ${ARROW_ICON}
+                        </a>
+                    </article>`;
+  }
+
+  private paginationHtml(page: number, totalPages: number, tag: string | undefined): string {
+    if (totalPages <= 1) {
+      return '';
+    }
+
+    const links: string[] = [];
+    if (page > 1) {
+      links.push(`<a href="${escapeHtml(this.listUrl({ page: page - 1, tag }))}">← Previous</a>`);
+    }
+    for (let number = 1; number <= totalPages; number++) {
+      const active = number === page ? ' class="active"' : '';
+      links.push(`<a href="${escapeHtml(this.listUrl({ page: number, tag }))}"${active}>${number}</a>`);
+    }
+    if (page < totalPages) {
+      links.push(`<a href="${escapeHtml(this.listUrl({ page: page + 1, tag }))}">Next →</a>`);
+    }
+
+    return `<div class="pagination">\n                ${links.join('\n                ')}\n            </div>`;
+  }
+
+  private adjacentPostHtml(post: PostWithTags | null, direction: 'prev' | 'next'): string {
+    if (!post) {
+      return '';
+    }
+
+    const label = direction === 'prev' ? '← Previous' : 'Next →';
+    return `<a href="${escapeHtml(this.postUrl(post.slug))}" class="nav-button ${direction}">
+                    <span>${label}</span>
+                    <strong>${escapeHtml(post.title)}</strong>
+                </a>`;
+  }
+
+  // Render a live post, or null if it does not exist or is not public yet
+  async renderPostPage(slug: string): Promise<RenderedPage | null> {
+    const post = await this.postsService.getPublicPostBySlug(slug);
+    if (!post) {
+      return null;
+    }
+
+    const [template, adjacent, related, recent, tags] = await Promise.all([
+      loadTemplate('blog-post-template.html'),
+      this.postsService.getAdjacentPosts(post),
+      this.postsService.getRelatedPosts(post, RELATED_POSTS),
+      this.postsService.getPosts({ scheduled: false, limit: RECENT_POSTS }),
+      this.tagsService.getTagsWithCounts(),
+    ]);
+
+    const url = this.postUrl(post.slug);
+    const meta = buildPostMeta(post, this.seoOptions());
+    const metaImage = meta.image ? escapeHtml(meta.image) : '';
+
+    const html = renderTemplate(template, {
+      ...this.commonValues(),
+      POST_TITLE: post.title,
+      POST_TITLE_ENCODED: encodeURIComponent(post.title),
+      POST_EXCERPT: post.summary || '',
+      META_TITLE: meta.title,
+      META_DESCRIPTION: meta.description,
+      CANONICAL_URL: meta.canonicalUrl,
+      TWITTER_CARD: meta.twitter['twitter:card'] || 'summary',
+      POST_AUTHOR: post.author,
+      POST_URL: url,
+      POST_URL_ENCODED: encodeURIComponent(url),
+      POST_DATE: this.formatDate(post.publishedAt),
+      POST_DATE_ISO: post.publishedAt.toISOString(),
+      POST_CATEGORY: post.tags[0] || 'General',
+      POST_IMAGE_META_HTML: metaImage
+        ? `<meta property="og:image" content="${metaImage}">\n    <meta name="twitter:image" content="${metaImage}">`
+        : '',
+      POST_JSON_LD_HTML: jsonLdScript(meta.jsonLd),
+      POST_IMAGE_HTML: this.imageHtml(post, 'post-image', false),
+      // contentHtml is sanitized when it is stored
+      POST_CONTENT_HTML: post.contentHtml || '',
+      POST_TAGS_HTML: this.postTagsHtml(post),
+      RELATED_POSTS_HTML: this.relatedPostsHtml(related),
+      RECENT_POSTS_HTML: this.recentPostsHtml(recent.items.filter(item => item.id !== post.id)),
+      TAGS_HTML: this.tagsHtml(tags),
+      PREV_POST_HTML: this.adjacentPostHtml(adjacent.previous, 'prev'),
+      NEXT_POST_HTML: this.adjacentPostHtml(adjacent.next, 'next'),
+      VIEW_BEACON_HTML: this.viewBeaconHtml(post.slug),
+    });
+
+    return { html, lastModified: post.updatedAt };
+  }
+
+  // Render a page of the post listing, optionally for a single tag.
+  // Returns null for unknown tags and pages past the end.
+  async renderListPage(options: { page?: number; tag?: string | undefined } = {}): Promise<RenderedPage | null> {
+    const page = Math.max(options.page || 1, 1);
+
+    const tag = options.tag ? await this.tagsService.getTagBySlug(normalizeTag(options.tag)) : null;
+    if (options.tag && !tag) {
+      return null;
+    }
+
+    const [template, result, recent, tags] = await Promise.all([
+      loadTemplate('blog-list-template.html'),
+      this.postsService.getPosts({ scheduled: false, tag: tag?.slug, page, limit: POSTS_PER_PAGE }),
+      this.postsService.getPosts({ scheduled: false, limit: RECENT_POSTS }),
+      this.tagsService.getTagsWithCounts(),
+    ]);
+
+    if (page > 1 && result.items.length === 0) {
+      return null;
+    }
+
+    const totalPages = Math.ceil(result.total / POSTS_PER_PAGE);
+    const postsHtml = result.items.length > 0
+      ? result.items.map(post => this.postCardHtml(post)).join('\n\n                    ')
+      : '<div class="no-posts">No posts found.</div>';
+
+    const html = renderTemplate(template, {
+      ...this.commonValues(),
+      ...this.feedValues(tag),
+      PAGE_TITLE: tag ? `Posts tagged ${tag.name}` : 'Blog',
+      PAGE_HEADING: tag ? `Posts tagged "${tag.name}"` : 'AI Education Blog',
+      PAGE_DESCRIPTION: BLOG_DESCRIPTION,
+      PAGE_URL: this.listUrl({ page, tag: tag?.slug }),
+      POSTS_HTML: postsHtml,
+      TAGS_HTML: this.tagsHtml(tags),
+      RECENT_POSTS_HTML: this.recentPostsHtml(recent.items),
+      PAGINATION_HTML: this.paginationHtml(page, totalPages, tag?.slug),
+    });
+
+    const lastModified = result.items.reduce<Date | null>(
+      (latest, post) => (!latest || post.updatedAt > latest ? post.updatedAt : latest),
+      null
+    );
+
+    return { html, lastModified };
+  }
+
+  // Cards for the given posts plus the sidebar lists, without a template
+  async renderListingFragments(posts: PostWithTags[]): Promise<ListingFragments> {
+    const tags = await this.tagsService.getTagsWithCounts();
+
+    return {
+      postsHtml: posts.length > 0
+        ? posts.map(post => this.postCardHtml(post)).join('\n\n                    ')
+        : '<div class="no-posts">No posts found.</div>',
+      recentPostsHtml: this.recentPostsHtml(posts.slice(0, RECENT_POSTS)),
+      tagsHtml: this.tagsHtml(tags),
+    };
+  }
+
+  async renderNotFoundPage(): Promise<string> {
+    const template = await loadTemplate('blog-404-template.html');
+    return renderTemplate(template, this.commonValues());
+  }
+}
@@ -0,0 +1,94 @@
+import crypto from 'crypto';
+
+export interface CachedResponse {
+  body: string | Buffer;
+  contentType: string | undefined;
+  etag: string;
+  lastModified: string | undefined;
+  expiresAt: number;
+}
+
+export interface ResponseCacheOptions {
+  ttlMs?: number | undefined;
+  maxEntries?: number | undefined;
+}
+
+// In-memory cache of public responses, keyed by URL. PostsService clears it
+// on every write; the TTL only bounds how long a post that goes live at its
+// scheduled time can stay hidden if nothing else invalidates the cache.
+export class ResponseCache {
+  private entries = new Map<string, CachedResponse>();
+  private ttlMs: number;
+  private maxEntries: number;
+  private currentGeneration = 0;
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.ttlMs = options.ttlMs || 5 * 60 * 1000;
+    this.maxEntries = options.maxEntries || 500;
+  }
+
+  // Bumped on every invalidation, so responses built from data read before
+  // a write are not stored after it
+  get generation(): number {
+    return this.currentGeneration;
+  }
+
+  get(key: string): CachedResponse | null {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    return entry;
+  }
+
+  set(
+    key: string,
+    generation: number,
+    response: Omit<CachedResponse, 'etag' | 'expiresAt'>
+  ): CachedResponse | null {
+    if (generation !== this.currentGeneration) {
+      return null;
+    }
+
+    // Oldest entries go first once the cache is full
+    if (!this.entries.has(key) && this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) {
+        this.entries.delete(oldest);
+      }
+    }
+
+    const entry: CachedResponse = {
+      ...response,
+      etag: etagFor(response.body),
+      expiresAt: Date.now() + this.ttlMs,
+    };
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  invalidate() {
+    this.entries.clear();
+    this.currentGeneration++;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+export function etagFor(body: string | Buffer): string {
+  const hash = crypto.createHash('sha1').update(body).digest('base64url');
+  return `W/"${hash}"`;
+}
+
+export const responseCache = new ResponseCache({
+  ttlMs: (parseInt(process.env.RESPONSE_CACHE_TTL_SECONDS || '', 10) || 300) * 1000,
+  maxEntries: parseInt(process.env.RESPONSE_CACHE_MAX_ENTRIES || '', 10) || undefined,
+});
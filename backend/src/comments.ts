@@ -0,0 +1,281 @@
+import { PrismaClient, Comment, CommentStatus, BannedEmail } from '@prisma/client';
+import { PostsService } from './posts';
+import type { PublicUser } from './users';
+import { ApiError } from './errors';
+
+// Comments with more links than this are treated as spam; any link at all
+// is flagged for the moderator
+const MAX_LINKS = parseInt(process.env.COMMENT_MAX_LINKS || '', 10) || 2;
+
+// URLs, bare www. hosts, HTML anchors and BBCode links
+const LINK_PATTERN = /https?:\/\/\S+|\bwww\.\S+|<a\s[^>]*>|\[url[=\]]/gi;
+
+export interface CreateCommentData {
+  authorName: string;
+  authorEmail: string;
+  body: string;
+  parentId?: string | undefined;
+}
+
+// Approved comment as shown to readers; the email address is never included
+export interface PublicComment {
+  id: string;
+  parentId: string | null;
+  authorName: string;
+  body: string;
+  createdAt: Date;
+  replies: PublicComment[];
+}
+
+export interface CommentWithPost extends Omit<Comment, 'spamReasons'> {
+  spamReasons: string[];
+  post: { id: string; slug: string; title: string };
+}
+
+export interface PaginatedComments {
+  items: CommentWithPost[];
+  page: number;
+  total: number;
+  hasMore: boolean;
+}
+
+export class CommentError extends ApiError {
+  constructor(message: string, statusCode: number = 400) {
+    super(message, statusCode);
+    this.name = 'CommentError';
+  }
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function countLinks(text: string): number {
+  return text.match(LINK_PATTERN)?.length ?? 0;
+}
+
+// Reasons a comment looks like spam. Comments with a "spam" reason skip the
+// moderation queue; the others are only flagged.
+export function spamCheck(data: Pick<CreateCommentData, 'authorName' | 'body'>): { spam: boolean; reasons: string[] } {
+  const reasons: string[] = [];
+  let spam = false;
+
+  const links = countLinks(data.body);
+  if (links > MAX_LINKS) {
+    reasons.push(`Contains ${links} links`);
+    spam = true;
+  } else if (links > 0) {
+    reasons.push(`Contains ${links === 1 ? 'a link' : `${links} links`}`);
+  }
+
+  if (countLinks(data.authorName) > 0) {
+    reasons.push('Name contains a link');
+    spam = true;
+  }
+
+  return { spam, reasons };
+}
+
+const postSelect = { select: { id: true, slug: true, title: true } } as const;
+
+export class CommentsService {
+  private postsService: PostsService;
+
+  constructor(private prisma: PrismaClient) {
+    this.postsService = new PostsService(prisma);
+  }
+
+  private parseReasons(reasonsJson: string): string[] {
+    try {
+      return JSON.parse(reasonsJson);
+    } catch {
+      return [];
+    }
+  }
+
+  private toCommentWithPost(comment: Comment & { post: CommentWithPost['post'] }): CommentWithPost {
+    return {
+      ...comment,
+      spamReasons: this.parseReasons(comment.spamReasons),
+    };
+  }
+
+  // Add a comment to a live post. It stays hidden until a moderator
+  // approves it; comments on drafts or scheduled posts are refused.
+  async createComment(slug: string, data: CreateCommentData): Promise<CommentWithPost> {
+    const post = await this.postsService.getPublicPostBySlug(slug);
+    if (!post) {
+      throw new CommentError('Post not found', 404);
+    }
+
+    const authorEmail = normalizeEmail(data.authorEmail);
+    const banned = await this.prisma.bannedEmail.findUnique({ where: { email: authorEmail } });
+    if (banned) {
+      throw new CommentError('Comments from this email address are not accepted', 403);
+    }
+
+    if (data.parentId) {
+      const parent = await this.prisma.comment.findUnique({ where: { id: data.parentId } });
+      if (!parent || parent.postId !== post.id || parent.status !== CommentStatus.APPROVED) {
+        throw new CommentError('The comment you are replying to does not exist');
+      }
+    }
+
+    const { spam, reasons } = spamCheck(data);
+
+    const comment = await this.prisma.comment.create({
+      data: {
+        postId: post.id,
+        parentId: data.parentId ?? null,
+        authorName: data.authorName.trim(),
+        authorEmail,
+        body: data.body.trim(),
+        status: spam ? CommentStatus.SPAM : CommentStatus.PENDING,
+        spamReasons: JSON.stringify(reasons),
+      },
+      include: { post: postSelect },
+    });
+
+    return this.toCommentWithPost(comment);
+  }
+
+  // Approved comments of a live post as a tree, oldest first. Replies to a
+  // comment that is no longer approved are left out with it.
+  async getThread(slug: string): Promise<{ comments: PublicComment[]; total: number } | null> {
+    const post = await this.postsService.getPublicPostBySlug(slug);
+    if (!post) {
+      return null;
+    }
+
+    const comments = await this.prisma.comment.findMany({
+      where: { postId: post.id, status: CommentStatus.APPROVED },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const byId = new Map<string, PublicComment>();
+    for (const comment of comments) {
+      byId.set(comment.id, {
+        id: comment.id,
+        parentId: comment.parentId,
+        authorName: comment.authorName,
+        body: comment.body,
+        createdAt: comment.createdAt,
+        replies: [],
+      });
+    }
+
+    const roots: PublicComment[] = [];
+    for (const comment of byId.values()) {
+      if (comment.parentId === null) {
+        roots.push(comment);
+      } else {
+        byId.get(comment.parentId)?.replies.push(comment);
+      }
+    }
+
+    const count = (thread: PublicComment[]): number =>
+      thread.reduce((total, comment) => total + 1 + count(comment.replies), 0);
+
+    return { comments: roots, total: count(roots) };
+  }
+
+  async getCommentById(id: string): Promise<CommentWithPost | null> {
+    const comment = await this.prisma.comment.findUnique({
+      where: { id },
+      include: { post: postSelect },
+    });
+
+    return comment ? this.toCommentWithPost(comment) : null;
+  }
+
+  // Moderation queue, oldest first so comments are handled in order
+  async getComments(options: {
+    status?: CommentStatus;
+    postId?: string | undefined;
+    page?: number;
+    limit?: number;
+  } = {}): Promise<PaginatedComments> {
+    const { status = CommentStatus.PENDING, postId, page = 1, limit = 20 } = options;
+    const maxLimit = Math.min(limit, 100);
+    const skip = (page - 1) * maxLimit;
+    const where = { status, ...(postId ? { postId } : {}) };
+
+    const [items, total] = await Promise.all([
+      this.prisma.comment.findMany({
+        where,
+        skip,
+        take: maxLimit,
+        orderBy: { createdAt: 'asc' },
+        include: { post: postSelect },
+      }),
+      this.prisma.comment.count({ where }),
+    ]);
+
+    return {
+      items: items.map(comment => this.toCommentWithPost(comment)),
+      page,
+      total,
+      hasMore: skip + maxLimit < total,
+    };
+  }
+
+  async moderateComment(id: string, status: CommentStatus, moderator: PublicUser): Promise<CommentWithPost> {
+    const comment = await this.prisma.comment.update({
+      where: { id },
+      data: {
+        status,
+        moderatedById: moderator.id,
+        moderatedAt: new Date(),
+      },
+      include: { post: postSelect },
+    });
+
+    return this.toCommentWithPost(comment);
+  }
+
+  async deleteComment(id: string): Promise<void> {
+    await this.prisma.comment.delete({ where: { id } });
+  }
+
+  // Ban the author of a comment and reject everything of theirs still
+  // waiting for moderation, this comment included
+  async banCommentAuthor(
+    id: string,
+    moderator: PublicUser,
+    reason?: string | undefined
+  ): Promise<{ bannedEmail: BannedEmail; rejected: number } | null> {
+    const comment = await this.prisma.comment.findUnique({ where: { id } });
+    if (!comment) {
+      return null;
+    }
+
+    const [bannedEmail, rejected] = await this.prisma.$transaction([
+      this.prisma.bannedEmail.upsert({
+        where: { email: comment.authorEmail },
+        create: { email: comment.authorEmail, reason: reason ?? null, bannedBy: moderator.name },
+        update: {},
+      }),
+      this.prisma.comment.updateMany({
+        where: {
+          authorEmail: comment.authorEmail,
+          OR: [{ id }, { status: { in: [CommentStatus.PENDING, CommentStatus.SPAM] } }],
+        },
+        data: {
+          status: CommentStatus.REJECTED,
+          moderatedById: moderator.id,
+          moderatedAt: new Date(),
+        },
+      }),
+    ]);
+
+    return { bannedEmail, rejected: rejected.count };
+  }
+
+  async getBannedEmails(): Promise<BannedEmail[]> {
+    return this.prisma.bannedEmail.findMany({ orderBy: { createdAt: 'desc' } });
+  }
+
+  async unbanEmail(id: string): Promise<void> {
+    await this.prisma.bannedEmail.delete({ where: { id } });
+  }
+}
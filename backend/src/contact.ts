@@ -0,0 +1,155 @@
+import { PrismaClient, ContactMessage, Prisma } from '@prisma/client';
+import { MailTransport, mailTransport } from './mail';
+import type { PublicUser } from './users';
+import { csvRows } from './csv';
+import { logger } from './logger';
+
+export interface CreateContactMessageData {
+  name: string;
+  email: string;
+  subject: string;
+  message: string;
+}
+
+export interface ContactMessageFilter {
+  handled?: boolean | undefined;
+  // Matched against the name, email, subject and message
+  q?: string | undefined;
+}
+
+export interface PaginatedContactMessages {
+  items: ContactMessage[];
+  page: number;
+  total: number;
+  hasMore: boolean;
+}
+
+const CSV_COLUMNS: (keyof ContactMessage)[] = [
+  'id',
+  'createdAt',
+  'name',
+  'email',
+  'subject',
+  'message',
+  'handled',
+  'handledAt',
+];
+
+export function toCsv(messages: ContactMessage[]): string {
+  return csvRows(CSV_COLUMNS, messages.map(message => CSV_COLUMNS.map(column => message[column])));
+}
+
+export class ContactService {
+  constructor(private prisma: PrismaClient, private transport: MailTransport = mailTransport) {}
+
+  private where(filter: ContactMessageFilter): Prisma.ContactMessageWhereInput {
+    const q = filter.q?.trim();
+    return {
+      ...(filter.handled !== undefined ? { handled: filter.handled } : {}),
+      ...(q
+        ? {
+            OR: [
+              { name: { contains: q } },
+              { email: { contains: q } },
+              { subject: { contains: q } },
+              { message: { contains: q } },
+            ],
+          }
+        : {}),
+    };
+  }
+
+  // Store a message and notify CONTACT_NOTIFY_TO. A failed notification is
+  // recorded on the message; it never loses the message itself.
+  async createMessage(data: CreateContactMessageData): Promise<ContactMessage> {
+    const message = await this.prisma.contactMessage.create({
+      data: {
+        name: data.name,
+        email: data.email,
+        subject: data.subject,
+        message: data.message,
+      },
+    });
+
+    const notifyTo = process.env.CONTACT_NOTIFY_TO;
+    if (!notifyTo) {
+      return message;
+    }
+
+    try {
+      await this.transport.send({
+        to: notifyTo,
+        subject: `Contact form: ${message.subject}`,
+        text: `From: ${message.name} <${message.email}>\n\n${message.message}`,
+        replyTo: message.email,
+      });
+
+      return await this.prisma.contactMessage.update({
+        where: { id: message.id },
+        data: { notifiedAt: new Date() },
+      });
+    } catch (error) {
+      logger.error('Error sending contact notification', { transport: this.transport.name, error });
+      return this.prisma.contactMessage.update({
+        where: { id: message.id },
+        data: { notifyError: error instanceof Error ? error.message : String(error) },
+      });
+    }
+  }
+
+  // Newest first
+  async getMessages(
+    options: ContactMessageFilter & { page?: number; limit?: number } = {}
+  ): Promise<PaginatedContactMessages> {
+    const { page = 1, limit = 20 } = options;
+    const maxLimit = Math.min(limit, 100);
+    const skip = (page - 1) * maxLimit;
+    const where = this.where(options);
+
+    const [items, total] = await Promise.all([
+      this.prisma.contactMessage.findMany({
+        where,
+        skip,
+        take: maxLimit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.contactMessage.count({ where }),
+    ]);
+
+    return {
+      items,
+      page,
+      total,
+      hasMore: skip + maxLimit < total,
+    };
+  }
+
+  async getMessageById(id: string): Promise<ContactMessage | null> {
+    return this.prisma.contactMessage.findUnique({ where: { id } });
+  }
+
+  async setHandled(id: string, handled: boolean, user: PublicUser): Promise<ContactMessage> {
+    return this.prisma.contactMessage.update({
+      where: { id },
+      data: {
+        handled,
+        handledAt: handled ? new Date() : null,
+        handledById: handled ? user.id : null,
+      },
+    });
+  }
+
+  async deleteMessage(id: string): Promise<void> {
+    await this.prisma.contactMessage.delete({ where: { id } });
+  }
+
+  // All matching messages as CSV, oldest first
+  async exportCsv(filter: ContactMessageFilter = {}): Promise<string> {
+    const messages = await this.prisma.contactMessage.findMany({
+      where: this.where(filter),
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return toCsv(messages);
+  }
+}
@@ -0,0 +1,14 @@
+// Quote a CSV field. Values starting with a formula character are prefixed
+// with a quote so spreadsheets show them as text instead of running them.
+export function csvField(value: unknown): string {
+  let text = value instanceof Date ? value.toISOString() : value === null || value === undefined ? '' : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// A CSV document with a header row and CRLF line endings
+export function csvRows(header: string[], rows: unknown[][]): string {
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,159 @@
+import { PrismaClient } from '@prisma/client';
+import { marked } from 'marked';
+import { ModulesService, CurriculumModule, ModuleSummary, ModulePrompt, ModuleDownload, AdjacentModules } from './modules';
+import { RenderedPage } from './blog';
+import { sanitizeContent } from './sanitize';
+import { escapeHtml, loadTemplate, renderTemplate } from './templates';
+import { SitemapEntry } from './sitemap';
+
+// Where pages link to; the static export points modules at curriculum/<slug>.html
+export interface CurriculumRendererOptions {
+  siteBaseUrl?: string;
+  curriculumUrl?: string;
+  moduleUrl?: (slug: string) => string;
+}
+
+const INDENT = '\n                        ';
+
+// Markdown sections are sanitized like post content
+function markdownHtml(markdown: string | null): string {
+  return markdown ? sanitizeContent(marked(markdown) as string).trim() : '';
+}
+
+function listHtml(items: string[], tag: 'ul' | 'ol' = 'ul'): string {
+  if (items.length === 0) {
+    return '';
+  }
+
+  const lines = items.map(item => `    <li>${escapeHtml(item)}</li>`);
+  return `<${tag}>${INDENT}${lines.join(INDENT)}${INDENT}</${tag}>`;
+}
+
+function promptsHtml(prompts: ModulePrompt[]): string {
+  return prompts
+    .map(prompt => `<h3>${escapeHtml(prompt.title)}</h3>${INDENT}<div class="code-block">\n${escapeHtml(prompt.prompt)}${INDENT}</div>`)
+    .join(`\n${INDENT}`);
+}
+
+function downloadsHtml(downloads: ModuleDownload[]): string {
+  if (downloads.length === 0) {
+    return '<p>Downloads for this module are coming soon.</p>';
+  }
+
+  return downloads
+    .map(download => `<a href="${escapeHtml(download.url)}" class="btn-primary">${escapeHtml(download.label)}</a>`)
+    .join(`${INDENT}    `);
+}
+
+export interface ModuleLinks {
+  siteBaseUrl: string;
+  curriculumUrl: string;
+  moduleUrl: (slug: string) => string;
+}
+
+function adjacentModuleHtml(module: ModuleSummary | null, direction: 'prev' | 'next', links: ModuleLinks): string {
+  if (!module) {
+    return '';
+  }
+
+  const label = direction === 'prev' ? '<span>←</span> Previous Module' : 'Next Module <span>→</span>';
+  return `<a href="${escapeHtml(links.moduleUrl(module.slug))}" class="nav-button" title="${escapeHtml(module.title)}">
+                    ${label}
+                </a>`;
+}
+
+function moduleCardHtml(module: ModuleSummary, links: ModuleLinks): string {
+  return `<div class="module-card">
+                    <h3>${escapeHtml(module.title)}</h3>
+                    <p>${escapeHtml(module.summary)}</p>
+                    <div class="card-footer">
+                        <a href="${escapeHtml(links.moduleUrl(module.slug))}" class="btn-primary">View Module</a>
+                    </div>
+                </div>`;
+}
+
+// Fill in module-template.html for a module
+export function renderModuleHtml(
+  template: string,
+  module: CurriculumModule,
+  adjacent: AdjacentModules,
+  links: ModuleLinks
+): string {
+  return renderTemplate(template, {
+    SITE_URL: links.siteBaseUrl,
+    CURRICULUM_URL: links.curriculumUrl,
+    MODULE_URL: links.moduleUrl(module.slug),
+    MODULE_TITLE: module.title,
+    MODULE_SUMMARY: module.summary,
+    OVERVIEW_HTML: markdownHtml(module.overview),
+    COMPETENCIES_HTML: listHtml(module.competencies),
+    SKILLS_HTML: markdownHtml(module.skills),
+    PROMPTS_HTML: promptsHtml(module.prompts),
+    PRACTICE_STEPS_HTML: listHtml(module.practiceSteps, 'ol'),
+    PRACTICE_NOTES_HTML: markdownHtml(module.practiceNotes),
+    CLASSROOM_IDEAS_HTML: listHtml(module.classroomIdeas),
+    CLASSROOM_NOTES_HTML: markdownHtml(module.classroomNotes),
+    RUBRIC_CRITERIA_HTML: listHtml(module.rubricCriteria),
+    RUBRIC_NOTES_HTML: markdownHtml(module.rubricNotes),
+    PRIVACY_NOTES_HTML: listHtml(module.privacyNotes),
+    ETHICS_NOTES_HTML: markdownHtml(module.ethicsNotes),
+    DOWNLOADS_HTML: downloadsHtml(module.downloads),
+    PREV_MODULE_HTML: adjacentModuleHtml(adjacent.previous, 'prev', links),
+    NEXT_MODULE_HTML: adjacentModuleHtml(adjacent.next, 'next', links),
+  });
+}
+
+// Module cards for the curriculum grid in curriculum.html
+export function moduleCardsHtml(modules: ModuleSummary[], links: ModuleLinks): string {
+  return modules.length > 0
+    ? modules.map(module => moduleCardHtml(module, links)).join('\n\n                ')
+    : '<p>New modules are coming soon.</p>';
+}
+
+export function moduleSitemapEntries(modules: ModuleSummary[], links: ModuleLinks): SitemapEntry[] {
+  return modules.map(module => ({
+    loc: links.moduleUrl(module.slug),
+    lastmod: module.updatedAt,
+    changefreq: 'monthly',
+    priority: 0.7,
+  }));
+}
+
+// Renders curriculum module pages from module-template.html in the site root
+export class CurriculumRenderer {
+  private modulesService: ModulesService;
+  readonly links: ModuleLinks;
+
+  constructor(prisma: PrismaClient, options: CurriculumRendererOptions = {}) {
+    this.modulesService = new ModulesService(prisma);
+
+    const siteBaseUrl = options.siteBaseUrl || process.env.SITE_BASE_URL || 'http://localhost:8080';
+    this.links = {
+      siteBaseUrl,
+      curriculumUrl: options.curriculumUrl || `${siteBaseUrl}/curriculum.html`,
+      moduleUrl: options.moduleUrl || (slug => `${siteBaseUrl}/curriculum/${slug}`),
+    };
+  }
+
+  // Render a published module, or null if it does not exist or is unpublished
+  async renderModulePage(slug: string): Promise<RenderedPage | null> {
+    const module = await this.modulesService.getPublishedModuleBySlug(slug);
+    if (!module) {
+      return null;
+    }
+
+    const [template, adjacent] = await Promise.all([
+      loadTemplate('module-template.html'),
+      this.modulesService.getAdjacentModules(module),
+    ]);
+
+    return {
+      html: renderModuleHtml(template, module, adjacent, this.links),
+      lastModified: module.updatedAt,
+    };
+  }
+
+  async renderModuleCards(): Promise<string> {
+    return moduleCardsHtml(await this.modulesService.getModuleSummaries(), this.links);
+  }
+}
@@ -1,6 +1,8 @@
 import { PrismaClient } from '@prisma/client';
 import path from 'path';
 import fs from 'fs';
+import { logger } from './logger';
+import { dbQueryDuration } from './metrics';
 
 const dbPath = process.env.DB_PATH || './data/blog.sqlite3';
 
@@ -19,13 +21,23 @@ const prisma = new PrismaClient({
   },
 });
 
+// Time every query for /metrics; raw SQL such as the search index has no model
+prisma.$use(async (params, next) => {
+  const end = dbQueryDuration.startTimer({ model: params.model ?? 'raw', action: params.action });
+  try {
+    return await next(params);
+  } finally {
+    end();
+  }
+});
+
 // Test database connection
 export async function connectDatabase() {
   try {
     await prisma.$connect();
-    console.log(`✅ Database connected: ${path.resolve(dbPath)}`);
+    logger.info('Database connected', { path: path.resolve(dbPath) });
   } catch (error) {
-    console.error('❌ Database connection failed:', error);
+    logger.error('Database connection failed', { error });
     process.exit(1);
   }
 }
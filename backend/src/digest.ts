@@ -0,0 +1,63 @@
+import { EventEmitter } from 'events';
+import { PrismaClient } from '@prisma/client';
+import { NewsletterService, DigestResult, DIGEST_ACTOR } from './newsletter';
+import { logger } from './logger';
+
+export interface DigestSchedulerOptions {
+  intervalHours?: number | undefined;
+  checkIntervalMs?: number | undefined;
+}
+
+// Sends the new-post digest once intervalHours have passed since the last
+// one. Emits 'sent' with the result of each digest that had posts.
+export class DigestScheduler extends EventEmitter {
+  private newsletterService: NewsletterService;
+  private timer: NodeJS.Timeout | null = null;
+  private intervalMs: number;
+  private checkIntervalMs: number;
+
+  constructor(prisma: PrismaClient, options: DigestSchedulerOptions = {}) {
+    super();
+    this.newsletterService = new NewsletterService(prisma);
+    this.intervalMs = (options.intervalHours || 7 * 24) * 60 * 60 * 1000;
+    this.checkIntervalMs = options.checkIntervalMs || 60 * 60 * 1000;
+  }
+
+  start() {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => {
+        logger.error('Error running digest scheduler', { error });
+      });
+    }, this.checkIntervalMs);
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Returns null when the next digest is not due yet
+  async tick(now: Date = new Date()): Promise<DigestResult | null> {
+    const lastSend = await this.newsletterService.getLastSend();
+    if (lastSend && now.getTime() - lastSend.periodEnd.getTime() < this.intervalMs) {
+      return null;
+    }
+
+    const result = await this.newsletterService.sendDigest(DIGEST_ACTOR, {
+      now,
+      firstPeriodStart: new Date(now.getTime() - this.intervalMs),
+    });
+
+    if (result.send) {
+      this.emit('sent', result);
+    }
+    return result;
+  }
+}
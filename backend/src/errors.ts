@@ -0,0 +1,167 @@
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+
+// Stable error codes sent as `code` in every error response. Clients should
+// branch on these rather than on messages, which may change.
+export const ERROR_CODES = [
+  'BAD_REQUEST',
+  'VALIDATION_ERROR',
+  'UNAUTHORIZED',
+  'FORBIDDEN',
+  'NOT_FOUND',
+  'CONFLICT',
+  'INVALID_TRANSITION',
+  'PAYLOAD_TOO_LARGE',
+  'UNSUPPORTED_MEDIA_TYPE',
+  'UNPROCESSABLE_ENTITY',
+  'RATE_LIMITED',
+  'INTERNAL_ERROR',
+] as const;
+
+export type ErrorCode = typeof ERROR_CODES[number];
+
+const STATUS_CODES: Record<number, ErrorCode> = {
+  400: 'BAD_REQUEST',
+  401: 'UNAUTHORIZED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  409: 'CONFLICT',
+  413: 'PAYLOAD_TOO_LARGE',
+  415: 'UNSUPPORTED_MEDIA_TYPE',
+  422: 'UNPROCESSABLE_ENTITY',
+  429: 'RATE_LIMITED',
+  500: 'INTERNAL_ERROR',
+};
+
+export function codeForStatus(statusCode: number): ErrorCode {
+  return STATUS_CODES[statusCode] ?? (statusCode >= 500 ? 'INTERNAL_ERROR' : 'BAD_REQUEST');
+}
+
+// Base of all errors that carry an HTTP status. Route handlers throw these
+// (or the service errors that extend them) and sendError turns them into
+// { success: false, error, code, details?, requestId }.
+export class ApiError extends Error {
+  public code: ErrorCode;
+
+  constructor(
+    message: string,
+    public statusCode: number = 500,
+    code?: ErrorCode,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code ?? codeForStatus(statusCode);
+  }
+}
+
+export class ValidationError extends ApiError {
+  constructor(details: unknown, message: string = 'Validation error') {
+    super(message, 400, 'VALIDATION_ERROR', details);
+    this.name = 'ValidationError';
+  }
+}
+
+export class BadRequestError extends ApiError {
+  constructor(message: string = 'Bad request') {
+    super(message, 400);
+    this.name = 'BadRequestError';
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(message: string = 'Unauthorized') {
+    super(message, 401);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class ForbiddenError extends ApiError {
+  constructor(message: string = 'Forbidden') {
+    super(message, 403);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string = 'Not found') {
+    super(message, 404);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends ApiError {
+  constructor(message: string = 'Conflict') {
+    super(message, 409);
+    this.name = 'ConflictError';
+  }
+}
+
+// Messages for the Prisma errors a route expects, e.g. "Post not found"
+export interface PrismaErrorMessages {
+  notFound?: string;
+  conflict?: string;
+}
+
+// Prisma error codes, see https://www.prisma.io/docs/orm/reference/error-reference
+export function fromPrismaError(error: unknown, messages: PrismaErrorMessages = {}): ApiError | null {
+  if (!(error instanceof Prisma.PrismaClientKnownRequestError)) {
+    return null;
+  }
+
+  switch (error.code) {
+    // Value too long for the column
+    case 'P2000':
+      return new ApiError('A value is too long', 400);
+    // Unique constraint failed
+    case 'P2002':
+      return new ConflictError(messages.conflict || 'A record with this value already exists');
+    // Foreign key constraint failed
+    case 'P2003':
+      return new ApiError('A referenced record does not exist', 400);
+    // Record to update or delete not found
+    case 'P2025':
+      return new NotFoundError(messages.notFound || 'Record not found');
+    default:
+      return null;
+  }
+}
+
+export function isUniqueConstraintError(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+export function isRecordNotFoundError(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025';
+}
+
+// Body parser errors (invalid JSON, body too large) carry a status and an
+// `expose` flag that says whether the message is safe to show
+function fromHttpError(error: unknown): ApiError | null {
+  const httpError = error as { status?: unknown; expose?: unknown; message?: unknown } | null;
+  if (
+    typeof httpError?.status === 'number' &&
+    httpError.status >= 400 &&
+    httpError.status < 500 &&
+    httpError.expose === true &&
+    typeof httpError.message === 'string'
+  ) {
+    return new ApiError(httpError.message, httpError.status);
+  }
+  return null;
+}
+
+// Any thrown value as an ApiError; unknown errors become a 500 without details
+export function toApiError(error: unknown, messages: PrismaErrorMessages = {}): ApiError {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  if (error instanceof z.ZodError) {
+    return new ValidationError(error.errors);
+  }
+
+  return fromPrismaError(error, messages) ??
+    fromHttpError(error) ??
+    new ApiError('Internal server error', 500);
+}
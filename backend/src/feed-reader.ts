@@ -0,0 +1,276 @@
+import crypto from 'crypto';
+import { parseDocument } from 'htmlparser2';
+import { findOne, getElementsByTagName, getInnerHTML, textContent } from 'domutils';
+
+type XmlElement = NonNullable<ReturnType<typeof findOne>>;
+
+const USER_AGENT = 'TeacherAIAcademy-FeedReader/1.0';
+const MAX_FEED_BYTES = 5 * 1024 * 1024;
+
+// An article from an external feed, normalized across RSS and Atom
+export interface FeedEntry {
+  guid: string;
+  url: string | null;
+  title: string;
+  contentHtml: string;
+  summary: string | null;
+  imageUrl: string | null;
+  publishedAt: Date | null;
+  categories: string[];
+}
+
+export interface ParsedFeed {
+  format: 'rss' | 'atom';
+  title: string;
+  link: string | null;
+  entries: FeedEntry[];
+}
+
+export type FetchFeedResult =
+  | { notModified: true; statusCode: number }
+  | { notModified: false; statusCode: number; feed: ParsedFeed; etag: string | null; lastModified: string | null };
+
+export interface FetchFeedOptions {
+  etag?: string | null | undefined;
+  lastModified?: string | null | undefined;
+  timeoutMs?: number | undefined;
+}
+
+export class FeedError extends Error {
+  constructor(message: string, public statusCode: number | null = null) {
+    super(message);
+    this.name = 'FeedError';
+  }
+}
+
+function child(element: XmlElement, name: string): XmlElement | null {
+  return getElementsByTagName(name, element.children, false, 1)[0] || null;
+}
+
+function childText(element: XmlElement, ...names: string[]): string {
+  for (const name of names) {
+    const found = child(element, name);
+    const text = found ? textContent(found).trim() : '';
+    if (text) {
+      return text;
+    }
+  }
+  return '';
+}
+
+function parseDate(value: string): Date | null {
+  if (!value) {
+    return null;
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Only absolute http(s) URLs are kept; relative ones are resolved against baseUrl
+function absoluteUrl(value: string | undefined, baseUrl: string | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    const url = new URL(value.trim(), baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+// Image from an enclosure or Media RSS element
+function mediaImage(item: XmlElement, baseUrl: string | undefined): string | null {
+  for (const enclosure of getElementsByTagName('enclosure', item.children, false)) {
+    if ((enclosure.attribs['type'] || '').startsWith('image/')) {
+      return absoluteUrl(enclosure.attribs['url'], baseUrl);
+    }
+  }
+
+  for (const name of ['media:content', 'media:thumbnail']) {
+    for (const media of getElementsByTagName(name, item.children, true)) {
+      const medium = media.attribs['medium'];
+      const type = media.attribs['type'] || '';
+      if (name === 'media:thumbnail' || medium === 'image' || type.startsWith('image/')) {
+        const url = absoluteUrl(media.attribs['url'], baseUrl);
+        if (url) {
+          return url;
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+// Fallback id for entries without a guid or link
+function hashGuid(...parts: string[]): string {
+  return `sha1:${crypto.createHash('sha1').update(parts.join('\n')).digest('hex')}`;
+}
+
+function parseRssItem(item: XmlElement, baseUrl: string | undefined): FeedEntry {
+  const title = childText(item, 'title');
+  const url = absoluteUrl(childText(item, 'link'), baseUrl);
+  const description = childText(item, 'description');
+  const encoded = childText(item, 'content:encoded');
+  const published = childText(item, 'pubDate', 'dc:date');
+
+  return {
+    guid: childText(item, 'guid') || url || hashGuid(title, description, published),
+    url,
+    title,
+    contentHtml: encoded || description,
+    summary: encoded && description ? description : null,
+    imageUrl: mediaImage(item, baseUrl),
+    publishedAt: parseDate(published),
+    categories: getElementsByTagName('category', item.children, false)
+      .map(category => textContent(category).trim())
+      .filter(Boolean),
+  };
+}
+
+function atomLink(element: XmlElement, rel: string, baseUrl: string | undefined): string | null {
+  const link = getElementsByTagName('link', element.children, false)
+    .find(candidate => (candidate.attribs['rel'] || 'alternate') === rel);
+  return link ? absoluteUrl(link.attribs['href'], baseUrl) : null;
+}
+
+// Atom text constructs may carry escaped HTML or inline XHTML
+function atomContent(element: XmlElement | null): string {
+  if (!element) {
+    return '';
+  }
+
+  if (element.attribs['type'] === 'xhtml') {
+    const div = findOne(candidate => candidate.name === 'div', element.children, false);
+    return (div ? getInnerHTML(div, { xmlMode: true }) : getInnerHTML(element, { xmlMode: true })).trim();
+  }
+
+  return textContent(element).trim();
+}
+
+// Titles are plain text; Atom allows them to be HTML or XHTML
+function atomTitle(element: XmlElement | null): string {
+  if (!element || !['html', 'xhtml'].includes(element.attribs['type'] || '')) {
+    return atomContent(element);
+  }
+
+  return textContent(parseDocument(atomContent(element))).replace(/\s+/g, ' ').trim();
+}
+
+function parseAtomEntry(entry: XmlElement, baseUrl: string | undefined): FeedEntry {
+  const title = atomTitle(child(entry, 'title'));
+  const url = atomLink(entry, 'alternate', baseUrl);
+  const content = atomContent(child(entry, 'content'));
+  const summary = atomContent(child(entry, 'summary'));
+  const published = childText(entry, 'published', 'updated');
+
+  const enclosure = getElementsByTagName('link', entry.children, false)
+    .find(link => link.attribs['rel'] === 'enclosure' && (link.attribs['type'] || '').startsWith('image/'));
+
+  return {
+    guid: childText(entry, 'id') || url || hashGuid(title, content, published),
+    url,
+    title,
+    contentHtml: content || summary,
+    summary: content && summary ? summary : null,
+    imageUrl: (enclosure && absoluteUrl(enclosure.attribs['href'], baseUrl)) || mediaImage(entry, baseUrl),
+    publishedAt: parseDate(published),
+    categories: getElementsByTagName('category', entry.children, false)
+      .map(category => (category.attribs['term'] || '').trim())
+      .filter(Boolean),
+  };
+}
+
+// Parse an RSS 0.9x/1.0/2.0 or Atom 1.0 document
+export function parseFeed(xml: string, baseUrl?: string): ParsedFeed {
+  const document = parseDocument(xml, { xmlMode: true });
+  const root = findOne(element => ['rss', 'rdf:RDF', 'feed'].includes(element.name), document.children, false);
+
+  if (!root) {
+    throw new FeedError('Not an RSS or Atom feed');
+  }
+
+  if (root.name === 'feed') {
+    return {
+      format: 'atom',
+      title: atomTitle(child(root, 'title')),
+      link: atomLink(root, 'alternate', baseUrl),
+      entries: getElementsByTagName('entry', root.children, false).map(entry => parseAtomEntry(entry, baseUrl)),
+    };
+  }
+
+  // RSS 1.0 keeps its items next to the channel rather than inside it.
+  // Relative item links are resolved against the site, not the feed.
+  const channel = child(root, 'channel');
+  const link = channel ? absoluteUrl(childText(channel, 'link'), baseUrl) : null;
+  return {
+    format: 'rss',
+    title: channel ? childText(channel, 'title') : '',
+    link,
+    entries: getElementsByTagName('item', root.children, true).map(item => parseRssItem(item, link || baseUrl)),
+  };
+}
+
+// Fetch and parse a feed, sending back the validators of the last response
+export async function fetchFeed(url: string, options: FetchFeedOptions = {}): Promise<FetchFeedResult> {
+  const headers: Record<string, string> = {
+    'User-Agent': USER_AGENT,
+    Accept: 'application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.9, */*;q=0.5',
+  };
+  if (options.etag) {
+    headers['If-None-Match'] = options.etag;
+  }
+  if (options.lastModified) {
+    headers['If-Modified-Since'] = options.lastModified;
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers,
+      redirect: 'follow',
+      signal: AbortSignal.timeout(options.timeoutMs || 15000),
+    });
+  } catch (error) {
+    const reason = error instanceof Error && error.name === 'TimeoutError'
+      ? 'Request timed out'
+      : `Request failed: ${error instanceof Error ? error.message : String(error)}`;
+    throw new FeedError(reason);
+  }
+
+  if (response.status === 304) {
+    return { notModified: true, statusCode: 304 };
+  }
+
+  if (!response.ok) {
+    throw new FeedError(`Feed responded with HTTP ${response.status}`, response.status);
+  }
+
+  const declaredLength = parseInt(response.headers.get('content-length') || '', 10);
+  if (declaredLength > MAX_FEED_BYTES) {
+    throw new FeedError(`Feed is larger than ${MAX_FEED_BYTES} bytes`, response.status);
+  }
+
+  const body = await response.text();
+  if (Buffer.byteLength(body) > MAX_FEED_BYTES) {
+    throw new FeedError(`Feed is larger than ${MAX_FEED_BYTES} bytes`, response.status);
+  }
+
+  let feed: ParsedFeed;
+  try {
+    feed = parseFeed(body, response.url || url);
+  } catch (error) {
+    throw new FeedError(error instanceof Error ? error.message : 'Invalid feed', response.status);
+  }
+
+  return {
+    notModified: false,
+    statusCode: response.status,
+    feed,
+    etag: response.headers.get('etag'),
+    lastModified: response.headers.get('last-modified'),
+  };
+}
@@ -0,0 +1,243 @@
+import RSS from 'rss';
+import type { PostWithTags } from './posts';
+import { escapeHtml } from './templates';
+
+export const FEED_TITLE = 'Teacher AI Academy Blog';
+export const FEED_DESCRIPTION =
+  'Insights, tips, and strategies for integrating AI into your teaching practice. Stay updated with the latest trends and practical applications.';
+
+const FEED_AUTHOR = 'Teacher AI Academy';
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml',
+  atom: 'application/atom+xml',
+  json: 'application/feed+json',
+};
+
+const FEED_FORMAT_NAMES: Record<FeedFormat, string> = {
+  rss: 'RSS',
+  atom: 'Atom',
+  json: 'JSON Feed',
+};
+
+export interface FeedOptions {
+  title: string;
+  feedUrl: string;
+  siteUrl: string;
+  postUrl: (slug: string) => string;
+}
+
+// A post as every feed format sees it
+interface FeedItem {
+  id: string;
+  url: string;
+  title: string;
+  summary: string;
+  contentHtml: string;
+  author: string;
+  tags: string[];
+  published: Date;
+  updated: Date;
+  image: { url: string; type: string } | null;
+}
+
+// One <link rel="alternate"> per feed, for autodiscovery
+export interface FeedLink {
+  format: FeedFormat;
+  type: string;
+  title: string;
+  href: string;
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  svg: 'image/svg+xml',
+};
+
+// Guess an image MIME type from the URL's extension; enclosures require one
+function imageType(url: string): string {
+  let pathname = url;
+  try {
+    pathname = new URL(url).pathname;
+  } catch {
+    // Not an absolute URL, use it as is
+  }
+
+  const extension = pathname.split('.').pop()?.toLowerCase() || '';
+  return IMAGE_TYPES[extension] || 'image/jpeg';
+}
+
+function toFeedItems(posts: PostWithTags[], options: FeedOptions): FeedItem[] {
+  return posts.map(post => ({
+    id: post.id,
+    url: options.postUrl(post.slug),
+    title: post.title,
+    summary: post.summary || '',
+    contentHtml: post.contentHtml || '',
+    author: post.author,
+    tags: post.tags,
+    published: post.publishedAt,
+    updated: post.updatedAt,
+    image: post.imageUrl ? { url: post.imageUrl, type: imageType(post.imageUrl) } : null,
+  }));
+}
+
+// RSS 2.0 feed of the given posts, shared by /api/rss and the static export
+export function buildRssFeed(posts: PostWithTags[], options: FeedOptions): string {
+  const feed = new RSS({
+    title: options.title,
+    description: FEED_DESCRIPTION,
+    feed_url: options.feedUrl,
+    site_url: options.siteUrl,
+    language: 'en',
+    managingEditor: FEED_AUTHOR,
+    webMaster: FEED_AUTHOR,
+    copyright: `© ${new Date().getFullYear()} ${FEED_AUTHOR}`,
+    lastBuildDate: new Date(),
+    ttl: 60, // Time to live in minutes
+  });
+
+  // Add posts to feed
+  toFeedItems(posts, options).forEach(item => {
+    feed.item({
+      title: item.title,
+      description: item.summary || item.contentHtml,
+      url: item.url,
+      guid: item.id,
+      date: item.published,
+      author: item.author,
+      categories: item.tags,
+      enclosure: item.image ? { url: item.image.url, type: item.image.type } : undefined,
+      custom_elements: [
+        {
+          'content:encoded': {
+            _cdata: item.contentHtml,
+          },
+        },
+      ],
+    });
+  });
+
+  return feed.xml({ indent: true });
+}
+
+// Atom 1.0 (RFC 4287). Entry ids are tag: URIs built from the post id,
+// so they survive slug changes like the RSS guid does.
+export function buildAtomFeed(posts: PostWithTags[], options: FeedOptions): string {
+  const items = toFeedItems(posts, options);
+  const host = new URL(options.siteUrl).hostname;
+  const updated = items.reduce<Date>(
+    (latest, item) => (item.updated > latest ? item.updated : latest),
+    new Date(0)
+  );
+
+  const entries = items.map(item => {
+    const lines = [
+      '  <entry>',
+      `    <id>tag:${escapeHtml(host)},2024:post:${escapeHtml(item.id)}</id>`,
+      `    <title>${escapeHtml(item.title)}</title>`,
+      `    <link rel="alternate" type="text/html" href="${escapeHtml(item.url)}"/>`,
+      `    <published>${item.published.toISOString()}</published>`,
+      `    <updated>${item.updated.toISOString()}</updated>`,
+      `    <author><name>${escapeHtml(item.author)}</name></author>`,
+      ...item.tags.map(tag => `    <category term="${escapeHtml(tag)}"/>`),
+    ];
+    if (item.image) {
+      lines.push(`    <link rel="enclosure" type="${item.image.type}" href="${escapeHtml(item.image.url)}"/>`);
+    }
+    if (item.summary) {
+      lines.push(`    <summary>${escapeHtml(item.summary)}</summary>`);
+    }
+    lines.push(`    <content type="html">${escapeHtml(item.contentHtml)}</content>`);
+    lines.push('  </entry>');
+    return lines.join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en">',
+    `  <id>${escapeHtml(options.feedUrl)}</id>`,
+    `  <title>${escapeHtml(options.title)}</title>`,
+    `  <subtitle>${escapeHtml(FEED_DESCRIPTION)}</subtitle>`,
+    `  <link rel="self" type="${FEED_CONTENT_TYPES.atom}" href="${escapeHtml(options.feedUrl)}"/>`,
+    `  <link rel="alternate" type="text/html" href="${escapeHtml(options.siteUrl)}"/>`,
+    `  <updated>${(items.length > 0 ? updated : new Date()).toISOString()}</updated>`,
+    `  <author><name>${FEED_AUTHOR}</name></author>`,
+    `  <rights>© ${new Date().getFullYear()} ${FEED_AUTHOR}</rights>`,
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+// JSON Feed 1.1 (https://www.jsonfeed.org/version/1.1/)
+export function buildJsonFeed(posts: PostWithTags[], options: FeedOptions): string {
+  const feed = {
+    version: 'https://jsonfeed.org/version/1.1',
+    title: options.title,
+    description: FEED_DESCRIPTION,
+    home_page_url: options.siteUrl,
+    feed_url: options.feedUrl,
+    language: 'en',
+    authors: [{ name: FEED_AUTHOR }],
+    items: toFeedItems(posts, options).map(item => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      ...(item.summary ? { summary: item.summary } : {}),
+      content_html: item.contentHtml,
+      ...(item.image ? { image: item.image.url } : {}),
+      date_published: item.published.toISOString(),
+      date_modified: item.updated.toISOString(),
+      authors: [{ name: item.author }],
+      tags: item.tags,
+      ...(item.image ? { attachments: [{ url: item.image.url, mime_type: item.image.type }] } : {}),
+    })),
+  };
+
+  return JSON.stringify(feed, null, 2);
+}
+
+export function buildFeed(format: FeedFormat, posts: PostWithTags[], options: FeedOptions): string {
+  switch (format) {
+    case 'atom':
+      return buildAtomFeed(posts, options);
+    case 'json':
+      return buildJsonFeed(posts, options);
+    default:
+      return buildRssFeed(posts, options);
+  }
+}
+
+// Feed URLs served by the API, optionally for a single tag
+export function apiFeedUrls(siteBaseUrl: string, tag?: string | undefined): Record<FeedFormat, string> {
+  const query = tag ? `?tag=${encodeURIComponent(tag)}` : '';
+  return {
+    rss: `${siteBaseUrl}/api/rss${query}`,
+    atom: `${siteBaseUrl}/api/feed.atom${query}`,
+    json: `${siteBaseUrl}/api/feed.json${query}`,
+  };
+}
+
+// Autodiscovery links for the given feed URLs, in RSS, Atom, JSON order
+export function feedLinks(urls: Record<FeedFormat, string>, title: string = FEED_TITLE): FeedLink[] {
+  return (['rss', 'atom', 'json'] as const).map(format => ({
+    format,
+    type: FEED_CONTENT_TYPES[format],
+    title: `${title} (${FEED_FORMAT_NAMES[format]})`,
+    href: urls[format],
+  }));
+}
+
+export function feedLinksHtml(links: FeedLink[]): string {
+  return links
+    .map(link => `<link rel="alternate" type="${link.type}" title="${escapeHtml(link.title)}" href="${escapeHtml(link.href)}">`)
+    .join('\n    ');
+}
@@ -0,0 +1,79 @@
+import { PrismaClient, IdempotencyKey } from '@prisma/client';
+import { isUniqueConstraintError } from './errors';
+
+export type IdempotencyClaim =
+  | { status: 'claimed' }
+  | { status: 'replay'; statusCode: number; body: unknown }
+  | { status: 'in_progress' }
+  | { status: 'mismatch' };
+
+export class IdempotencyService {
+  constructor(private prisma: PrismaClient) {}
+
+  private ttlMs(): number {
+    const hours = parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '', 10) || 24;
+    return hours * 60 * 60 * 1000;
+  }
+
+  private isExpired(record: IdempotencyKey): boolean {
+    return record.createdAt.getTime() + this.ttlMs() <= Date.now();
+  }
+
+  // Claim a key for a request, or report what an earlier request with it did
+  async claim(scope: string, key: string, requestHash: string): Promise<IdempotencyClaim> {
+    const existing = await this.prisma.idempotencyKey.findUnique({
+      where: { scope_key: { scope, key } },
+    });
+
+    if (existing && !this.isExpired(existing)) {
+      if (existing.requestHash !== requestHash) {
+        return { status: 'mismatch' };
+      }
+
+      if (existing.statusCode === null || existing.responseBody === null) {
+        return { status: 'in_progress' };
+      }
+
+      return {
+        status: 'replay',
+        statusCode: existing.statusCode,
+        body: JSON.parse(existing.responseBody),
+      };
+    }
+
+    await this.prisma.idempotencyKey.deleteMany({
+      where: { createdAt: { lt: new Date(Date.now() - this.ttlMs()) } },
+    });
+
+    try {
+      await this.prisma.idempotencyKey.create({
+        data: { scope, key, requestHash },
+      });
+    } catch (error) {
+      // Another request claimed the key between our read and write
+      if (isUniqueConstraintError(error)) {
+        return { status: 'in_progress' };
+      }
+      throw error;
+    }
+
+    return { status: 'claimed' };
+  }
+
+  async complete(scope: string, key: string, statusCode: number, body: unknown): Promise<void> {
+    await this.prisma.idempotencyKey.update({
+      where: { scope_key: { scope, key } },
+      data: {
+        statusCode,
+        responseBody: JSON.stringify(body),
+      },
+    });
+  }
+
+  // Forget a key so the request can be retried, e.g. after a server error
+  async release(scope: string, key: string): Promise<void> {
+    await this.prisma.idempotencyKey.deleteMany({
+      where: { scope, key },
+    });
+  }
+}
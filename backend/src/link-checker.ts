@@ -0,0 +1,76 @@
+import { LinkStatus } from '@prisma/client';
+
+const USER_AGENT = 'TeacherAIAcademy-LinkChecker/1.0';
+const MAX_REDIRECTS = 5;
+
+export interface CheckLinkOptions {
+  timeoutMs?: number | undefined;
+}
+
+export interface LinkCheckResult {
+  status: LinkStatus;
+  statusCode: number | null;
+  finalUrl: string | null;
+  error: string | null;
+}
+
+// Some servers do not answer HEAD requests properly, so these are retried with GET
+const RETRY_WITH_GET = new Set([403, 405, 501]);
+
+async function request(url: string, method: 'HEAD' | 'GET', timeoutMs: number): Promise<Response> {
+  const response = await fetch(url, {
+    method,
+    headers: { 'User-Agent': USER_AGENT, Accept: 'text/html, */*;q=0.8' },
+    redirect: 'manual',
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+
+  // Only the status matters; drop the body so the connection is freed
+  await response.body?.cancel();
+  return response;
+}
+
+// Check whether a URL still works. Redirects are followed one at a time so
+// the report can say where a redirected link ends up; any redirect counts.
+export async function checkLink(url: string, options: CheckLinkOptions = {}): Promise<LinkCheckResult> {
+  const timeoutMs = options.timeoutMs || 10000;
+  let current = url;
+
+  try {
+    for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+      let response = await request(current, 'HEAD', timeoutMs);
+      if (RETRY_WITH_GET.has(response.status)) {
+        response = await request(current, 'GET', timeoutMs);
+      }
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        current = new URL(location, current).toString();
+        continue;
+      }
+
+      if (response.status >= 400) {
+        return {
+          status: 'BROKEN',
+          statusCode: response.status,
+          finalUrl: redirects > 0 ? current : null,
+          error: `HTTP ${response.status}`,
+        };
+      }
+
+      return {
+        status: redirects > 0 ? 'REDIRECTED' : 'OK',
+        statusCode: response.status,
+        finalUrl: redirects > 0 ? current : null,
+        error: null,
+      };
+    }
+
+    return { status: 'BROKEN', statusCode: null, finalUrl: current, error: 'Too many redirects' };
+  } catch (error) {
+    const reason = error instanceof Error && error.name === 'TimeoutError'
+      ? 'Request timed out'
+      : `Request failed: ${error instanceof Error ? error.message : String(error)}`;
+    return { status: 'BROKEN', statusCode: null, finalUrl: current === url ? null : current, error: reason };
+  }
+}
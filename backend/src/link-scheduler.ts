@@ -0,0 +1,69 @@
+import { EventEmitter } from 'events';
+import { PrismaClient, Resource } from '@prisma/client';
+import { ResourcesService } from './resources';
+import { LinkCheckResult } from './link-checker';
+import { logger } from './logger';
+
+export interface LinkCheckSchedulerOptions {
+  intervalHours?: number | undefined;
+  checkIntervalMs?: number | undefined;
+}
+
+// Re-checks each resource link once intervalHours have passed since its
+// last check. Emits 'checked' with the resource and the result of each check.
+export class LinkCheckScheduler extends EventEmitter {
+  private resourcesService: ResourcesService;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private intervalMs: number;
+  private checkIntervalMs: number;
+
+  constructor(prisma: PrismaClient, options: LinkCheckSchedulerOptions = {}) {
+    super();
+    this.resourcesService = new ResourcesService(prisma);
+    this.intervalMs = (options.intervalHours || 24) * 60 * 60 * 1000;
+    this.checkIntervalMs = options.checkIntervalMs || 60 * 60 * 1000;
+  }
+
+  start() {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => {
+        logger.error('Error running link checker', { error });
+      });
+    }, this.checkIntervalMs);
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Links are checked one at a time; a tick that starts while the
+  // previous one is still checking does nothing
+  async tick(now: Date = new Date()): Promise<Array<{ resource: Resource; result: LinkCheckResult }>> {
+    if (this.running) {
+      return [];
+    }
+
+    this.running = true;
+    try {
+      const results = [];
+      const due = await this.resourcesService.getDueLinkChecks(new Date(now.getTime() - this.intervalMs));
+      for (const resource of due) {
+        const checked = await this.resourcesService.checkResourceLink(resource, now);
+        this.emit('checked', checked.resource, checked.result);
+        results.push(checked);
+      }
+      return results;
+    } finally {
+      this.running = false;
+    }
+  }
+}
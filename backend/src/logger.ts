@@ -0,0 +1,71 @@
+// Structured logger: one JSON object per line on stdout, e.g.
+// {"time":"2024-03-10T15:30:00.000Z","level":"info","msg":"Server started","port":8080}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel | 'silent', number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+};
+
+function parseLevel(value: string | undefined): number {
+  return LEVELS[(value || 'info').toLowerCase() as LogLevel] ?? LEVELS.info;
+}
+
+// Errors have no enumerable fields, so JSON.stringify would log them as {}
+function replacer(_key: string, value: unknown): unknown {
+  if (value instanceof Error) {
+    const { statusCode } = value as Error & { statusCode?: number };
+    return {
+      name: value.name,
+      message: value.message,
+      ...(statusCode !== undefined ? { statusCode } : {}),
+      stack: value.stack,
+    };
+  }
+  return typeof value === 'bigint' ? value.toString() : value;
+}
+
+export class Logger {
+  constructor(
+    private fields: LogFields = {},
+    private minLevel: number = parseLevel(process.env.LOG_LEVEL),
+    private write: (line: string) => void = line => process.stdout.write(`${line}\n`)
+  ) {}
+
+  // Logger that adds the given fields to every entry, e.g. a request ID
+  child(fields: LogFields): Logger {
+    return new Logger({ ...this.fields, ...fields }, this.minLevel, this.write);
+  }
+
+  debug(msg: string, fields?: LogFields) {
+    this.log('debug', msg, fields);
+  }
+
+  info(msg: string, fields?: LogFields) {
+    this.log('info', msg, fields);
+  }
+
+  warn(msg: string, fields?: LogFields) {
+    this.log('warn', msg, fields);
+  }
+
+  error(msg: string, fields?: LogFields) {
+    this.log('error', msg, fields);
+  }
+
+  private log(level: LogLevel, msg: string, fields: LogFields = {}) {
+    if (LEVELS[level] < this.minLevel) {
+      return;
+    }
+
+    this.write(JSON.stringify({ time: new Date().toISOString(), level, msg, ...this.fields, ...fields }, replacer));
+  }
+}
+
+// Level from LOG_LEVEL: debug, info (default), warn, error or silent
+export const logger = new Logger();
@@ -0,0 +1,126 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import nodemailer from 'nodemailer';
+import { logger } from './logger';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  // Optional HTML alternative to the text
+  html?: string | undefined;
+  replyTo?: string | undefined;
+  headers?: Record<string, string> | undefined;
+}
+
+// Where notification emails go. Set MAIL_TRANSPORT to pick one.
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export class MailError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MailError';
+  }
+}
+
+// Sends through an SMTP server
+export class SmtpTransport implements MailTransport {
+  readonly name = 'smtp';
+  private transporter: nodemailer.Transporter;
+
+  constructor(
+    options: { host: string; port: number; secure: boolean; user?: string | undefined; pass?: string | undefined },
+    private from: string
+  ) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      ...(options.user ? { auth: { user: options.user, pass: options.pass } } : {}),
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      ...(message.html ? { html: message.html } : {}),
+      ...(message.replyTo ? { replyTo: message.replyTo } : {}),
+      ...(message.headers ? { headers: message.headers } : {}),
+    });
+  }
+}
+
+// Writes every message as a JSON file, for development and tests
+export class FileTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(private dir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomBytes(4).toString('hex')}.json`;
+    await fs.writeFile(path.join(this.dir, fileName), JSON.stringify(message, null, 2));
+  }
+}
+
+// Prints every message to the server log
+export class ConsoleTransport implements MailTransport {
+  readonly name = 'console';
+
+  async send(message: MailMessage): Promise<void> {
+    logger.info('Mail not sent (console transport)', { to: message.to, subject: message.subject, text: message.text });
+  }
+}
+
+// Keeps sent messages in memory, for tests
+export class CaptureTransport implements MailTransport {
+  readonly name = 'capture';
+  readonly messages: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.messages.push(message);
+  }
+}
+
+export function createMailTransport(): MailTransport {
+  const transport = process.env.MAIL_TRANSPORT || 'console';
+
+  if (transport === 'smtp') {
+    const host = process.env.SMTP_HOST;
+    if (!host) {
+      throw new MailError('SMTP_HOST must be set when MAIL_TRANSPORT is smtp');
+    }
+
+    const port = parseInt(process.env.SMTP_PORT || '', 10) || 587;
+    return new SmtpTransport(
+      {
+        host,
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+      },
+      process.env.MAIL_FROM || `Teacher AI Academy <no-reply@${new URL(process.env.SITE_BASE_URL || 'http://localhost').hostname}>`
+    );
+  }
+
+  if (transport === 'file') {
+    return new FileTransport(path.resolve(process.env.MAIL_DIR || './data/mail'));
+  }
+
+  if (transport === 'console') {
+    return new ConsoleTransport();
+  }
+
+  throw new MailError(`Unknown MAIL_TRANSPORT: ${transport} (use smtp, file or console)`);
+}
+
+// Shared transport for notifications
+export const mailTransport = createMailTransport();
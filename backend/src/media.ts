@@ -0,0 +1,295 @@
+import crypto from 'crypto';
+import path from 'path';
+import sharp from 'sharp';
+import { PrismaClient, Media, MediaVariant } from '@prisma/client';
+import { MediaStorage, mediaStorage } from './storage';
+import { responseCache } from './cache';
+import { ApiError } from './errors';
+
+// Image formats accepted for upload, detected from the file content
+const UPLOAD_FORMATS: Partial<Record<keyof sharp.FormatEnum, { mimeType: string; extension: string }>> = {
+  jpeg: { mimeType: 'image/jpeg', extension: 'jpg' },
+  png: { mimeType: 'image/png', extension: 'png' },
+  webp: { mimeType: 'image/webp', extension: 'webp' },
+  gif: { mimeType: 'image/gif', extension: 'gif' },
+};
+
+export const MAX_UPLOAD_BYTES = parseInt(process.env.MEDIA_MAX_UPLOAD_BYTES || '', 10) || 10 * 1024 * 1024;
+
+// Larger images are refused before they are decoded
+const MAX_INPUT_PIXELS = 50_000_000;
+
+const DEFAULT_VARIANT_WIDTHS = [320, 640, 960, 1280, 1920];
+
+// Widths of the WebP variants, e.g. MEDIA_VARIANT_WIDTHS=400,800,1600
+export function variantWidths(): number[] {
+  const configured = (process.env.MEDIA_VARIANT_WIDTHS || '')
+    .split(',')
+    .map(width => parseInt(width, 10))
+    .filter(width => width > 0);
+
+  return configured.length > 0 ? configured.sort((a, b) => a - b) : DEFAULT_VARIANT_WIDTHS;
+}
+
+export interface ProcessedFile {
+  data: Buffer;
+  width: number;
+  height: number;
+  mimeType: string;
+  extension: string;
+}
+
+export interface ProcessedImage {
+  original: ProcessedFile;
+  variants: ProcessedFile[];
+}
+
+export interface MediaVariantWithUrl {
+  width: number;
+  height: number;
+  size: number;
+  mimeType: string;
+  url: string;
+}
+
+export interface MediaWithUrls extends Omit<Media, 'storageKey'> {
+  url: string;
+  srcset: string;
+  variants: MediaVariantWithUrl[];
+}
+
+// Image data returned with posts that reference a media item
+export type PostImage = Pick<MediaWithUrls, 'id' | 'url' | 'width' | 'height' | 'alt' | 'srcset' | 'variants'>;
+
+export interface PaginatedMedia {
+  items: MediaWithUrls[];
+  page: number;
+  total: number;
+  hasMore: boolean;
+}
+
+export class MediaError extends ApiError {
+  constructor(message: string, statusCode: number = 400) {
+    super(message, statusCode);
+    this.name = 'MediaError';
+  }
+}
+
+// Re-encode an upload without its metadata (EXIF, GPS, camera details) and
+// create WebP variants no wider than the image itself
+export async function processImage(input: Buffer, widths: number[] = variantWidths()): Promise<ProcessedImage> {
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(input, { limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+  } catch {
+    throw new MediaError('File is not a supported image', 415);
+  }
+
+  const format = metadata.format ? UPLOAD_FORMATS[metadata.format] : undefined;
+  if (!metadata.format || !format) {
+    throw new MediaError(`Unsupported image type${metadata.format ? `: ${metadata.format}` : ''}`, 415);
+  }
+
+  // rotate() applies the EXIF orientation before the EXIF data is dropped.
+  // Frames of animated images are stacked, so their height is per frame.
+  const pages = metadata.pages || 1;
+  const animated = pages > 1;
+  const image = () => sharp(input, { animated, limitInputPixels: MAX_INPUT_PIXELS }).rotate();
+
+  try {
+    const quality = metadata.format === 'jpeg' || metadata.format === 'webp' ? { quality: 90 } : {};
+    const original = await image().toFormat(metadata.format, quality).toBuffer({ resolveWithObject: true });
+
+    const largest = Math.min(original.info.width, widths[widths.length - 1] || original.info.width);
+    const targets = [...new Set([...widths.filter(width => width < largest), largest])];
+
+    const variants: ProcessedFile[] = [];
+    for (const width of targets) {
+      const variant = await image()
+        .resize({ width, withoutEnlargement: true })
+        .webp({ quality: 80 })
+        .toBuffer({ resolveWithObject: true });
+
+      variants.push({
+        data: variant.data,
+        width: variant.info.width,
+        height: Math.round(variant.info.height / pages),
+        mimeType: 'image/webp',
+        extension: 'webp',
+      });
+    }
+
+    return {
+      original: {
+        data: original.data,
+        width: original.info.width,
+        height: Math.round(original.info.height / pages),
+        mimeType: format.mimeType,
+        extension: format.extension,
+      },
+      variants,
+    };
+  } catch {
+    throw new MediaError('Image could not be processed', 422);
+  }
+}
+
+// Add public URLs and a srcset of the WebP variants
+export function toMediaWithUrls(
+  media: Media & { variants: MediaVariant[] },
+  storage: MediaStorage = mediaStorage
+): MediaWithUrls {
+  const { storageKey, variants, ...rest } = media;
+  const withUrls = [...variants]
+    .sort((a, b) => a.width - b.width)
+    .map(variant => ({
+      width: variant.width,
+      height: variant.height,
+      size: variant.size,
+      mimeType: variant.mimeType,
+      url: storage.url(variant.storageKey),
+    }));
+
+  return {
+    ...rest,
+    url: storage.url(storageKey),
+    srcset: withUrls.map(variant => `${variant.url} ${variant.width}w`).join(', '),
+    variants: withUrls,
+  };
+}
+
+export function toPostImage(media: Media & { variants: MediaVariant[] }): PostImage {
+  const { id, url, width, height, alt, srcset, variants } = toMediaWithUrls(media);
+  return { id, url, width, height, alt, srcset, variants };
+}
+
+export class MediaService {
+  constructor(private prisma: PrismaClient, private storage: MediaStorage = mediaStorage) {}
+
+  private toMediaWithUrls(media: Media & { variants: MediaVariant[] }): MediaWithUrls {
+    return toMediaWithUrls(media, this.storage);
+  }
+
+  // Store the processed original and its variants, then record them
+  async uploadMedia(
+    file: { buffer: Buffer; originalName: string },
+    data: { alt?: string | undefined; uploadedById?: string | undefined } = {}
+  ): Promise<MediaWithUrls> {
+    if (file.buffer.length > MAX_UPLOAD_BYTES) {
+      throw new MediaError(`File is larger than ${MAX_UPLOAD_BYTES} bytes`, 413);
+    }
+
+    const processed = await processImage(file.buffer);
+    const folder = crypto.randomBytes(12).toString('hex');
+    const originalKey = `${folder}/original.${processed.original.extension}`;
+    const variantKeys = processed.variants.map(variant => `${folder}/w${variant.width}.${variant.extension}`);
+    const stored: string[] = [];
+
+    try {
+      await this.storage.put(originalKey, processed.original.data, processed.original.mimeType);
+      stored.push(originalKey);
+      for (const [index, variant] of processed.variants.entries()) {
+        await this.storage.put(variantKeys[index]!, variant.data, variant.mimeType);
+        stored.push(variantKeys[index]!);
+      }
+
+      const media = await this.prisma.media.create({
+        data: {
+          fileName: path.basename(file.originalName).slice(0, 255) || 'upload',
+          mimeType: processed.original.mimeType,
+          width: processed.original.width,
+          height: processed.original.height,
+          size: processed.original.data.length,
+          storageKey: originalKey,
+          alt: data.alt || null,
+          uploadedById: data.uploadedById ?? null,
+          variants: {
+            create: processed.variants.map((variant, index) => ({
+              width: variant.width,
+              height: variant.height,
+              size: variant.data.length,
+              mimeType: variant.mimeType,
+              storageKey: variantKeys[index]!,
+            })),
+          },
+        },
+        include: { variants: true },
+      });
+
+      return this.toMediaWithUrls(media);
+    } catch (error) {
+      await Promise.all(stored.map(key => this.storage.delete(key).catch(() => undefined)));
+      throw error;
+    }
+  }
+
+  async getMedia(id: string): Promise<MediaWithUrls | null> {
+    const media = await this.prisma.media.findUnique({
+      where: { id },
+      include: { variants: true },
+    });
+
+    return media ? this.toMediaWithUrls(media) : null;
+  }
+
+  // Media library, newest first
+  async getMediaList(options: { page?: number; limit?: number } = {}): Promise<PaginatedMedia> {
+    const { page = 1, limit = 20 } = options;
+    const maxLimit = Math.min(limit, 100);
+    const skip = (page - 1) * maxLimit;
+
+    const [items, total] = await Promise.all([
+      this.prisma.media.findMany({
+        skip,
+        take: maxLimit,
+        orderBy: { createdAt: 'desc' },
+        include: { variants: true },
+      }),
+      this.prisma.media.count(),
+    ]);
+
+    return {
+      items: items.map(media => this.toMediaWithUrls(media)),
+      page,
+      total,
+      hasMore: skip + maxLimit < total,
+    };
+  }
+
+  async updateMedia(id: string, data: { alt?: string | undefined }): Promise<MediaWithUrls> {
+    const media = await this.prisma.media.update({
+      where: { id },
+      data: { alt: data.alt || null },
+      include: { variants: true },
+    });
+
+    // The alt text is part of the post responses
+    responseCache.invalidate();
+
+    return this.toMediaWithUrls(media);
+  }
+
+  // Media still used as a post image cannot be deleted. Returns false if
+  // the media does not exist.
+  async deleteMedia(id: string): Promise<boolean> {
+    const media = await this.prisma.media.findUnique({
+      where: { id },
+      include: { variants: true, _count: { select: { posts: true } } },
+    });
+
+    if (!media) {
+      return false;
+    }
+
+    if (media._count.posts > 0) {
+      throw new MediaError(`Media is the image of ${media._count.posts} post(s)`, 409);
+    }
+
+    await this.prisma.media.delete({ where: { id } });
+    for (const key of [...media.variants.map(variant => variant.storageKey), media.storageKey]) {
+      await this.storage.delete(key);
+    }
+
+    return true;
+  }
+}
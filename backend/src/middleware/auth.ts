@@ -1,59 +1,171 @@
 import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { UserRole } from '@prisma/client';
+import { UsersService, PublicUser } from '../users';
+import { ApiError, ForbiddenError, UnauthorizedError } from '../errors';
+import { sendError } from './errors';
 
 export interface AuthenticatedRequest extends Request {
   isAuthenticated?: boolean;
+  user?: PublicUser;
+  token?: string;
 }
 
-export function requireAuth(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+export interface WebhookRequest extends Request {
+  rawBody?: Buffer;
+}
+
+// Authenticate a user by session token or API token
+export async function requireAuth(req: AuthenticatedRequest, res: Response, next: NextFunction) {
   const authHeader = req.headers.authorization;
-  const token = process.env.ADMIN_BEARER_TOKEN;
 
-  if (!token) {
-    return res.status(500).json({ 
-      error: 'Server configuration error: ADMIN_BEARER_TOKEN not set' 
-    });
-  }
+  try {
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      throw new UnauthorizedError('Authorization header required. Format: Bearer <token>');
+    }
 
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return res.status(401).json({ 
-      error: 'Authorization header required. Format: Bearer <token>' 
-    });
-  }
+    const providedToken = authHeader.substring(7); // Remove 'Bearer ' prefix
+
+    const usersService = new UsersService(req.app.locals.prisma);
+    const user = await usersService.authenticate(providedToken);
 
-  const providedToken = authHeader.substring(7); // Remove 'Bearer ' prefix
+    if (!user) {
+      throw new UnauthorizedError('Invalid or expired authentication token');
+    }
 
-  if (providedToken !== token) {
-    return res.status(401).json({ 
-      error: 'Invalid authentication token' 
-    });
+    req.isAuthenticated = true;
+    req.user = user;
+    req.token = providedToken;
+    next();
+  } catch (error) {
+    sendError(req, res, error, 'Error authenticating request');
   }
+}
 
-  req.isAuthenticated = true;
-  next();
+// Only allow users with one of the given roles; use after requireAuth
+export function requireRole(...roles: UserRole[]) {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user || !roles.includes(req.user.role)) {
+      return sendError(
+        req,
+        res,
+        new ForbiddenError('You do not have permission to perform this action'),
+        'Error checking role'
+      );
+    }
+
+    next();
+  };
+}
+
+// Webhook checks answer in the same error envelope as the routes
+function missingSecretError(): ApiError {
+  return new ApiError('Server configuration error: N8N_WEBHOOK_SECRET not set', 500);
+}
+
+function rejectWebhook(req: Request, res: Response, message: string) {
+  sendError(req, res, new UnauthorizedError(message), 'Webhook request rejected');
 }
 
+// Legacy mode: plain shared secret in the x-n8n-secret header
 export function requireWebhookSecret(req: Request, res: Response, next: NextFunction) {
   const secret = process.env.N8N_WEBHOOK_SECRET;
 
   if (!secret) {
-    return res.status(500).json({ 
-      error: 'Server configuration error: N8N_WEBHOOK_SECRET not set' 
-    });
+    return sendError(req, res, missingSecretError(), 'N8N_WEBHOOK_SECRET is not set');
   }
 
   const providedSecret = req.headers['x-n8n-secret'] as string;
 
   if (!providedSecret) {
-    return res.status(401).json({ 
-      error: 'x-n8n-secret header required' 
-    });
+    return rejectWebhook(req, res, 'x-n8n-secret header required');
   }
 
   if (providedSecret !== secret) {
-    return res.status(401).json({ 
-      error: 'Invalid webhook secret' 
-    });
+    return rejectWebhook(req, res, 'Invalid webhook secret');
   }
 
   next();
 }
+
+// Signatures seen recently with the Idempotency-Key they first came with,
+// kept until they fall out of the tolerance window
+const seenSignatures = new Map<string, { expiresAt: number; idempotencyKey: string | null }>();
+
+// Whether a signed request may run: the first time always, again only as a
+// retry with the same Idempotency-Key, which the idempotency middleware
+// answers from the stored response. A captured request resent with a new
+// key is refused.
+function acceptSignature(signature: string, idempotencyKey: string | null, expiresAt: number): boolean {
+  const now = Date.now();
+  for (const [seen, entry] of seenSignatures) {
+    if (entry.expiresAt <= now) {
+      seenSignatures.delete(seen);
+    }
+  }
+
+  const seen = seenSignatures.get(signature);
+  if (seen) {
+    return idempotencyKey !== null && seen.idempotencyKey === idempotencyKey;
+  }
+
+  seenSignatures.set(signature, { expiresAt, idempotencyKey });
+  return true;
+}
+
+// Compute the signature n8n should send: HMAC-SHA256 of "<timestamp>.<raw body>"
+export function signWebhookPayload(secret: string, timestamp: string, body: Buffer | string): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.`)
+    .update(body)
+    .digest('hex');
+}
+
+// HMAC mode: x-n8n-timestamp (unix seconds) plus x-n8n-signature (sha256=<hex>)
+export function requireWebhookSignature(req: WebhookRequest, res: Response, next: NextFunction) {
+  const secret = process.env.N8N_WEBHOOK_SECRET;
+
+  if (!secret) {
+    return sendError(req, res, missingSecretError(), 'N8N_WEBHOOK_SECRET is not set');
+  }
+
+  const timestamp = req.headers['x-n8n-timestamp'] as string | undefined;
+  const signatureHeader = req.headers['x-n8n-signature'] as string | undefined;
+
+  if (!timestamp || !signatureHeader) {
+    return rejectWebhook(req, res, 'x-n8n-timestamp and x-n8n-signature headers required');
+  }
+
+  const toleranceSeconds = parseInt(process.env.N8N_WEBHOOK_TOLERANCE_SECONDS || '', 10) || 300;
+  const sentAt = Number(timestamp);
+
+  if (!/^\d+$/.test(timestamp) || Math.abs(Date.now() / 1000 - sentAt) > toleranceSeconds) {
+    return rejectWebhook(req, res, 'Webhook timestamp is missing or outside the allowed window');
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, req.rawBody || ''), 'hex');
+  const provided = Buffer.from(signatureHeader.replace(/^sha256=/, ''), 'hex');
+
+  if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+    return rejectWebhook(req, res, 'Invalid webhook signature');
+  }
+
+  const idempotencyKey = (req.headers['idempotency-key'] as string | undefined) || null;
+  if (!acceptSignature(expected.toString('hex'), idempotencyKey, (sentAt + toleranceSeconds) * 1000)) {
+    return rejectWebhook(req, res, 'Webhook request has already been received');
+  }
+
+  next();
+}
+
+// Pick the webhook check from N8N_WEBHOOK_AUTH_MODE: "hmac" (default) or "legacy"
+export function requireWebhookAuth(req: WebhookRequest, res: Response, next: NextFunction) {
+  const mode = process.env.N8N_WEBHOOK_AUTH_MODE || 'hmac';
+
+  if (mode === 'legacy') {
+    return requireWebhookSecret(req, res, next);
+  }
+
+  return requireWebhookSignature(req, res, next);
+}
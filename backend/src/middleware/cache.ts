@@ -0,0 +1,61 @@
+import { Request, Response, NextFunction } from 'express';
+import { responseCache, etagFor } from '../cache';
+
+// Serve GET responses from the in-memory response cache and store
+// successful ones in it. ETag and Last-Modified are always set, so
+// Express answers If-None-Match / If-Modified-Since with 304 on its own.
+export function cacheResponse(cacheControl: string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    res.set('Cache-Control', cacheControl);
+
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      return next();
+    }
+
+    const key = req.originalUrl;
+    const cached = responseCache.get(key);
+
+    if (cached) {
+      res.set('X-Cache', 'HIT');
+      res.set('ETag', cached.etag);
+      if (cached.contentType) {
+        res.set('Content-Type', cached.contentType);
+      }
+      if (cached.lastModified) {
+        res.set('Last-Modified', cached.lastModified);
+      }
+      return res.send(cached.body);
+    }
+
+    const generation = responseCache.generation;
+    const send = res.send.bind(res);
+
+    res.set('X-Cache', 'MISS');
+    res.send = (body?: unknown) => {
+      if (res.statusCode === 200 && (typeof body === 'string' || Buffer.isBuffer(body))) {
+        const entry = responseCache.set(key, generation, {
+          body,
+          contentType: res.get('Content-Type'),
+          lastModified: res.get('Last-Modified'),
+        });
+        res.set('ETag', entry ? entry.etag : etagFor(body));
+      }
+      return send(body);
+    };
+
+    next();
+  };
+}
+
+// Last-Modified from the newest of the given dates. A scheduled post only
+// shows up once publishedAt passes, so callers pass both timestamps.
+export function setLastModified(res: Response, dates: Date[]) {
+  const newest = dates.reduce<Date | null>(
+    (latest, date) => (!latest || date > latest ? date : latest),
+    null
+  );
+
+  if (newest) {
+    res.set('Last-Modified', newest.toUTCString());
+  }
+}
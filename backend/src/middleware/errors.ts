@@ -0,0 +1,51 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiError, PrismaErrorMessages, toApiError } from '../errors';
+
+export interface ErrorBody {
+  success: false;
+  error: string;
+  code: string;
+  details?: unknown;
+  requestId?: string;
+}
+
+function errorBody(req: Request, error: ApiError): ErrorBody {
+  return {
+    success: false,
+    error: error.message,
+    code: error.code,
+    ...(error.details !== undefined ? { details: error.details } : {}),
+    requestId: req.id,
+  };
+}
+
+// Answer with the error envelope; server errors are logged, client errors
+// are not since they are expected
+export function sendError(
+  req: Request,
+  res: Response,
+  error: unknown,
+  logMessage: string,
+  messages: PrismaErrorMessages = {}
+) {
+  const apiError = toApiError(error, messages);
+
+  if (apiError.statusCode >= 500) {
+    req.log.error(logMessage, { error });
+  }
+
+  res.status(apiError.statusCode).json(errorBody(req, apiError));
+}
+
+export function notFoundHandler(req: Request, res: Response) {
+  res.status(404).json({
+    ...errorBody(req, new ApiError('Endpoint not found', 404)),
+    path: req.originalUrl,
+  });
+}
+
+// Errors passed to next() or thrown in synchronous handlers; the request ID
+// lets a report be matched to the logs
+export function errorHandler(error: unknown, req: Request, res: Response, _next: NextFunction) {
+  sendError(req, res, error, 'Unhandled error');
+}
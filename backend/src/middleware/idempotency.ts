@@ -0,0 +1,68 @@
+import { Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { IdempotencyService } from '../idempotency';
+import { ApiError, BadRequestError, ConflictError } from '../errors';
+import { WebhookRequest } from './auth';
+import { sendError } from './errors';
+
+// Answer retries that carry the same Idempotency-Key with the original response
+export function idempotency(scope: string) {
+  return async (req: WebhookRequest, res: Response, next: NextFunction) => {
+    const key = req.headers['idempotency-key'] as string | undefined;
+
+    if (!key) {
+      return next();
+    }
+
+    if (key.length > 255) {
+      return sendError(
+        req,
+        res,
+        new BadRequestError('Idempotency-Key must be at most 255 characters'),
+        'Error checking idempotency key'
+      );
+    }
+
+    const requestHash = crypto
+      .createHash('sha256')
+      .update(req.rawBody || JSON.stringify(req.body ?? null))
+      .digest('hex');
+
+    try {
+      const idempotencyService = new IdempotencyService(req.app.locals.prisma);
+      const claim = await idempotencyService.claim(scope, key, requestHash);
+
+      if (claim.status === 'mismatch') {
+        throw new ApiError('Idempotency-Key was already used for a different request', 422);
+      }
+
+      if (claim.status === 'in_progress') {
+        throw new ConflictError('A request with this Idempotency-Key is still being processed');
+      }
+
+      if (claim.status === 'replay') {
+        res.setHeader('Idempotent-Replayed', 'true');
+        return res.status(claim.statusCode).json(claim.body);
+      }
+
+      // Store the response once the handler sends it; server errors release
+      // the key so the retry runs again
+      const json = res.json.bind(res);
+      res.json = (body: unknown) => {
+        const stored = res.statusCode >= 500
+          ? idempotencyService.release(scope, key)
+          : idempotencyService.complete(scope, key, res.statusCode, body);
+
+        stored.catch(error => {
+          req.log.error('Error storing idempotent response', { error });
+        });
+
+        return json(body);
+      };
+
+      next();
+    } catch (error) {
+      sendError(req, res, error, 'Error checking idempotency key');
+    }
+  };
+}
@@ -0,0 +1,50 @@
+import { Request, Response, NextFunction } from 'express';
+import { httpRequests, httpRequestDuration, webhookRequests } from '../metrics';
+
+// Route pattern of a handled request, e.g. /api/posts/:slug. Requests no
+// route matched (404s, static files) share one label.
+function routeLabel(req: Request): string {
+  return req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+}
+
+// Count requests and their latency per route
+export function trackRequests(req: Request, res: Response, next: NextFunction) {
+  const end = httpRequestDuration.startTimer();
+
+  res.on('finish', () => {
+    const labels = { method: req.method, route: routeLabel(req), status: String(res.statusCode) };
+    httpRequests.inc(labels);
+    end(labels);
+  });
+
+  next();
+}
+
+function webhookOutcome(res: Response): string {
+  const status = res.statusCode;
+
+  if (status < 300) {
+    return res.get('Idempotent-Replayed') ? 'replayed' : 'accepted';
+  }
+  if (status === 401 || status === 403) {
+    return 'unauthorized';
+  }
+  if (status === 409) {
+    return 'conflict';
+  }
+  if (status === 429) {
+    return 'rate_limited';
+  }
+  return status >= 500 ? 'error' : 'invalid';
+}
+
+// Count webhook requests by outcome; use before the webhook's rate limit and auth
+export function countWebhookOutcomes(webhook: string) {
+  return (_req: Request, res: Response, next: NextFunction) => {
+    res.on('finish', () => {
+      webhookRequests.inc({ webhook, outcome: webhookOutcome(res) });
+    });
+
+    next();
+  };
+}
@@ -1,34 +1,98 @@
-import rateLimit from 'express-rate-limit';
+import rateLimit, { RateLimitExceededEventHandler } from 'express-rate-limit';
+import { rateLimitRejections } from '../metrics';
+import { ApiError } from '../errors';
+import { sendError } from './errors';
 
-// Rate limiting for public endpoints
+// Count rejections per limiter for /metrics, then answer with the error envelope
+function countRejections(limiter: string): RateLimitExceededEventHandler {
+  return (req, res, _next, options) => {
+    rateLimitRejections.inc({ limiter });
+    sendError(req, res, new ApiError(options.message, options.statusCode), 'Rate limit exceeded');
+  };
+}
+
+// Rate limiting for public endpoints. Posts and feeds are served from the
+// response cache, so this can be generous.
 export const publicRateLimit = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 100, // Limit each IP to 100 requests per windowMs
-  message: {
-    error: 'Too many requests from this IP, please try again later.',
-  },
+  max: parseInt(process.env.PUBLIC_RATE_LIMIT_MAX || '', 10) || 300, // Limit each IP to 300 requests per windowMs by default
+  message: 'Too many requests from this IP, please try again later.',
   standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
   legacyHeaders: false, // Disable the `X-RateLimit-*` headers
+  handler: countRejections('public'),
 });
 
 // Rate limiting for webhook endpoints
 export const webhookRateLimit = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 50, // Limit each IP to 50 requests per windowMs
-  message: {
-    error: 'Too many webhook requests from this IP, please try again later.',
-  },
+  message: 'Too many webhook requests from this IP, please try again later.',
   standardHeaders: true,
   legacyHeaders: false,
+  handler: countRejections('webhook'),
 });
 
 // Rate limiting for admin endpoints
 export const adminRateLimit = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 200, // Limit each IP to 200 requests per windowMs
-  message: {
-    error: 'Too many admin requests from this IP, please try again later.',
+  message: 'Too many admin requests from this IP, please try again later.',
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: countRejections('admin'),
+});
+
+// Rate limiting for login attempts
+export const loginRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10, // Limit each IP to 10 login attempts per windowMs
+  message: 'Too many login attempts from this IP, please try again later.',
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: countRejections('login'),
+});
+
+// Rate limiting for new comments, per IP address
+export const commentRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: parseInt(process.env.COMMENT_RATE_LIMIT_MAX || '', 10) || 10, // Limit each IP to 10 comments per windowMs by default
+  message: 'Too many comments from this IP, please try again later.',
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: countRejections('comment'),
+});
+
+// Rate limiting for new comments, per email address, so a sender cannot get
+// around the IP limit by switching networks
+export const commentEmailRateLimit = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: parseInt(process.env.COMMENT_EMAIL_RATE_LIMIT_MAX || '', 10) || 5, // Limit each email to 5 comments per windowMs by default
+  keyGenerator: req => {
+    const email = typeof req.body?.email === 'string' ? req.body.email.trim().toLowerCase() : '';
+    return email ? `email:${email}` : `ip:${req.ip}`;
   },
+  message: 'Too many comments from this email address, please try again later.',
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: countRejections('comment_email'),
+});
+
+// Rate limiting for the contact form
+export const contactRateLimit = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: parseInt(process.env.CONTACT_RATE_LIMIT_MAX || '', 10) || 5, // Limit each IP to 5 messages per windowMs by default
+  message: 'Too many messages from this IP, please try again later.',
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: countRejections('contact'),
+});
+
+// Rate limiting for newsletter sign-ups, which send a confirmation email
+export const newsletterRateLimit = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: parseInt(process.env.NEWSLETTER_RATE_LIMIT_MAX || '', 10) || 5, // Limit each IP to 5 sign-ups per windowMs by default
+  message: 'Too many sign-ups from this IP, please try again later.',
   standardHeaders: true,
   legacyHeaders: false,
+  handler: countRejections('newsletter'),
 });
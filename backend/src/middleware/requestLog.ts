@@ -0,0 +1,50 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { Logger, logger } from '../logger';
+
+declare global {
+  namespace Express {
+    interface Request {
+      id: string;
+      log: Logger;
+    }
+  }
+}
+
+export const REQUEST_ID_HEADER = 'X-Request-ID';
+
+// Request IDs passed in by a proxy are kept if they look sane
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+// Health checks and metric scrapes would drown out everything else
+const QUIET_PATHS = new Set(['/api/health', '/metrics']);
+
+// Give every request an ID, echo it in X-Request-ID and log the request
+// once it is finished. req.log adds the ID to everything a route logs.
+export function requestContext(req: Request, res: Response, next: NextFunction) {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  req.id = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID();
+  req.log = logger.child({ requestId: req.id });
+  res.set(REQUEST_ID_HEADER, req.id);
+
+  // Routers rewrite req.path relative to their mount point, so the full
+  // path is taken before any of them run
+  const path = req.originalUrl.split('?')[0] || '/';
+  const start = process.hrtime.bigint();
+  res.on('finish', () => {
+    const fields = {
+      method: req.method,
+      path,
+      status: res.statusCode,
+      durationMs: Math.round(Number(process.hrtime.bigint() - start) / 1e5) / 10,
+    };
+
+    if (QUIET_PATHS.has(path)) {
+      req.log.debug('Request completed', fields);
+    } else {
+      req.log.info('Request completed', fields);
+    }
+  });
+
+  next();
+}
@@ -0,0 +1,205 @@
+import { PrismaClient, Module } from '@prisma/client';
+import { responseCache } from './cache';
+import { isValidSlug, slugify } from './slugs';
+import { BadRequestError } from './errors';
+
+export interface ModulePrompt {
+  title: string;
+  prompt: string;
+}
+
+export interface ModuleDownload {
+  label: string;
+  url: string;
+}
+
+// The sections of module-template.html. Lists are stored as JSON strings,
+// longer texts as Markdown.
+export interface ModuleSections {
+  overview: string;
+  competencies: string[];
+  skills: string | null;
+  prompts: ModulePrompt[];
+  practiceSteps: string[];
+  practiceNotes: string | null;
+  classroomIdeas: string[];
+  classroomNotes: string | null;
+  rubricCriteria: string[];
+  rubricNotes: string | null;
+  privacyNotes: string[];
+  ethicsNotes: string | null;
+  downloads: ModuleDownload[];
+}
+
+export interface CurriculumModule extends ModuleSections {
+  id: string;
+  slug: string;
+  title: string;
+  summary: string;
+  position: number;
+  published: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Card on the curriculum page and entry of the public listing
+export interface ModuleSummary {
+  slug: string;
+  title: string;
+  summary: string;
+  position: number;
+  updatedAt: Date;
+}
+
+export interface AdjacentModules {
+  previous: ModuleSummary | null;
+  next: ModuleSummary | null;
+}
+
+export interface CreateModuleData extends Partial<ModuleSections> {
+  title: string;
+  slug?: string;
+  summary: string;
+  position?: number;
+  published?: boolean;
+  overview: string;
+}
+
+export type UpdateModuleData = Partial<CreateModuleData>;
+
+// Sections kept as JSON arrays in the database
+const LIST_FIELDS = [
+  'competencies',
+  'prompts',
+  'practiceSteps',
+  'classroomIdeas',
+  'rubricCriteria',
+  'privacyNotes',
+  'downloads',
+] as const;
+
+function parseList<T>(value: string): T[] {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function toCurriculumModule(module: Module): CurriculumModule {
+  return {
+    ...module,
+    competencies: parseList<string>(module.competencies),
+    prompts: parseList<ModulePrompt>(module.prompts),
+    practiceSteps: parseList<string>(module.practiceSteps),
+    classroomIdeas: parseList<string>(module.classroomIdeas),
+    rubricCriteria: parseList<string>(module.rubricCriteria),
+    privacyNotes: parseList<string>(module.privacyNotes),
+    downloads: parseList<ModuleDownload>(module.downloads),
+  };
+}
+
+// Serialize the list sections that are present; other fields pass through
+function toModuleFields(data: UpdateModuleData): Record<string, unknown> {
+  const fields: Record<string, unknown> = { ...data };
+
+  for (const field of LIST_FIELDS) {
+    const value = data[field];
+    if (value !== undefined) {
+      fields[field] = JSON.stringify(value);
+    }
+  }
+
+  return fields;
+}
+
+export class ModulesService {
+  constructor(private prisma: PrismaClient) {}
+
+  // Generate slug from title
+  generateSlug(title: string): string {
+    return slugify(title);
+  }
+
+  // All modules in curriculum order; only published ones unless includeUnpublished
+  async getModules(options: { includeUnpublished?: boolean } = {}): Promise<CurriculumModule[]> {
+    const modules = await this.prisma.module.findMany({
+      where: options.includeUnpublished ? {} : { published: true },
+      orderBy: [{ position: 'asc' }, { title: 'asc' }],
+    });
+
+    return modules.map(toCurriculumModule);
+  }
+
+  async getModuleSummaries(): Promise<ModuleSummary[]> {
+    return this.prisma.module.findMany({
+      where: { published: true },
+      orderBy: [{ position: 'asc' }, { title: 'asc' }],
+      select: { slug: true, title: true, summary: true, position: true, updatedAt: true },
+    });
+  }
+
+  async getModuleById(id: string): Promise<CurriculumModule | null> {
+    const module = await this.prisma.module.findUnique({ where: { id } });
+    return module ? toCurriculumModule(module) : null;
+  }
+
+  // Published module for the public API and pages
+  async getPublishedModuleBySlug(slug: string): Promise<CurriculumModule | null> {
+    const module = await this.prisma.module.findFirst({
+      where: { slug, published: true },
+    });
+
+    return module ? toCurriculumModule(module) : null;
+  }
+
+  // Published modules before and after the given one in curriculum order
+  async getAdjacentModules(module: CurriculumModule): Promise<AdjacentModules> {
+    const modules = await this.getModuleSummaries();
+    const index = modules.findIndex(item => item.slug === module.slug);
+
+    return {
+      previous: index > 0 ? modules[index - 1] ?? null : null,
+      next: index >= 0 ? modules[index + 1] ?? null : null,
+    };
+  }
+
+  async createModule(data: CreateModuleData): Promise<CurriculumModule> {
+    const slug = data.slug || this.generateSlug(data.title);
+    if (!isValidSlug(slug)) {
+      throw new BadRequestError(`Cannot use "${slug}" as a slug; set a slug of lowercase letters, digits and dashes`);
+    }
+
+    const module = await this.prisma.module.create({
+      data: {
+        ...toModuleFields(data),
+        title: data.title,
+        slug,
+        summary: data.summary,
+        overview: data.overview,
+      },
+    });
+
+    responseCache.invalidate();
+    return toCurriculumModule(module);
+  }
+
+  async updateModule(id: string, data: UpdateModuleData): Promise<CurriculumModule> {
+    const module = await this.prisma.module.update({
+      where: { id },
+      data: toModuleFields(data),
+    });
+
+    responseCache.invalidate();
+    return toCurriculumModule(module);
+  }
+
+  async deleteModule(id: string): Promise<void> {
+    await this.prisma.module.delete({
+      where: { id },
+    });
+
+    responseCache.invalidate();
+  }
+}
@@ -0,0 +1,467 @@
+import crypto from 'crypto';
+import { PrismaClient, NewsletterSend, Subscriber, SubscriberStatus } from '@prisma/client';
+import { PostsService, PostWithTags } from './posts';
+import { normalizeTag } from './tags';
+import { escapeHtml } from './templates';
+import { FEED_TITLE } from './feeds';
+import { MailTransport, mailTransport } from './mail';
+import { logger } from './logger';
+import { ApiError } from './errors';
+
+// Actor recorded for digests sent by the DigestScheduler
+export const DIGEST_ACTOR = 'digest-job';
+
+const CONFIRM_TTL_HOURS = parseInt(process.env.NEWSLETTER_CONFIRM_TTL_HOURS || '', 10) || 48;
+
+// A pending subscriber asking again within this time gets no second email
+const RESEND_AFTER_MS = 10 * 60 * 1000;
+
+// Subscriber as shown to admins, without its tokens
+export interface SubscriberWithTags extends Omit<Subscriber, 'tags' | 'confirmTokenHash' | 'unsubscribeToken'> {
+  tags: string[];
+}
+
+export interface PaginatedSubscribers {
+  items: SubscriberWithTags[];
+  page: number;
+  total: number;
+  hasMore: boolean;
+}
+
+export interface SubscriberPreferences {
+  email: string;
+  status: SubscriberStatus;
+  tags: string[];
+}
+
+export interface NewsletterSendWithPosts extends Omit<NewsletterSend, 'postIds'> {
+  postIds: string[];
+}
+
+export interface NewsletterStats {
+  total: number;
+  pending: number;
+  active: number;
+  unsubscribed: number;
+  lastSend: NewsletterSendWithPosts | null;
+}
+
+export interface RenderedDigest {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface DigestResult {
+  // null when no posts were published in the period, so nothing was sent
+  send: NewsletterSendWithPosts | null;
+  posts: number;
+}
+
+export class NewsletterError extends ApiError {
+  constructor(message: string, statusCode: number = 400) {
+    super(message, statusCode);
+    this.name = 'NewsletterError';
+  }
+}
+
+function generateToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function parseJsonArray(json: string): string[] {
+  try {
+    return JSON.parse(json);
+  } catch {
+    return [];
+  }
+}
+
+// Tag slugs a subscriber follows, deduplicated
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map(normalizeTag).filter(Boolean))];
+}
+
+// Posts a subscriber gets: all of them, or those with one of their tags
+export function postsForSubscriber(posts: PostWithTags[], tags: string[]): PostWithTags[] {
+  if (tags.length === 0) {
+    return posts;
+  }
+
+  return posts.filter(post => post.tags.some(tag => tags.includes(normalizeTag(tag))));
+}
+
+// HTML and plain-text digest of the given posts, newest last
+export function renderDigest(
+  posts: PostWithTags[],
+  links: { siteBaseUrl: string; unsubscribeUrl: string }
+): RenderedDigest {
+  const postUrl = (post: PostWithTags) => `${links.siteBaseUrl}/blog/${post.slug}`;
+  const date = (post: PostWithTags) =>
+    post.publishedAt.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+  const subject = posts.length === 1
+    ? `New post: ${posts[0]!.title}`
+    : `${posts.length} new posts on the ${FEED_TITLE}`;
+
+  const text = [
+    subject,
+    '',
+    ...posts.flatMap(post => [
+      post.title,
+      `${date(post)}${post.summary ? ` - ${post.summary}` : ''}`,
+      postUrl(post),
+      '',
+    ]),
+    `Unsubscribe: ${links.unsubscribeUrl}`,
+    '',
+  ].join('\n');
+
+  const items = posts
+    .map(post => `
+      <tr>
+        <td style="padding: 16px 0; border-bottom: 1px solid #e5e7eb;">
+          <a href="${escapeHtml(postUrl(post))}" style="font-size: 18px; font-weight: 700; color: #1e40af; text-decoration: none;">${escapeHtml(post.title)}</a>
+          <div style="font-size: 13px; color: #6b7280; margin: 4px 0 8px;">${escapeHtml(date(post))}</div>
+          ${post.summary ? `<p style="margin: 0; color: #374151; line-height: 1.5;">${escapeHtml(post.summary)}</p>` : ''}
+        </td>
+      </tr>`)
+    .join('');
+
+  const html = `<!DOCTYPE html>
+<html>
+<body style="margin: 0; padding: 24px; background: #f3f4f6; font-family: Arial, sans-serif;">
+  <table role="presentation" width="100%" style="max-width: 600px; margin: 0 auto; background: #ffffff; border-radius: 8px; padding: 24px;">
+    <tr><td><h1 style="margin: 0 0 8px; font-size: 22px; color: #111827;">${escapeHtml(subject)}</h1></td></tr>${items}
+    <tr>
+      <td style="padding-top: 24px; font-size: 12px; color: #6b7280;">
+        You receive this email because you subscribed to the ${escapeHtml(FEED_TITLE)}.
+        <a href="${escapeHtml(links.unsubscribeUrl)}" style="color: #6b7280;">Unsubscribe</a>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+`;
+
+  return { subject, text, html };
+}
+
+// Small page shown after following a confirmation or unsubscribe link
+export function renderNewsletterPage(title: string, messageHtml: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex">
+  <title>${escapeHtml(title)} - Teacher AI Academy</title>
+</head>
+<body style="font-family: Arial, sans-serif; max-width: 600px; margin: 64px auto; padding: 0 24px; color: #111827;">
+  <h1>${escapeHtml(title)}</h1>
+  ${messageHtml}
+</body>
+</html>
+`;
+}
+
+// Only one digest is sent at a time, whether started by the job or an admin
+let sending = false;
+
+export class NewsletterService {
+  private postsService: PostsService;
+  private siteBaseUrl: string;
+
+  constructor(private prisma: PrismaClient, private transport: MailTransport = mailTransport) {
+    this.postsService = new PostsService(prisma);
+    this.siteBaseUrl = process.env.SITE_BASE_URL || 'http://localhost:8080';
+  }
+
+  private toSubscriberWithTags(subscriber: Subscriber): SubscriberWithTags {
+    const { confirmTokenHash: _confirmTokenHash, unsubscribeToken: _unsubscribeToken, ...rest } = subscriber;
+    return {
+      ...rest,
+      tags: parseJsonArray(subscriber.tags),
+    };
+  }
+
+  private toSendWithPosts(send: NewsletterSend): NewsletterSendWithPosts {
+    return {
+      ...send,
+      postIds: parseJsonArray(send.postIds),
+    };
+  }
+
+  unsubscribeUrl(token: string): string {
+    return `${this.siteBaseUrl}/api/newsletter/unsubscribe?token=${encodeURIComponent(token)}`;
+  }
+
+  // Start a subscription and email the confirmation link. Whether the
+  // address was already subscribed is not revealed to the caller.
+  async subscribe(email: string, tags: string[] = []): Promise<void> {
+    const address = email.trim().toLowerCase();
+    const existing = await this.prisma.subscriber.findUnique({ where: { email: address } });
+
+    if (existing?.status === SubscriberStatus.ACTIVE) {
+      return;
+    }
+
+    if (
+      existing?.status === SubscriberStatus.PENDING &&
+      existing.updatedAt.getTime() > Date.now() - RESEND_AFTER_MS
+    ) {
+      return;
+    }
+
+    const token = generateToken();
+    const data = {
+      status: SubscriberStatus.PENDING,
+      tags: JSON.stringify(normalizeTags(tags)),
+      confirmTokenHash: hashToken(token),
+      confirmExpiresAt: new Date(Date.now() + CONFIRM_TTL_HOURS * 60 * 60 * 1000),
+    };
+
+    await this.prisma.subscriber.upsert({
+      where: { email: address },
+      create: { email: address, unsubscribeToken: generateToken(), ...data },
+      update: data,
+    });
+
+    const confirmUrl = `${this.siteBaseUrl}/api/newsletter/confirm?token=${encodeURIComponent(token)}`;
+
+    try {
+      await this.transport.send({
+        to: address,
+        subject: `Confirm your subscription to the ${FEED_TITLE}`,
+        text: `Please confirm that you want to receive new posts by email:\n\n${confirmUrl}\n\nThe link is valid for ${CONFIRM_TTL_HOURS} hours. If you did not subscribe, you can ignore this email.\n`,
+        html: renderNewsletterPage(
+          'Confirm your subscription',
+          `<p>Please confirm that you want to receive new posts from the ${escapeHtml(FEED_TITLE)} by email.</p>
+  <p><a href="${escapeHtml(confirmUrl)}">Confirm subscription</a></p>
+  <p>The link is valid for ${CONFIRM_TTL_HOURS} hours. If you did not subscribe, you can ignore this email.</p>`
+        ),
+      });
+    } catch (error) {
+      logger.error('Error sending newsletter confirmation', { transport: this.transport.name, error });
+      throw new NewsletterError('The confirmation email could not be sent, please try again later', 503);
+    }
+  }
+
+  // Activate the subscription of a confirmation token. Returns false for
+  // unknown or expired tokens.
+  async confirm(token: string): Promise<boolean> {
+    const subscriber = await this.prisma.subscriber.findUnique({
+      where: { confirmTokenHash: hashToken(token) },
+    });
+
+    if (!subscriber || !subscriber.confirmExpiresAt || subscriber.confirmExpiresAt < new Date()) {
+      return false;
+    }
+
+    await this.prisma.subscriber.update({
+      where: { id: subscriber.id },
+      data: {
+        status: SubscriberStatus.ACTIVE,
+        confirmTokenHash: null,
+        confirmExpiresAt: null,
+        confirmedAt: new Date(),
+        unsubscribedAt: null,
+      },
+    });
+
+    return true;
+  }
+
+  async unsubscribe(token: string): Promise<boolean> {
+    const result = await this.prisma.subscriber.updateMany({
+      where: { unsubscribeToken: token, status: { not: SubscriberStatus.UNSUBSCRIBED } },
+      data: {
+        status: SubscriberStatus.UNSUBSCRIBED,
+        confirmTokenHash: null,
+        confirmExpiresAt: null,
+        unsubscribedAt: new Date(),
+      },
+    });
+
+    if (result.count > 0) {
+      return true;
+    }
+
+    // Following the link twice is not an error
+    return (await this.prisma.subscriber.count({ where: { unsubscribeToken: token } })) > 0;
+  }
+
+  async getPreferences(token: string): Promise<SubscriberPreferences | null> {
+    const subscriber = await this.prisma.subscriber.findUnique({ where: { unsubscribeToken: token } });
+    return subscriber
+      ? { email: subscriber.email, status: subscriber.status, tags: parseJsonArray(subscriber.tags) }
+      : null;
+  }
+
+  // Change the tags a subscriber follows; an empty list means all posts
+  async updatePreferences(token: string, tags: string[]): Promise<SubscriberPreferences | null> {
+    const subscriber = await this.prisma.subscriber.findUnique({ where: { unsubscribeToken: token } });
+    if (!subscriber) {
+      return null;
+    }
+
+    const updated = await this.prisma.subscriber.update({
+      where: { id: subscriber.id },
+      data: { tags: JSON.stringify(normalizeTags(tags)) },
+    });
+
+    return { email: updated.email, status: updated.status, tags: parseJsonArray(updated.tags) };
+  }
+
+  async getStats(): Promise<NewsletterStats> {
+    const [counts, lastSend] = await Promise.all([
+      this.prisma.subscriber.groupBy({ by: ['status'], _count: true }),
+      this.getLastSend(),
+    ]);
+
+    const count = (status: SubscriberStatus) => counts.find(row => row.status === status)?._count ?? 0;
+
+    return {
+      total: counts.reduce((total, row) => total + row._count, 0),
+      pending: count(SubscriberStatus.PENDING),
+      active: count(SubscriberStatus.ACTIVE),
+      unsubscribed: count(SubscriberStatus.UNSUBSCRIBED),
+      lastSend,
+    };
+  }
+
+  // Newest first
+  async getSubscribers(options: {
+    status?: SubscriberStatus | undefined;
+    page?: number;
+    limit?: number;
+  } = {}): Promise<PaginatedSubscribers> {
+    const { status, page = 1, limit = 50 } = options;
+    const maxLimit = Math.min(limit, 200);
+    const skip = (page - 1) * maxLimit;
+    const where = status ? { status } : {};
+
+    const [items, total] = await Promise.all([
+      this.prisma.subscriber.findMany({
+        where,
+        skip,
+        take: maxLimit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.subscriber.count({ where }),
+    ]);
+
+    return {
+      items: items.map(subscriber => this.toSubscriberWithTags(subscriber)),
+      page,
+      total,
+      hasMore: skip + maxLimit < total,
+    };
+  }
+
+  async deleteSubscriber(id: string): Promise<void> {
+    await this.prisma.subscriber.delete({ where: { id } });
+  }
+
+  // Send history, newest first
+  async getSends(limit: number = 50): Promise<NewsletterSendWithPosts[]> {
+    const sends = await this.prisma.newsletterSend.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    return sends.map(send => this.toSendWithPosts(send));
+  }
+
+  async getLastSend(): Promise<NewsletterSendWithPosts | null> {
+    const send = await this.prisma.newsletterSend.findFirst({ orderBy: { periodEnd: 'desc' } });
+    return send ? this.toSendWithPosts(send) : null;
+  }
+
+  // Email every active subscriber the posts that went live since the last
+  // digest (or since firstPeriodStart before the first one), so posts
+  // approved after their publish date are not missed. Subscribers with no
+  // matching posts are skipped.
+  async sendDigest(actor: string, options: { now?: Date; firstPeriodStart?: Date } = {}): Promise<DigestResult> {
+    if (sending) {
+      throw new NewsletterError('A digest is already being sent', 409);
+    }
+
+    sending = true;
+    try {
+      const now = options.now || new Date();
+      const lastSend = await this.getLastSend();
+      const periodStart = lastSend?.periodEnd
+        || options.firstPeriodStart
+        || new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+
+      const posts = await this.postsService.getPostsGoingLive(periodStart, now);
+      if (posts.length === 0) {
+        return { send: null, posts: 0 };
+      }
+
+      let send = await this.prisma.newsletterSend.create({
+        data: {
+          periodStart,
+          periodEnd: now,
+          postIds: JSON.stringify(posts.map(post => post.id)),
+          actor,
+        },
+      });
+
+      const subscribers = await this.prisma.subscriber.findMany({
+        where: { status: SubscriberStatus.ACTIVE },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      let recipients = 0;
+      let sent = 0;
+      let failed = 0;
+      let lastError: string | null = null;
+
+      for (const subscriber of subscribers) {
+        const matching = postsForSubscriber(posts, parseJsonArray(subscriber.tags));
+        if (matching.length === 0) {
+          continue;
+        }
+
+        recipients++;
+        const unsubscribeUrl = this.unsubscribeUrl(subscriber.unsubscribeToken);
+        const digest = renderDigest(matching, { siteBaseUrl: this.siteBaseUrl, unsubscribeUrl });
+
+        try {
+          await this.transport.send({
+            to: subscriber.email,
+            ...digest,
+            headers: {
+              'List-Unsubscribe': `<${unsubscribeUrl}>`,
+              'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+            },
+          });
+          await this.prisma.subscriber.update({
+            where: { id: subscriber.id },
+            data: { lastSentAt: new Date() },
+          });
+          sent++;
+        } catch (error) {
+          failed++;
+          lastError = error instanceof Error ? error.message : String(error);
+          logger.error('Error sending digest', { subscriberId: subscriber.id, error });
+        }
+      }
+
+      send = await this.prisma.newsletterSend.update({
+        where: { id: send.id },
+        data: { recipients, sent, failed, lastError, finishedAt: new Date() },
+      });
+
+      return { send: this.toSendWithPosts(send), posts: posts.length };
+    } finally {
+      sending = false;
+    }
+  }
+}
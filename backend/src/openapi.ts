@@ -0,0 +1,390 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { ERROR_CODES } from './errors';
+import { createPostSchema, updatePostSchema, reviewSchema, rejectSchema, filterSchema as postFilterSchema } from './routes/posts';
+import { n8nWebhookSchema } from './routes/webhook-n8n';
+import { loginSchema, createTokenSchema } from './routes/auth';
+import { createUserSchema, updateUserSchema } from './routes/users';
+import { createSourceSchema, updateSourceSchema } from './routes/sources';
+import { mediaSchema } from './routes/media';
+import { commentSchema } from './routes/comments';
+import { contactSchema } from './routes/contact';
+import { subscribeSchema, preferencesSchema } from './routes/newsletter';
+import { createModuleSchema, updateModuleSchema } from './routes/modules-admin';
+import { filterSchema as resourceFilterSchema } from './routes/resources';
+import { createResourceSchema, updateResourceSchema } from './routes/resources-admin';
+
+// OpenAPI 3 document of the JSON API. Request bodies and the resource filters
+// come from the zod schemas the routes validate with. Paths and the query
+// parameters that routes parse by hand are listed here and have to be kept in
+// step with the routes.
+
+type JsonSchema = Record<string, unknown>;
+
+export const errorResponseSchema = z.object({
+  success: z.literal(false),
+  error: z.string().describe('Human-readable message; may change between versions'),
+  code: z.enum(ERROR_CODES).describe('Stable error code'),
+  details: z.unknown().optional().describe('Validation issues for VALIDATION_ERROR'),
+  requestId: z.string().optional().describe('Same as the X-Request-ID response header'),
+});
+
+const successResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.unknown(),
+});
+
+// Request bodies, published under components/schemas with these names
+const BODY_SCHEMAS = {
+  CreatePost: createPostSchema,
+  UpdatePost: updatePostSchema,
+  Review: reviewSchema,
+  Reject: rejectSchema,
+  N8nWebhook: n8nWebhookSchema,
+  Login: loginSchema,
+  CreateToken: createTokenSchema,
+  CreateUser: createUserSchema,
+  UpdateUser: updateUserSchema,
+  CreateSource: createSourceSchema,
+  UpdateSource: updateSourceSchema,
+  UpdateMedia: mediaSchema,
+  Comment: commentSchema,
+  ContactMessage: contactSchema,
+  Subscribe: subscribeSchema,
+  NewsletterPreferences: preferencesSchema,
+  CreateModule: createModuleSchema,
+  UpdateModule: updateModuleSchema,
+  CreateResource: createResourceSchema,
+  UpdateResource: updateResourceSchema,
+};
+
+type BodySchemaName = keyof typeof BODY_SCHEMAS;
+
+// Query parameters of routes that parse them by hand
+const pageQuery = z.object({
+  page: z.number().int().min(1).optional(),
+  limit: z.number().int().min(1).max(50).optional(),
+});
+
+const postsQuery = pageQuery.extend({
+  tag: z.string().optional(),
+  orderBy: z.enum(['publishedAt', 'updatedAt', 'title']).optional(),
+  order: z.enum(['asc', 'desc']).optional(),
+});
+
+const searchQuery = pageQuery.extend({
+  q: z.string().min(1).max(200),
+});
+
+const popularQuery = z.object({
+  window: z.string().regex(/^\d+d$/).optional().describe('Days to count views over, e.g. 7d'),
+  limit: z.number().int().min(1).max(20).optional(),
+});
+
+const postQuery = z.object({
+  include: z.string().optional().describe('Comma-separated: adjacent, related'),
+  relatedLimit: z.number().int().min(1).max(10).optional(),
+});
+
+const adminPostsQuery = postFilterSchema.merge(pageQuery);
+
+const resourcesQuery = resourceFilterSchema.merge(pageQuery.extend({
+  limit: z.number().int().min(1).max(100).optional(),
+}));
+
+interface Operation {
+  summary: string;
+  tag: string;
+  auth?: 'bearer' | 'webhook';
+  body?: BodySchemaName;
+  query?: z.AnyZodObject;
+  status?: number;
+  errors?: number[];
+}
+
+// tsconfig.json points zod/v3, which zod-to-json-schema imports, at the same
+// declarations as zod; otherwise comparing the two copies is too deep for tsc
+function jsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const { $schema: _, ...rest } = zodToJsonSchema(schema, { target: 'openApi3', $refStrategy: 'none' });
+  return rest;
+}
+
+function ref(kind: 'schemas' | 'responses', name: string) {
+  return { $ref: `#/components/${kind}/${name}` };
+}
+
+function parameters(path: string, query?: z.AnyZodObject) {
+  const pathParams = [...path.matchAll(/\{(\w+)\}/g)].map(match => ({
+    name: match[1],
+    in: 'path',
+    required: true,
+    schema: { type: 'string' },
+  }));
+
+  // Optional parameters are marked as not required rather than in the schema
+  const queryParams = Object.entries(query?.shape ?? {}).map(([name, schema]) => ({
+    name,
+    in: 'query',
+    required: !(schema as z.ZodTypeAny).isOptional(),
+    schema: jsonSchema(schema instanceof z.ZodOptional ? schema.unwrap() : schema as z.ZodTypeAny),
+  }));
+
+  return [...pathParams, ...queryParams];
+}
+
+const ERROR_RESPONSES: Record<number, string> = {
+  400: 'BadRequest',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'NotFound',
+  409: 'Conflict',
+  429: 'RateLimited',
+  500: 'InternalError',
+};
+
+function operation(path: string, spec: Operation) {
+  const status = spec.status ?? 200;
+  const errors = [
+    ...(spec.body || spec.query ? [400] : []),
+    ...(spec.auth ? [401] : []),
+    ...(spec.errors ?? []),
+    429,
+    500,
+  ];
+
+  const responses: Record<string, unknown> = {
+    [status]: status === 204
+      ? { description: 'No content' }
+      : ref('responses', 'Success'),
+  };
+  for (const code of errors.sort()) {
+    responses[code] = ref('responses', ERROR_RESPONSES[code] ?? 'InternalError');
+  }
+
+  const params = parameters(path, spec.query);
+
+  return {
+    summary: spec.summary,
+    tags: [spec.tag],
+    ...(spec.auth === 'bearer' ? { security: [{ bearerAuth: [] }] } : {}),
+    ...(spec.auth === 'webhook' ? { security: [{ n8nSignature: [] }] } : {}),
+    ...(params.length > 0 ? { parameters: params } : {}),
+    ...(spec.body ? {
+      requestBody: {
+        required: true,
+        content: { 'application/json': { schema: ref('schemas', spec.body) } },
+      },
+    } : {}),
+    responses,
+  };
+}
+
+// Paths by URL and method; admin routes all need a bearer token
+const PATHS: Record<string, Record<string, Operation>> = {
+  '/api/health': {
+    get: { summary: 'Health check', tag: 'Public' },
+  },
+  '/api/posts': {
+    get: { summary: 'Published posts', tag: 'Public', query: postsQuery },
+  },
+  '/api/posts/search': {
+    get: { summary: 'Full-text search over published posts', tag: 'Public', query: searchQuery },
+  },
+  '/api/posts/popular': {
+    get: { summary: 'Most viewed posts', tag: 'Public', query: popularQuery },
+  },
+  '/api/posts/{slug}': {
+    get: { summary: 'A published post', tag: 'Public', query: postQuery, errors: [404] },
+  },
+  '/api/posts/{slug}/meta': {
+    get: { summary: 'Open Graph, Twitter card and JSON-LD metadata of a post', tag: 'Public', errors: [404] },
+  },
+  '/api/posts/{slug}/view': {
+    post: { summary: 'Count a view of a post', tag: 'Public', status: 204, errors: [404] },
+  },
+  '/api/posts/{slug}/comments': {
+    get: { summary: 'Approved comments of a post', tag: 'Public', errors: [404] },
+    post: { summary: 'Submit a comment for moderation', tag: 'Public', body: 'Comment', status: 201, errors: [404] },
+  },
+  '/api/contact': {
+    post: { summary: 'Send a contact message', tag: 'Public', body: 'ContactMessage', status: 201 },
+  },
+  '/api/newsletter/subscribe': {
+    post: { summary: 'Subscribe to new posts', tag: 'Public', body: 'Subscribe' },
+  },
+  '/api/newsletter/preferences': {
+    put: { summary: 'Change the followed tags', tag: 'Public', body: 'NewsletterPreferences', errors: [404] },
+  },
+  '/api/modules': {
+    get: { summary: 'Published curriculum modules', tag: 'Public' },
+  },
+  '/api/modules/{slug}': {
+    get: { summary: 'A published curriculum module', tag: 'Public', errors: [404] },
+  },
+  '/api/resources': {
+    get: { summary: 'Published resources', tag: 'Public', query: resourcesQuery },
+  },
+  '/api/tags': {
+    get: { summary: 'Tags with their post counts', tag: 'Public' },
+  },
+  '/api/tags/{slug}': {
+    get: { summary: 'A tag and its posts', tag: 'Public', query: pageQuery, errors: [404] },
+  },
+  '/api/auth/login': {
+    post: { summary: 'Log in and receive a session token', tag: 'Auth', body: 'Login', errors: [401] },
+  },
+  '/api/auth/logout': {
+    post: { summary: 'End the current session', tag: 'Auth', auth: 'bearer' },
+  },
+  '/api/auth/me': {
+    get: { summary: 'The signed-in user', tag: 'Auth', auth: 'bearer' },
+  },
+  '/api/auth/tokens': {
+    get: { summary: 'API tokens of the signed-in user', tag: 'Auth', auth: 'bearer' },
+    post: { summary: 'Create an API token', tag: 'Auth', auth: 'bearer', body: 'CreateToken', status: 201 },
+  },
+  '/api/auth/tokens/{id}': {
+    delete: { summary: 'Revoke an API token', tag: 'Auth', auth: 'bearer', errors: [404] },
+  },
+  '/api/admin/posts': {
+    get: { summary: 'All posts, including drafts', tag: 'Posts', auth: 'bearer', query: adminPostsQuery },
+    post: { summary: 'Create a post', tag: 'Posts', auth: 'bearer', body: 'CreatePost', status: 201, errors: [403, 409] },
+  },
+  '/api/admin/posts/{id}': {
+    get: { summary: 'A post', tag: 'Posts', auth: 'bearer', errors: [404] },
+    put: { summary: 'Update a post', tag: 'Posts', auth: 'bearer', body: 'UpdatePost', errors: [403, 404, 409] },
+    delete: { summary: 'Delete a post', tag: 'Posts', auth: 'bearer', errors: [403, 404] },
+  },
+  '/api/admin/posts/{id}/submit': {
+    post: { summary: 'Submit a draft for review', tag: 'Posts', auth: 'bearer', errors: [403, 404, 409] },
+  },
+  '/api/admin/posts/{id}/approve': {
+    post: { summary: 'Approve a post under review', tag: 'Posts', auth: 'bearer', body: 'Review', errors: [403, 404, 409] },
+  },
+  '/api/admin/posts/{id}/reject': {
+    post: { summary: 'Request changes to a post', tag: 'Posts', auth: 'bearer', body: 'Reject', errors: [403, 404, 409] },
+  },
+  '/api/admin/posts/{id}/archive': {
+    post: { summary: 'Archive a post', tag: 'Posts', auth: 'bearer', body: 'Review', errors: [403, 404, 409] },
+  },
+  '/api/admin/posts/{id}/transitions': {
+    get: { summary: 'Status history of a post', tag: 'Posts', auth: 'bearer', errors: [404] },
+  },
+  '/api/admin/users': {
+    get: { summary: 'All users', tag: 'Users', auth: 'bearer', errors: [403] },
+    post: { summary: 'Create a user', tag: 'Users', auth: 'bearer', body: 'CreateUser', status: 201, errors: [403, 409] },
+  },
+  '/api/admin/users/{id}': {
+    put: { summary: 'Update a user', tag: 'Users', auth: 'bearer', body: 'UpdateUser', errors: [403, 404] },
+    delete: { summary: 'Delete a user', tag: 'Users', auth: 'bearer', errors: [403, 404] },
+  },
+  '/api/admin/sources': {
+    get: { summary: 'Feed sources', tag: 'Sources', auth: 'bearer', errors: [403] },
+    post: { summary: 'Add a feed source', tag: 'Sources', auth: 'bearer', body: 'CreateSource', status: 201, errors: [403, 409] },
+  },
+  '/api/admin/sources/{id}': {
+    get: { summary: 'A feed source', tag: 'Sources', auth: 'bearer', errors: [403, 404] },
+    put: { summary: 'Update a feed source', tag: 'Sources', auth: 'bearer', body: 'UpdateSource', errors: [403, 404, 409] },
+    delete: { summary: 'Delete a feed source', tag: 'Sources', auth: 'bearer', errors: [403, 404] },
+  },
+  '/api/admin/media/{id}': {
+    get: { summary: 'A media item', tag: 'Media', auth: 'bearer', errors: [404] },
+    put: { summary: 'Update the alt text of a media item', tag: 'Media', auth: 'bearer', body: 'UpdateMedia', errors: [404] },
+    delete: { summary: 'Delete a media item', tag: 'Media', auth: 'bearer', errors: [404] },
+  },
+  '/api/admin/modules': {
+    get: { summary: 'All curriculum modules', tag: 'Modules', auth: 'bearer', errors: [403] },
+    post: { summary: 'Create a curriculum module', tag: 'Modules', auth: 'bearer', body: 'CreateModule', status: 201, errors: [403, 409] },
+  },
+  '/api/admin/modules/{id}': {
+    get: { summary: 'A curriculum module', tag: 'Modules', auth: 'bearer', errors: [403, 404] },
+    put: { summary: 'Update a curriculum module', tag: 'Modules', auth: 'bearer', body: 'UpdateModule', errors: [403, 404, 409] },
+    delete: { summary: 'Delete a curriculum module', tag: 'Modules', auth: 'bearer', errors: [403, 404] },
+  },
+  '/api/admin/resources': {
+    get: { summary: 'All resources', tag: 'Resources', auth: 'bearer', errors: [403] },
+    post: { summary: 'Add a resource', tag: 'Resources', auth: 'bearer', body: 'CreateResource', status: 201, errors: [403] },
+  },
+  '/api/admin/resources/{id}': {
+    get: { summary: 'A resource', tag: 'Resources', auth: 'bearer', errors: [403, 404] },
+    put: { summary: 'Update a resource', tag: 'Resources', auth: 'bearer', body: 'UpdateResource', errors: [403, 404] },
+    delete: { summary: 'Delete a resource', tag: 'Resources', auth: 'bearer', errors: [403, 404] },
+  },
+  '/api/webhook/n8n': {
+    post: { summary: 'Create or update a post from n8n', tag: 'Webhooks', auth: 'webhook', body: 'N8nWebhook', errors: [409] },
+  },
+};
+
+function errorResponse(description: string) {
+  return {
+    description,
+    content: { 'application/json': { schema: ref('schemas', 'Error') } },
+  };
+}
+
+export function buildOpenApiDocument() {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const [path, methods] of Object.entries(PATHS)) {
+    const operations: Record<string, unknown> = {};
+    for (const [method, spec] of Object.entries(methods)) {
+      operations[method] = operation(path, spec);
+    }
+    paths[path] = operations;
+  }
+
+  const schemas: Record<string, JsonSchema> = {
+    Success: jsonSchema(successResponseSchema),
+    Error: jsonSchema(errorResponseSchema),
+  };
+  for (const [name, schema] of Object.entries(BODY_SCHEMAS)) {
+    schemas[name] = jsonSchema(schema);
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Teacher AI Academy API',
+      version: '1.0.0',
+      description: 'Successful responses are `{ success: true, data }`; errors are ' +
+        '`{ success: false, error, code, details?, requestId }` with a stable `code`.',
+    },
+    paths,
+    components: {
+      schemas,
+      responses: {
+        Success: {
+          description: 'Success',
+          content: { 'application/json': { schema: ref('schemas', 'Success') } },
+        },
+        BadRequest: errorResponse('Invalid request (BAD_REQUEST or VALIDATION_ERROR)'),
+        Unauthorized: errorResponse('Missing or invalid credentials (UNAUTHORIZED)'),
+        Forbidden: errorResponse('Not allowed for this user (FORBIDDEN)'),
+        NotFound: errorResponse('Not found (NOT_FOUND)'),
+        Conflict: errorResponse('Conflicts with existing data (CONFLICT or INVALID_TRANSITION)'),
+        RateLimited: errorResponse('Too many requests (RATE_LIMITED)'),
+        InternalError: errorResponse('Server error (INTERNAL_ERROR)'),
+      },
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'Session token from /api/auth/login or an API token',
+        },
+        n8nSignature: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'x-n8n-signature',
+          description: 'sha256=<HMAC-SHA256 of "<x-n8n-timestamp>.<raw body>" with N8N_WEBHOOK_SECRET>',
+        },
+      },
+    },
+  };
+}
+
+let cachedDocument: ReturnType<typeof buildOpenApiDocument> | null = null;
+
+// The document only changes with the code, so it is built once
+export function openApiDocument() {
+  cachedDocument = cachedDocument || buildOpenApiDocument();
+  return cachedDocument;
+}
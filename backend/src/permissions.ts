@@ -0,0 +1,40 @@
+import { PostStatus, UserRole } from '@prisma/client';
+import type { PublicUser } from './users';
+
+// Editors and admins can publish; authors can only work on drafts
+export function canPublish(user: Pick<PublicUser, 'role'>): boolean {
+  return user.role === UserRole.ADMIN || user.role === UserRole.EDITOR;
+}
+
+// Statuses an author may put their own post in; everything else needs a reviewer
+const AUTHOR_STATUSES: PostStatus[] = [PostStatus.DRAFT, PostStatus.IN_REVIEW];
+
+// Editors and admins can edit any post; authors only their own drafts,
+// including drafts sent back with requested changes
+export function canEditPost(
+  user: Pick<PublicUser, 'id' | 'role'>,
+  post: { authorId: string | null; status: PostStatus }
+): boolean {
+  if (canPublish(user)) {
+    return true;
+  }
+
+  return (
+    post.authorId === user.id &&
+    (post.status === PostStatus.DRAFT || post.status === PostStatus.CHANGES_REQUESTED)
+  );
+}
+
+// Whether the user may move a post to the given status
+export function canSetStatus(user: Pick<PublicUser, 'role'>, status: PostStatus): boolean {
+  return canPublish(user) || AUTHOR_STATUSES.includes(status);
+}
+
+// Approving, rejecting and archiving is left to editors and admins
+export function canReview(user: Pick<PublicUser, 'role'>): boolean {
+  return canPublish(user);
+}
+
+export function canManageUsers(user: Pick<PublicUser, 'role'>): boolean {
+  return user.role === UserRole.ADMIN;
+}
@@ -0,0 +1,64 @@
+import { EventEmitter } from 'events';
+import { PrismaClient } from '@prisma/client';
+import { SourcesService, SourceFetchResult, SourceWithTags } from './sources';
+import { logger } from './logger';
+
+export interface SourcePollerOptions {
+  intervalMs?: number | undefined;
+}
+
+// Checks for sources whose next fetch is due and imports their new entries
+// as drafts. Emits 'fetched' with the source and the result of each fetch.
+export class SourcePoller extends EventEmitter {
+  private sourcesService: SourcesService;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private intervalMs: number;
+
+  constructor(prisma: PrismaClient, options: SourcePollerOptions = {}) {
+    super();
+    this.sourcesService = new SourcesService(prisma);
+    this.intervalMs = options.intervalMs || 60 * 1000;
+  }
+
+  start() {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => {
+        logger.error('Error running source poller', { error });
+      });
+    }, this.intervalMs);
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Sources are fetched one at a time; a tick that starts while the
+  // previous one is still fetching does nothing
+  async tick(now: Date = new Date()): Promise<Array<{ source: SourceWithTags; result: SourceFetchResult }>> {
+    if (this.running) {
+      return [];
+    }
+
+    this.running = true;
+    try {
+      const results = [];
+      for (const source of await this.sourcesService.getDueSources(now)) {
+        const result = await this.sourcesService.fetchSource(source);
+        this.emit('fetched', source, result);
+        results.push({ source, result });
+      }
+      return results;
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,282 @@
+import path from 'path';
+import AdmZip from 'adm-zip';
+import { PrismaClient, PostStatus } from '@prisma/client';
+import { CreatePostData, PostsService, PostWithTags, UpdatePostData } from './posts';
+import { RevisionActor } from './revisions';
+import { canTransition } from './workflow';
+import {
+  DOCUMENT_CONTENT_FIELDS,
+  PostDocument,
+  PostFileError,
+  parsePostDocument,
+  parseStaticPost,
+  postToDocument,
+  serializePostDocument,
+} from './post-files';
+import { ApiError } from './errors';
+
+// Limits for uploaded archives
+const MAX_ARCHIVE_FILES = 1000;
+const MAX_ARCHIVE_BYTES = 50 * 1024 * 1024;
+
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown'];
+const HTML_EXTENSIONS = ['.html', '.htm'];
+
+export interface PostFile {
+  name: string;
+  content: string;
+}
+
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'conflict' | 'invalid';
+
+export interface ImportItem {
+  file: string;
+  slug: string | null;
+  action: ImportAction;
+  reason: string | null;
+  warnings: string[];
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  counts: Record<ImportAction, number>;
+  items: ImportItem[];
+}
+
+export interface ImportOptions {
+  dryRun?: boolean | undefined;
+  // Overwrite posts that were changed after the file was exported
+  force?: boolean | undefined;
+}
+
+export class ArchiveError extends ApiError {
+  constructor(message: string) {
+    super(message, 400);
+    this.name = 'ArchiveError';
+  }
+}
+
+// Markdown and HTML files are imported; anything else in an archive is ignored
+export function isPostFile(name: string): boolean {
+  const extension = path.extname(name).toLowerCase();
+  const base = path.basename(name);
+  return !base.startsWith('.') && [...MARKDOWN_EXTENSIONS, ...HTML_EXTENSIONS].includes(extension);
+}
+
+// File names come from slugs, which are not guaranteed to be path-safe
+export function postFileName(slug: string): string {
+  return `${slug.replace(/[^a-zA-Z0-9._-]+/g, '-')}.md`;
+}
+
+export function readZip(buffer: Buffer): PostFile[] {
+  let entries: AdmZip.IZipEntry[];
+  try {
+    entries = new AdmZip(buffer).getEntries();
+  } catch {
+    throw new ArchiveError('Not a valid zip archive');
+  }
+
+  const files = entries.filter(entry => !entry.isDirectory && !entry.entryName.startsWith('__MACOSX/') && isPostFile(entry.entryName));
+  if (files.length > MAX_ARCHIVE_FILES) {
+    throw new ArchiveError(`Archive has more than ${MAX_ARCHIVE_FILES} post files`);
+  }
+
+  const totalSize = files.reduce((total, entry) => total + entry.header.size, 0);
+  if (totalSize > MAX_ARCHIVE_BYTES) {
+    throw new ArchiveError(`Archive expands to more than ${MAX_ARCHIVE_BYTES} bytes`);
+  }
+
+  return files.map(entry => ({ name: entry.entryName, content: entry.getData().toString('utf8') }));
+}
+
+export function parsePostFile(file: PostFile): PostDocument {
+  return HTML_EXTENSIONS.includes(path.extname(file.name).toLowerCase())
+    ? parseStaticPost(file.content, file.name)
+    : parsePostDocument(file.content, file.name);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return Array.isArray(a) && Array.isArray(b) ? a.join('\n') === b.join('\n') : a === b;
+}
+
+// Export and import of posts as Markdown files with YAML front matter.
+// Imports are matched to existing posts by slug.
+export class PostArchiveService {
+  private postsService: PostsService;
+
+  constructor(private prisma: PrismaClient) {
+    this.postsService = new PostsService(prisma);
+  }
+
+  async exportFiles(): Promise<PostFile[]> {
+    const posts = await this.postsService.getAllPosts();
+
+    return posts.map(post => ({
+      name: postFileName(post.slug),
+      content: serializePostDocument(postToDocument(post)),
+    }));
+  }
+
+  async exportZip(): Promise<Buffer> {
+    const zip = new AdmZip();
+    for (const file of await this.exportFiles()) {
+      zip.addFile(file.name, Buffer.from(file.content, 'utf8'));
+    }
+    return zip.toBuffer();
+  }
+
+  // Compare every file with the post of the same slug and, unless this is a
+  // dry run, create or update it. Conflicting and invalid files are skipped.
+  async importFiles(files: PostFile[], actor: RevisionActor, options: ImportOptions = {}): Promise<ImportReport> {
+    const parsed = files.map(file => {
+      try {
+        return { file, document: parsePostFile(file), error: null };
+      } catch (error) {
+        if (!(error instanceof PostFileError)) {
+          throw error;
+        }
+        return { file, document: null, error: error.message };
+      }
+    });
+
+    const slugCounts = new Map<string, number>();
+    for (const { document } of parsed) {
+      if (document) {
+        slugCounts.set(document.slug, (slugCounts.get(document.slug) || 0) + 1);
+      }
+    }
+
+    const items: ImportItem[] = [];
+    for (const { file, document, error } of parsed) {
+      if (!document) {
+        items.push({ file: file.name, slug: null, action: 'invalid', reason: error, warnings: [] });
+        continue;
+      }
+
+      if (slugCounts.get(document.slug)! > 1) {
+        items.push({ file: file.name, slug: document.slug, action: 'conflict', reason: 'Another file in the import has the same slug', warnings: [] });
+        continue;
+      }
+
+      items.push(await this.importDocument(file.name, document, actor, options));
+    }
+
+    const counts: Record<ImportAction, number> = { create: 0, update: 0, unchanged: 0, conflict: 0, invalid: 0 };
+    for (const item of items) {
+      counts[item.action]++;
+    }
+
+    return { dryRun: Boolean(options.dryRun), counts, items };
+  }
+
+  private async importDocument(
+    fileName: string,
+    document: PostDocument,
+    actor: RevisionActor,
+    options: ImportOptions
+  ): Promise<ImportItem> {
+    const item: ImportItem = { file: fileName, slug: document.slug, action: 'create', reason: null, warnings: [] };
+    const existing = await this.postsService.getPostBySlug(document.slug);
+    const authorId = await this.resolveAuthor(document, item);
+
+    if (!existing) {
+      if (!options.dryRun) {
+        await this.postsService.createPost(this.postData(document, authorId), actor);
+      }
+      return item;
+    }
+
+    const status = document.status || existing.status;
+    if (!canTransition(existing.status, status)) {
+      return { ...item, action: 'conflict', reason: `Invalid status transition from ${existing.status} to ${status}` };
+    }
+
+    if (!this.hasChanges(existing, document, authorId)) {
+      return { ...item, action: 'unchanged' };
+    }
+
+    // The file was exported before the post's last edit; importing it would lose that edit
+    if (document.updatedAt && existing.updatedAt > document.updatedAt && !options.force) {
+      return {
+        ...item,
+        action: 'conflict',
+        reason: `Post was changed at ${existing.updatedAt.toISOString()}, after this file was exported`,
+      };
+    }
+
+    if (!options.dryRun) {
+      await this.postsService.updatePost(existing.id, this.updateData(existing, document, authorId), actor);
+    }
+    return { ...item, action: 'update' };
+  }
+
+  // The author is looked up by name or email; unknown authors are left unset
+  private async resolveAuthor(document: PostDocument, item: ImportItem): Promise<string | undefined> {
+    if (!document.author) {
+      return undefined;
+    }
+
+    const user = await this.prisma.user.findFirst({
+      where: { OR: [{ name: document.author }, { email: document.author }] },
+      select: { id: true },
+    });
+
+    if (!user) {
+      item.warnings.push(`No user named "${document.author}"; the author is not set`);
+      return undefined;
+    }
+    return user.id;
+  }
+
+  private hasChanges(existing: PostWithTags, document: PostDocument, authorId: string | undefined): boolean {
+    const current = postToDocument(existing);
+
+    return (
+      DOCUMENT_CONTENT_FIELDS.some(field => !sameValue(current[field], document[field])) ||
+      (document.status !== null && document.status !== existing.status) ||
+      (document.publishedAt !== null && document.publishedAt.getTime() !== existing.publishedAt.getTime()) ||
+      (authorId !== undefined && authorId !== existing.authorId)
+    );
+  }
+
+  private postData(document: PostDocument, authorId: string | undefined): CreatePostData {
+    return {
+      title: document.title,
+      slug: document.slug,
+      contentMarkdown: document.body,
+      tags: document.tags,
+      status: document.status || PostStatus.DRAFT,
+      ...(document.summary ? { summary: document.summary } : {}),
+      ...(document.sourceUrl ? { sourceUrl: document.sourceUrl } : {}),
+      ...(document.imageUrl ? { imageUrl: document.imageUrl } : {}),
+      ...(document.metaTitle ? { metaTitle: document.metaTitle } : {}),
+      ...(document.metaDescription ? { metaDescription: document.metaDescription } : {}),
+      ...(document.canonicalUrl ? { canonicalUrl: document.canonicalUrl } : {}),
+      ...(document.ogImageUrl ? { ogImageUrl: document.ogImageUrl } : {}),
+      ...(document.publishedAt ? { publishedAt: document.publishedAt } : {}),
+      ...(authorId ? { authorId } : {}),
+    };
+  }
+
+  // Content fields missing from the file are cleared; status, publish date
+  // and author are kept unless the file sets them. An unchanged imageUrl is
+  // left alone so the post keeps its media image.
+  private updateData(existing: PostWithTags, document: PostDocument, authorId: string | undefined): UpdatePostData {
+    return {
+      title: document.title,
+      summary: document.summary || '',
+      contentMarkdown: document.body,
+      contentHtml: '',
+      tags: document.tags,
+      sourceUrl: document.sourceUrl || '',
+      ...(document.imageUrl !== existing.imageUrl ? { imageUrl: document.imageUrl || '' } : {}),
+      metaTitle: document.metaTitle || '',
+      metaDescription: document.metaDescription || '',
+      canonicalUrl: document.canonicalUrl || '',
+      ogImageUrl: document.ogImageUrl || '',
+      ...(document.status ? { status: document.status } : {}),
+      ...(document.publishedAt ? { publishedAt: document.publishedAt } : {}),
+      ...(authorId ? { authorId } : {}),
+    };
+  }
+}
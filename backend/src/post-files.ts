@@ -0,0 +1,218 @@
+import path from 'path';
+import { PostStatus } from '@prisma/client';
+import { parseDocument } from 'htmlparser2';
+import { findAll, findOne, getAttributeValue, getInnerHTML, textContent } from 'domutils';
+import TurndownService from 'turndown';
+import YAML from 'yaml';
+import { z } from 'zod';
+import { DEFAULT_AUTHOR, PostWithTags } from './posts';
+import { isValidSlug, slugSchema } from './slugs';
+
+type HtmlElement = NonNullable<ReturnType<typeof findOne>>;
+
+// Suffix of the <title> of the hand-written pages in blog-posts/
+const STATIC_TITLE_SUFFIX = / - Teacher AI Academy Blog$/;
+
+// A post as a Markdown file: YAML front matter plus a Markdown body
+export interface PostDocument {
+  title: string;
+  slug: string;
+  summary: string | null;
+  tags: string[];
+  status: PostStatus | null;
+  publishedAt: Date | null;
+  updatedAt: Date | null;
+  author: string | null;
+  sourceUrl: string | null;
+  imageUrl: string | null;
+  metaTitle: string | null;
+  metaDescription: string | null;
+  canonicalUrl: string | null;
+  ogImageUrl: string | null;
+  body: string;
+}
+
+// Fields compared to decide whether an import changes a post
+export const DOCUMENT_CONTENT_FIELDS = [
+  'title',
+  'summary',
+  'tags',
+  'sourceUrl',
+  'imageUrl',
+  'metaTitle',
+  'metaDescription',
+  'canonicalUrl',
+  'ogImageUrl',
+  'body',
+] as const;
+
+const optionalText = z.string().nullish().transform(value => value?.trim() || null);
+const optionalUrl = z.string().url().nullish().or(z.literal('')).transform(value => value || null);
+
+const frontMatterSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required'),
+  slug: slugSchema.optional(),
+  summary: optionalText,
+  tags: z.array(z.coerce.string()).nullish().transform(tags => tags || []),
+  status: z.nativeEnum(PostStatus).nullish().transform(status => status || null),
+  publishedAt: z.coerce.date().nullish().transform(date => date || null),
+  updatedAt: z.coerce.date().nullish().transform(date => date || null),
+  author: optionalText,
+  sourceUrl: optionalUrl,
+  imageUrl: optionalUrl,
+  metaTitle: z.string().max(120).nullish().transform(value => value || null),
+  metaDescription: z.string().max(320).nullish().transform(value => value || null),
+  canonicalUrl: optionalUrl,
+  ogImageUrl: optionalUrl,
+});
+
+export class PostFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PostFileError';
+  }
+}
+
+const turndown = new TurndownService({
+  headingStyle: 'atx',
+  codeBlockStyle: 'fenced',
+  bulletListMarker: '-',
+  emDelimiter: '_',
+});
+
+export function htmlToMarkdown(html: string): string {
+  return turndown.turndown(html).trim();
+}
+
+// Posts created from HTML (n8n, feeds) have no Markdown; convert their HTML
+export function postToDocument(post: PostWithTags): PostDocument {
+  return {
+    title: post.title,
+    slug: post.slug,
+    summary: post.summary || null,
+    tags: post.tags,
+    status: post.status,
+    publishedAt: post.publishedAt,
+    updatedAt: post.updatedAt,
+    author: post.authorId ? post.author : null,
+    sourceUrl: post.sourceUrl || null,
+    imageUrl: post.imageUrl || null,
+    metaTitle: post.metaTitle || null,
+    metaDescription: post.metaDescription || null,
+    canonicalUrl: post.canonicalUrl || null,
+    ogImageUrl: post.ogImageUrl || null,
+    body: (post.contentMarkdown || htmlToMarkdown(post.contentHtml || '')).trim(),
+  };
+}
+
+// Empty fields are left out of the front matter
+export function serializePostDocument(document: PostDocument): string {
+  const { body, ...fields } = document;
+  const frontMatter: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === null) {
+      continue;
+    }
+    frontMatter[key] = value instanceof Date ? value.toISOString() : value;
+  }
+
+  return `---\n${YAML.stringify(frontMatter, { lineWidth: 0 })}---\n\n${body}\n`;
+}
+
+function slugFromFileName(fileName: string): string {
+  const slug = path.basename(fileName, path.extname(fileName));
+  if (!isValidSlug(slug)) {
+    throw new PostFileError(`File name "${fileName}" does not make a valid slug`);
+  }
+  return slug;
+}
+
+// Parse a Markdown file; the slug defaults to the file name
+export function parsePostDocument(text: string, fileName: string): PostDocument {
+  const match = text.replace(/^\uFEFF/, '').match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)([\s\S]*)$/);
+  if (!match) {
+    throw new PostFileError('Missing YAML front matter');
+  }
+
+  let data: unknown;
+  try {
+    data = YAML.parse(match[1]!) ?? {};
+  } catch (error) {
+    throw new PostFileError(`Invalid YAML front matter: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const parsed = frontMatterSchema.safeParse(data);
+  if (!parsed.success) {
+    const issue = parsed.error.errors[0]!;
+    throw new PostFileError(`Invalid front matter field ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+  }
+
+  return {
+    ...parsed.data,
+    slug: parsed.data.slug || slugFromFileName(fileName),
+    body: match[2]!.trim(),
+  };
+}
+
+function hasClass(element: HtmlElement, name: string): boolean {
+  return (element.attribs['class'] || '').split(/\s+/).includes(name);
+}
+
+function byClass(root: HtmlElement[], name: string): HtmlElement | null {
+  return findOne(element => hasClass(element, name), root, true);
+}
+
+function metaContent(root: HtmlElement[], name: string): string | null {
+  const meta = findOne(element => element.name === 'meta' && element.attribs['name'] === name, root, true);
+  return (meta && getAttributeValue(meta, 'content')?.trim()) || null;
+}
+
+function text(element: HtmlElement | null): string {
+  return element ? textContent(element).replace(/\s+/g, ' ').trim() : '';
+}
+
+// Dates like "December 10, 2024" are read as that day in UTC
+function parseDisplayDate(value: string): Date | null {
+  const date = new Date(value);
+  return isNaN(date.getTime())
+    ? null
+    : new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+}
+
+// Convert a hand-written page from blog-posts/ into a published post
+export function parseStaticPost(html: string, fileName: string): PostDocument {
+  const root = parseDocument(html).children.filter((node): node is HtmlElement => 'attribs' in node);
+  const article = findOne(element => element.name === 'article' && hasClass(element, 'post-content'), root, true);
+  const body = article && byClass([article], 'post-body');
+
+  if (!article || !body) {
+    throw new PostFileError('Not a blog post page: no <article class="post-content"> with a post body');
+  }
+
+  const pageTitle = text(findOne(element => element.name === 'title', root, true)).replace(STATIC_TITLE_SUFFIX, '');
+  const title = text(byClass([article], 'post-title')) || pageTitle;
+  if (!title) {
+    throw new PostFileError('Page has no title');
+  }
+
+  const author = metaContent(root, 'author');
+
+  return {
+    title,
+    slug: slugFromFileName(fileName),
+    summary: text(byClass([article], 'post-excerpt')) || metaContent(root, 'description'),
+    tags: findAll(element => hasClass(element, 'post-category'), [article]).map(text).filter(Boolean),
+    status: PostStatus.PUBLISHED,
+    publishedAt: parseDisplayDate(text(byClass([article], 'post-date'))),
+    updatedAt: null,
+    author: author && author !== DEFAULT_AUTHOR ? author : null,
+    sourceUrl: null,
+    imageUrl: null,
+    metaTitle: null,
+    metaDescription: null,
+    canonicalUrl: null,
+    ogImageUrl: null,
+    body: htmlToMarkdown(getInnerHTML(body)),
+  };
+}
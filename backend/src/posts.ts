@@ -1,5 +1,32 @@
-import { PrismaClient, Post, PostStatus } from '@prisma/client';
+import { PrismaClient, Media, MediaVariant, Post, PostStatus, PostStatusTransition } from '@prisma/client';
 import { marked } from 'marked';
+import { SearchService, SearchResults } from './search';
+import { PostWithTagRelations, postTagsInclude, tagNames, tagsCreateInput, normalizeTag } from './tags';
+import { RevisionsService, RevisionActor } from './revisions';
+import { RelatedPostsService } from './related';
+import { ViewRange } from './analytics';
+import { sanitizeContent } from './sanitize';
+import { responseCache } from './cache';
+import { MediaError, PostImage, toPostImage } from './media';
+import { mediaStorage } from './storage';
+import { assertTransition, defaultStatusFor, InvalidTransitionError } from './workflow';
+import { isValidSlug, slugify } from './slugs';
+import { BadRequestError } from './errors';
+
+// Byline shown for posts without an author account, e.g. from n8n
+export const DEFAULT_AUTHOR = 'Teacher AI Academy';
+
+// Relations loaded with every post
+const postInclude = {
+  ...postTagsInclude,
+  author: { select: { id: true, name: true } },
+  imageMedia: { include: { variants: true } },
+};
+
+type PostWithRelations = PostWithTagRelations & {
+  author: { id: string; name: string } | null;
+  imageMedia: (Media & { variants: MediaVariant[] }) | null;
+};
 
 export interface CreatePostData {
   title: string;
@@ -8,9 +35,14 @@ export interface CreatePostData {
   contentMarkdown?: string;
   contentHtml?: string;
   imageUrl?: string;
+  imageMediaId?: string | null;
   tags?: string[];
   sourceUrl?: string;
-  author?: string;
+  metaTitle?: string;
+  metaDescription?: string;
+  canonicalUrl?: string;
+  ogImageUrl?: string;
+  authorId?: string;
   publishedAt?: Date;
   status?: PostStatus;
 }
@@ -22,15 +54,22 @@ export interface UpdatePostData {
   contentMarkdown?: string;
   contentHtml?: string;
   imageUrl?: string;
+  imageMediaId?: string | null;
   tags?: string[];
   sourceUrl?: string;
-  author?: string;
+  metaTitle?: string;
+  metaDescription?: string;
+  canonicalUrl?: string;
+  ogImageUrl?: string;
+  authorId?: string;
   publishedAt?: Date;
   status?: PostStatus;
 }
 
-export interface PostWithTags extends Omit<Post, 'tags'> {
+export interface PostWithTags extends Omit<Post, 'legacyTags' | 'legacyAuthor'> {
   tags: string[];
+  author: string;
+  image: PostImage | null;
 }
 
 export interface PaginatedPosts {
@@ -40,62 +79,179 @@ export interface PaginatedPosts {
   hasMore: boolean;
 }
 
+// A post without its content, e.g. for links to other posts
+export type PostSummary = Pick<PostWithTags, 'id' | 'slug' | 'title' | 'summary' | 'tags' | 'author' | 'image' | 'publishedAt' | 'updatedAt'>;
+
+export interface RelatedPost extends PostWithTags {
+  score: number;
+}
+
+export interface PopularPost extends PostWithTags {
+  views: number;
+}
+
+export function toPostSummary(post: PostWithTags): PostSummary {
+  const { id, slug, title, summary, tags, author, image, publishedAt, updatedAt } = post;
+  return { id, slug, title, summary, tags, author, image, publishedAt, updatedAt };
+}
+
+export interface PostWithSchedule extends PostWithTags {
+  scheduled: boolean;
+  publishesInSeconds: number | null;
+}
+
+// When a published post went live: its publish time, or its last approval
+// if that came later. Posts published before transitions were recorded
+// have no approval and went live at their publish time.
+export function wentLiveAt(publishedAt: Date, approvedAt: Date | null): Date {
+  return approvedAt && approvedAt > publishedAt ? approvedAt : publishedAt;
+}
+
 export class PostsService {
-  constructor(private prisma: PrismaClient) {}
+  private search: SearchService;
+  private revisions: RevisionsService;
+  private related: RelatedPostsService;
+
+  constructor(private prisma: PrismaClient) {
+    this.search = new SearchService(prisma);
+    this.revisions = new RevisionsService(prisma);
+    this.related = new RelatedPostsService(prisma);
+  }
+
+  // Helper to convert Post with its relations to PostWithTags
+  private toPostWithTags(post: PostWithRelations): PostWithTags {
+    const { legacyTags: _legacyTags, legacyAuthor: _legacyAuthor, author, imageMedia, ...rest } = post;
+
+    return {
+      ...rest,
+      tags: tagNames(post),
+      author: author?.name ?? DEFAULT_AUTHOR,
+      image: imageMedia ? toPostImage(imageMedia) : null,
+    };
+  }
+
+  // A media image also sets imageUrl, so feeds and metadata keep working;
+  // setting imageUrl on its own unlinks the media
+  private async imageFields(data: CreatePostData | UpdatePostData): Promise<{ imageUrl?: string | null; imageMediaId?: string | null }> {
+    if (data.imageMediaId) {
+      const media = await this.prisma.media.findUnique({
+        where: { id: data.imageMediaId },
+        select: { id: true, storageKey: true },
+      });
+
+      if (!media) {
+        throw new MediaError(`Media ${data.imageMediaId} not found`);
+      }
+      return { imageMediaId: media.id, imageUrl: mediaStorage.url(media.storageKey) };
+    }
 
-  // Helper to convert tags JSON string to array
-  private parseTags(tagsJson: string): string[] {
-    try {
-      return JSON.parse(tagsJson);
-    } catch {
-      return [];
+    if (data.imageMediaId === null) {
+      return { imageMediaId: null, imageUrl: data.imageUrl ?? null };
     }
+
+    if (data.imageUrl !== undefined) {
+      return { imageMediaId: null, imageUrl: data.imageUrl };
+    }
+
+    return {};
+  }
+
+  // Where clause for posts that are live on the public site
+  private visibleWhere(now: Date = new Date()) {
+    return {
+      status: PostStatus.PUBLISHED,
+      publishedAt: { lte: now },
+    };
   }
 
-  // Helper to convert tags array to JSON string
-  private stringifyTags(tags: string[]): string {
-    return JSON.stringify(tags);
+  // A published post with a future publishedAt is scheduled, not live
+  isScheduled(post: Pick<Post, 'status' | 'publishedAt'>, now: Date = new Date()): boolean {
+    return post.status === PostStatus.PUBLISHED && post.publishedAt > now;
   }
 
-  // Helper to convert Post to PostWithTags
-  private toPostWithTags(post: Post): PostWithTags {
+  // Add the scheduled flag and countdown used by the admin views
+  withSchedule(post: PostWithTags, now: Date = new Date()): PostWithSchedule {
+    const scheduled = this.isScheduled(post, now);
+
     return {
       ...post,
-      tags: this.parseTags(post.tags),
+      scheduled,
+      publishesInSeconds: scheduled
+        ? Math.ceil((post.publishedAt.getTime() - now.getTime()) / 1000)
+        : null,
     };
   }
 
   // Generate slug from title
   generateSlug(title: string): string {
-    return title
-      .toLowerCase()
-      .replace(/[^a-z0-9\s-]/g, '')
-      .replace(/\s+/g, '-')
-      .replace(/-+/g, '-')
-      .trim();
+    return slugify(title);
   }
 
-  // Convert markdown to HTML if needed
+  // The given slug, or one made from the title
+  private slugFor(data: CreatePostData): string {
+    const slug = data.slug || this.generateSlug(data.title);
+    if (!isValidSlug(slug)) {
+      throw new BadRequestError(`Cannot use "${slug}" as a slug; set a slug of lowercase letters, digits and dashes`);
+    }
+    return slug;
+  }
+
+  // Convert markdown to HTML if needed; all HTML is sanitized before it is stored
   private processContent(data: CreatePostData | UpdatePostData): { contentMarkdown?: string; contentHtml?: string } {
     const result: { contentMarkdown?: string; contentHtml?: string } = {};
 
     if (data.contentMarkdown) {
       result.contentMarkdown = data.contentMarkdown;
       if (!data.contentHtml) {
-        result.contentHtml = marked(data.contentMarkdown);
+        result.contentHtml = sanitizeContent(marked(data.contentMarkdown) as string);
       }
     }
 
     if (data.contentHtml) {
-      result.contentHtml = data.contentHtml;
+      result.contentHtml = sanitizeContent(data.contentHtml);
     }
 
     return result;
   }
 
-  async createPost(data: CreatePostData): Promise<PostWithTags> {
-    const slug = data.slug || this.generateSlug(data.title);
+  // Log a status change; fromStatus is null for newly created posts
+  private async recordTransition(
+    postId: string,
+    fromStatus: PostStatus | null,
+    toStatus: PostStatus,
+    actor: RevisionActor,
+    comment?: string
+  ): Promise<void> {
+    if (fromStatus === toStatus) {
+      return;
+    }
+
+    await this.prisma.postStatusTransition.create({
+      data: {
+        postId,
+        fromStatus,
+        toStatus,
+        comment: comment ?? null,
+        source: actor.source,
+        actor: actor.name,
+        actorId: actor.userId,
+      },
+    });
+  }
+
+  private async getStatus(id: string): Promise<PostStatus | null> {
+    const post = await this.prisma.post.findUnique({
+      where: { id },
+      select: { status: true },
+    });
+
+    return post?.status ?? null;
+  }
+
+  async createPost(data: CreatePostData, actor: RevisionActor): Promise<PostWithTags> {
+    const slug = this.slugFor(data);
     const content = this.processContent(data);
+    const image = await this.imageFields(data);
 
     const post = await this.prisma.post.create({
       data: {
@@ -104,28 +260,50 @@ export class PostsService {
         summary: data.summary,
         contentMarkdown: content.contentMarkdown || '',
         contentHtml: content.contentHtml,
-        imageUrl: data.imageUrl,
-        tags: this.stringifyTags(data.tags || []),
+        ...image,
+        tags: { create: tagsCreateInput(data.tags || []) },
         sourceUrl: data.sourceUrl,
-        author: data.author || 'Teacher AI Academy',
+        metaTitle: data.metaTitle,
+        metaDescription: data.metaDescription,
+        canonicalUrl: data.canonicalUrl,
+        ogImageUrl: data.ogImageUrl,
+        authorId: data.authorId,
         publishedAt: data.publishedAt || new Date(),
-        status: data.status || PostStatus.PUBLISHED,
+        status: data.status || defaultStatusFor(actor.source),
       },
+      include: postInclude,
     });
 
-    return this.toPostWithTags(post);
+    const result = this.toPostWithTags(post);
+    await this.search.indexPost(result);
+    await this.related.updatePost(result.id);
+    responseCache.invalidate();
+    await this.revisions.recordRevision(result, actor);
+    await this.recordTransition(result.id, null, result.status, actor);
+
+    return result;
   }
 
-  async updatePost(id: string, data: UpdatePostData): Promise<PostWithTags> {
+  async updatePost(id: string, data: UpdatePostData, actor: RevisionActor): Promise<PostWithTags> {
     const content = this.processContent(data);
+    const { tags, ...fields } = data;
+    const fromStatus = await this.getStatus(id);
+
+    if (fromStatus && data.status) {
+      assertTransition(fromStatus, data.status);
+    }
     
     const updateData: any = {
-      ...data,
+      ...fields,
       ...content,
+      ...await this.imageFields(data),
     };
 
-    if (data.tags) {
-      updateData.tags = this.stringifyTags(data.tags);
+    if (tags) {
+      updateData.tags = {
+        deleteMany: {},
+        create: tagsCreateInput(tags),
+      };
     }
 
     if (data.slug) {
@@ -135,20 +313,129 @@ export class PostsService {
     const post = await this.prisma.post.update({
       where: { id },
       data: updateData,
+      include: postInclude,
+    });
+
+    const result = this.toPostWithTags(post);
+    await this.search.indexPost(result);
+    await this.related.updatePost(result.id);
+    responseCache.invalidate();
+    await this.revisions.recordRevision(result, actor);
+    await this.recordTransition(result.id, fromStatus, result.status, actor);
+
+    return result;
+  }
+
+  // Restore an old revision as it was (its HTML re-sanitized), recorded as a new revision
+  async restoreRevision(id: string, revisionId: string, actor: RevisionActor): Promise<PostWithTags | null> {
+    const revision = await this.revisions.getRevision(id, revisionId);
+
+    const fromStatus = await this.getStatus(id);
+
+    if (!revision || !fromStatus) {
+      return null;
+    }
+
+    assertTransition(fromStatus, revision.status);
+
+    // The author and image may have been deleted since the revision was taken
+    const author = revision.authorId
+      ? await this.prisma.user.findUnique({ where: { id: revision.authorId } })
+      : null;
+    const imageMedia = revision.imageMediaId
+      ? await this.prisma.media.findUnique({ where: { id: revision.imageMediaId }, select: { id: true } })
+      : null;
+
+    const post = await this.prisma.post.update({
+      where: { id },
+      data: {
+        title: revision.title,
+        slug: revision.slug,
+        summary: revision.summary,
+        contentMarkdown: revision.contentMarkdown,
+        contentHtml: revision.contentHtml && sanitizeContent(revision.contentHtml),
+        imageUrl: revision.imageUrl,
+        imageMediaId: imageMedia?.id ?? null,
+        tags: {
+          deleteMany: {},
+          create: tagsCreateInput(revision.tags),
+        },
+        sourceUrl: revision.sourceUrl,
+        metaTitle: revision.metaTitle,
+        metaDescription: revision.metaDescription,
+        canonicalUrl: revision.canonicalUrl,
+        ogImageUrl: revision.ogImageUrl,
+        authorId: author?.id ?? null,
+        publishedAt: revision.publishedAt,
+        status: revision.status,
+      },
+      include: postInclude,
+    });
+
+    const result = this.toPostWithTags(post);
+    await this.search.indexPost(result);
+    await this.related.updatePost(result.id);
+    responseCache.invalidate();
+    await this.revisions.recordRevision(result, actor, revision.id);
+    await this.recordTransition(result.id, fromStatus, result.status, actor);
+
+    return result;
+  }
+
+  // Move a post through the editorial workflow, e.g. approve or reject it
+  async transitionPost(
+    id: string,
+    toStatus: PostStatus,
+    actor: RevisionActor,
+    comment?: string
+  ): Promise<PostWithTags | null> {
+    const fromStatus = await this.getStatus(id);
+
+    if (!fromStatus) {
+      return null;
+    }
+
+    if (fromStatus === toStatus) {
+      throw new InvalidTransitionError(fromStatus, toStatus);
+    }
+    assertTransition(fromStatus, toStatus);
+
+    const post = await this.prisma.post.update({
+      where: { id },
+      data: { status: toStatus },
+      include: postInclude,
     });
 
-    return this.toPostWithTags(post);
+    const result = this.toPostWithTags(post);
+    await this.search.indexPost(result);
+    responseCache.invalidate();
+    await this.revisions.recordRevision(result, actor);
+    await this.recordTransition(result.id, fromStatus, toStatus, actor, comment);
+
+    return result;
+  }
+
+  // Status history of a post, oldest first
+  async getTransitions(id: string): Promise<PostStatusTransition[]> {
+    return this.prisma.postStatusTransition.findMany({
+      where: { postId: id },
+      orderBy: { createdAt: 'asc' },
+    });
   }
 
   async deletePost(id: string): Promise<void> {
     await this.prisma.post.delete({
       where: { id },
     });
+
+    await this.search.removePost(id);
+    responseCache.invalidate();
   }
 
   async getPostById(id: string): Promise<PostWithTags | null> {
     const post = await this.prisma.post.findUnique({
       where: { id },
+      include: postInclude,
     });
 
     return post ? this.toPostWithTags(post) : null;
@@ -157,6 +444,17 @@ export class PostsService {
   async getPostBySlug(slug: string): Promise<PostWithTags | null> {
     const post = await this.prisma.post.findUnique({
       where: { slug },
+      include: postInclude,
+    });
+
+    return post ? this.toPostWithTags(post) : null;
+  }
+
+  // Get a post by slug only if it is live on the public site
+  async getPublicPostBySlug(slug: string): Promise<PostWithTags | null> {
+    const post = await this.prisma.post.findFirst({
+      where: { slug, ...this.visibleWhere() },
+      include: postInclude,
     });
 
     return post ? this.toPostWithTags(post) : null;
@@ -164,6 +462,8 @@ export class PostsService {
 
   async getPosts(options: {
     status?: PostStatus;
+    scheduled?: boolean | undefined;
+    tag?: string | undefined;
     page?: number;
     limit?: number;
     orderBy?: 'publishedAt' | 'updatedAt' | 'title';
@@ -171,6 +471,8 @@ export class PostsService {
   } = {}): Promise<PaginatedPosts> {
     const {
       status = PostStatus.PUBLISHED,
+      scheduled,
+      tag,
       page = 1,
       limit = 10,
       orderBy = 'publishedAt',
@@ -180,7 +482,17 @@ export class PostsService {
     const maxLimit = Math.min(limit, 50);
     const skip = (page - 1) * maxLimit;
 
-    const where = status ? { status } : {};
+    const where: Record<string, unknown> = status ? { status } : {};
+
+    // scheduled: true -> only future posts, false -> only posts already live
+    if (scheduled !== undefined) {
+      where.status = PostStatus.PUBLISHED;
+      where.publishedAt = scheduled ? { gt: new Date() } : { lte: new Date() };
+    }
+
+    if (tag) {
+      where.tags = { some: { tag: { slug: normalizeTag(tag) } } };
+    }
 
     const [posts, total] = await Promise.all([
       this.prisma.post.findMany({
@@ -188,6 +500,7 @@ export class PostsService {
         skip,
         take: maxLimit,
         orderBy: { [orderBy]: order },
+        include: postInclude,
       }),
       this.prisma.post.count({ where }),
     ]);
@@ -200,19 +513,152 @@ export class PostsService {
     };
   }
 
-  async getPublishedPostsForRSS(limit: number = 50): Promise<PostWithTags[]> {
+  async getPublishedPostsForRSS(limit: number = 50, tag?: string | undefined): Promise<PostWithTags[]> {
     const posts = await this.prisma.post.findMany({
-      where: { status: PostStatus.PUBLISHED },
+      where: {
+        ...this.visibleWhere(),
+        ...(tag ? { tags: { some: { tag: { slug: normalizeTag(tag) } } } } : {}),
+      },
       orderBy: { publishedAt: 'desc' },
       take: limit,
+      include: postInclude,
     });
 
     return posts.map(post => this.toPostWithTags(post));
   }
 
-  async upsertPostBySlug(data: CreatePostData): Promise<PostWithTags> {
-    const slug = data.slug || this.generateSlug(data.title);
+  // Every post that is live on the public site, newest first
+  async getLivePosts(): Promise<PostWithTags[]> {
+    const posts = await this.prisma.post.findMany({
+      where: this.visibleWhere(),
+      orderBy: { publishedAt: 'desc' },
+      include: postInclude,
+    });
+
+    return posts.map(post => this.toPostWithTags(post));
+  }
+
+  // Every post in any status, oldest first, e.g. for a full export
+  async getAllPosts(): Promise<PostWithTags[]> {
+    const posts = await this.prisma.post.findMany({
+      orderBy: { publishedAt: 'asc' },
+      include: postInclude,
+    });
+
+    return posts.map(post => this.toPostWithTags(post));
+  }
+
+  // The live posts published just before and just after the given one
+  async getAdjacentPosts(post: Pick<Post, 'id' | 'publishedAt'>): Promise<{
+    previous: PostWithTags | null;
+    next: PostWithTags | null;
+  }> {
+    const visible = this.visibleWhere();
+
+    const [previous, next] = await Promise.all([
+      this.prisma.post.findFirst({
+        where: { ...visible, id: { not: post.id }, publishedAt: { lt: post.publishedAt } },
+        orderBy: { publishedAt: 'desc' },
+        include: postInclude,
+      }),
+      this.prisma.post.findFirst({
+        where: { ...visible, id: { not: post.id }, publishedAt: { gt: post.publishedAt, lte: visible.publishedAt.lte } },
+        orderBy: { publishedAt: 'asc' },
+        include: postInclude,
+      }),
+    ]);
+
+    return {
+      previous: previous ? this.toPostWithTags(previous) : null,
+      next: next ? this.toPostWithTags(next) : null,
+    };
+  }
+
+  // Live posts most similar to the given one by tags, title and summary,
+  // read from the similarities stored on every write
+  async getRelatedPosts(post: Pick<Post, 'id'>, limit: number = 3): Promise<RelatedPost[]> {
+    const similarities = await this.prisma.postSimilarity.findMany({
+      where: { postId: post.id, relatedPost: this.visibleWhere() },
+      orderBy: [{ score: 'desc' }, { relatedPost: { publishedAt: 'desc' } }],
+      take: limit,
+      include: { relatedPost: { include: postInclude } },
+    });
+
+    return similarities.map(similarity => ({
+      ...this.toPostWithTags(similarity.relatedPost),
+      score: similarity.score,
+    }));
+  }
+
+  // Live posts with the most views in the range, most viewed first
+  async getPopularPosts(range: ViewRange, limit: number = 5): Promise<PopularPost[]> {
+    const totals = await this.prisma.postViewDaily.groupBy({
+      by: ['postId'],
+      where: { day: { gte: range.from, lte: range.to }, post: this.visibleWhere() },
+      _sum: { views: true },
+      orderBy: { _sum: { views: 'desc' } },
+      take: limit,
+    });
+
+    const posts = await this.prisma.post.findMany({
+      where: { id: { in: totals.map(total => total.postId) } },
+      include: postInclude,
+    });
+    const postsById = new Map(posts.map(post => [post.id, post]));
+
+    return totals
+      .filter(total => postsById.has(total.postId))
+      .map(total => ({
+        ...this.toPostWithTags(postsById.get(total.postId)!),
+        views: total._sum.views ?? 0,
+      }));
+  }
+
+  // Posts that went live within (from, to]: scheduled posts whose publish
+  // time fell in the window, and posts approved in it after their publish
+  // time had passed. Used by the scheduler and the newsletter digest.
+  async getPostsGoingLive(from: Date, to: Date): Promise<PostWithTags[]> {
+    const posts = await this.prisma.post.findMany({
+      where: {
+        status: PostStatus.PUBLISHED,
+        publishedAt: { lte: to },
+        OR: [
+          { publishedAt: { gt: from } },
+          { transitions: { some: { toStatus: PostStatus.PUBLISHED, createdAt: { gt: from, lte: to } } } },
+        ],
+      },
+      include: {
+        ...postInclude,
+        transitions: {
+          where: { toStatus: PostStatus.PUBLISHED },
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+          select: { createdAt: true },
+        },
+      },
+    });
+
+    return posts
+      .map(({ transitions, ...post }) => ({ post, liveAt: wentLiveAt(post.publishedAt, transitions[0]?.createdAt ?? null) }))
+      .filter(({ liveAt }) => liveAt > from && liveAt <= to)
+      .sort((a, b) => a.liveAt.getTime() - b.liveAt.getTime())
+      .map(({ post }) => this.toPostWithTags(post));
+  }
+
+  async upsertPostBySlug(data: CreatePostData, actor: RevisionActor): Promise<PostWithTags> {
+    const slug = this.slugFor(data);
     const content = this.processContent(data);
+    const image = await this.imageFields(data);
+    const status = data.status || defaultStatusFor(actor.source);
+
+    const existing = await this.prisma.post.findUnique({
+      where: { slug },
+      select: { status: true },
+    });
+
+    if (existing) {
+      assertTransition(existing.status, status);
+    }
 
     const post = await this.prisma.post.upsert({
       where: { slug },
@@ -221,12 +667,18 @@ export class PostsService {
         summary: data.summary,
         contentMarkdown: content.contentMarkdown || '',
         contentHtml: content.contentHtml,
-        imageUrl: data.imageUrl,
-        tags: this.stringifyTags(data.tags || []),
+        ...image,
+        tags: {
+          deleteMany: {},
+          create: tagsCreateInput(data.tags || []),
+        },
         sourceUrl: data.sourceUrl,
-        author: data.author || 'Teacher AI Academy',
+        metaTitle: data.metaTitle,
+        metaDescription: data.metaDescription,
+        canonicalUrl: data.canonicalUrl,
+        ogImageUrl: data.ogImageUrl,
         publishedAt: data.publishedAt || new Date(),
-        status: data.status || PostStatus.PUBLISHED,
+        status,
       },
       create: {
         title: data.title,
@@ -234,15 +686,61 @@ export class PostsService {
         summary: data.summary,
         contentMarkdown: content.contentMarkdown || '',
         contentHtml: content.contentHtml,
-        imageUrl: data.imageUrl,
-        tags: this.stringifyTags(data.tags || []),
+        ...image,
+        tags: { create: tagsCreateInput(data.tags || []) },
         sourceUrl: data.sourceUrl,
-        author: data.author || 'Teacher AI Academy',
+        metaTitle: data.metaTitle,
+        metaDescription: data.metaDescription,
+        canonicalUrl: data.canonicalUrl,
+        ogImageUrl: data.ogImageUrl,
+        authorId: data.authorId,
         publishedAt: data.publishedAt || new Date(),
-        status: data.status || PostStatus.PUBLISHED,
+        status,
       },
+      include: postInclude,
     });
 
-    return this.toPostWithTags(post);
+    const result = this.toPostWithTags(post);
+    await this.search.indexPost(result);
+    await this.related.updatePost(result.id);
+    responseCache.invalidate();
+    await this.revisions.recordRevision(result, actor);
+    await this.recordTransition(result.id, existing?.status ?? null, result.status, actor);
+
+    return result;
+  }
+
+  // Full-text search over live posts
+  async searchPosts(query: string, options: { page?: number; limit?: number } = {}): Promise<SearchResults> {
+    const { page = 1, limit = 10 } = options;
+    const maxLimit = Math.min(limit, 50);
+    const skip = (page - 1) * maxLimit;
+
+    const matches = await this.search.search(query);
+
+    // Drop scheduled posts using the same visibility rule as the public routes
+    const posts = await this.prisma.post.findMany({
+      where: {
+        id: { in: matches.map(match => match.postId) },
+        ...this.visibleWhere(),
+      },
+      include: postInclude,
+    });
+    const postsById = new Map(posts.map(post => [post.id, post]));
+    const ranked = matches.filter(match => postsById.has(match.postId));
+
+    const items = ranked.slice(skip, skip + maxLimit).map(match => ({
+      ...this.toPostWithTags(postsById.get(match.postId)!),
+      score: match.score,
+      highlights: match.highlights,
+    }));
+
+    return {
+      query,
+      items,
+      page,
+      total: ranked.length,
+      hasMore: skip + maxLimit < ranked.length,
+    };
   }
 }
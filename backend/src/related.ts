@@ -0,0 +1,188 @@
+import { PrismaClient } from '@prisma/client';
+import { normalizeTag, postTagsInclude, tagNames } from './tags';
+
+// The parts of a post that decide what it is related to
+export interface SimilarityDocument {
+  id: string;
+  title: string;
+  summary: string | null;
+  tags: string[];
+}
+
+export interface SimilarityScore {
+  postId: string;
+  score: number;
+}
+
+type TermVector = Map<string, number>;
+
+// Shared tags and similar wording count equally
+const TAG_WEIGHT = 0.5;
+const TEXT_WEIGHT = 0.5;
+
+// Pairs scoring below this are not stored
+const MIN_SCORE = 0.05;
+
+// Common words that say nothing about what a post is about
+const STOP_WORDS = new Set([
+  'a', 'about', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'for', 'from', 'how',
+  'in', 'into', 'is', 'it', 'its', 'more', 'of', 'on', 'or', 'our', 'that', 'the', 'their',
+  'this', 'to', 'use', 'using', 'what', 'when', 'with', 'you', 'your',
+]);
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+// Title words count twice: a title says more about a post than its summary
+function documentTerms(doc: SimilarityDocument): string[] {
+  const title = tokenize(doc.title);
+  return [...title, ...title, ...tokenize(doc.summary || '')];
+}
+
+// TF-IDF vector of the title and summary of each document, normalized to length 1
+export function tfIdfVectors(docs: SimilarityDocument[]): Map<string, TermVector> {
+  const terms = new Map(docs.map(doc => [doc.id, documentTerms(doc)]));
+
+  const documentFrequency = new Map<string, number>();
+  for (const words of terms.values()) {
+    for (const word of new Set(words)) {
+      documentFrequency.set(word, (documentFrequency.get(word) || 0) + 1);
+    }
+  }
+
+  const vectors = new Map<string, TermVector>();
+  for (const [id, words] of terms) {
+    const vector: TermVector = new Map();
+    for (const word of words) {
+      vector.set(word, (vector.get(word) || 0) + 1);
+    }
+
+    let length = 0;
+    for (const [word, count] of vector) {
+      const idf = Math.log((1 + docs.length) / (1 + documentFrequency.get(word)!)) + 1;
+      const weight = (count / words.length) * idf;
+      vector.set(word, weight);
+      length += weight * weight;
+    }
+
+    length = Math.sqrt(length);
+    for (const [word, weight] of vector) {
+      vector.set(word, weight / length);
+    }
+    vectors.set(id, vector);
+  }
+
+  return vectors;
+}
+
+export function cosineSimilarity(a: TermVector, b: TermVector): number {
+  const [smaller, larger] = a.size < b.size ? [a, b] : [b, a];
+
+  let dot = 0;
+  for (const [word, weight] of smaller) {
+    dot += weight * (larger.get(word) || 0);
+  }
+  return dot;
+}
+
+// Jaccard overlap of two tag lists, ignoring case and punctuation
+export function tagOverlap(a: string[], b: string[]): number {
+  const tagsA = new Set(a.map(normalizeTag));
+  const tagsB = new Set(b.map(normalizeTag));
+  if (tagsA.size === 0 || tagsB.size === 0) {
+    return 0;
+  }
+
+  const shared = [...tagsA].filter(tag => tagsB.has(tag)).length;
+  return shared / (tagsA.size + tagsB.size - shared);
+}
+
+// Scores of every other document against the target, best first
+export function similarityScores(
+  target: SimilarityDocument,
+  docs: SimilarityDocument[],
+  vectors: Map<string, TermVector> = tfIdfVectors(docs)
+): SimilarityScore[] {
+  const targetVector = vectors.get(target.id) || new Map();
+
+  return docs
+    .filter(doc => doc.id !== target.id)
+    .map(doc => ({
+      postId: doc.id,
+      score: TAG_WEIGHT * tagOverlap(target.tags, doc.tags) +
+        TEXT_WEIGHT * cosineSimilarity(targetVector, vectors.get(doc.id) || new Map()),
+    }))
+    .filter(similarity => similarity.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score);
+}
+
+// Stored similarities between posts, read as related posts. Scores are
+// computed over all posts regardless of status, so a scheduled post has
+// its related posts ready when it goes live; readers filter on visibility.
+export class RelatedPostsService {
+  constructor(private prisma: PrismaClient) {}
+
+  private async loadDocuments(): Promise<SimilarityDocument[]> {
+    const posts = await this.prisma.post.findMany({
+      select: { id: true, title: true, summary: true, ...postTagsInclude },
+    });
+
+    return posts.map(post => ({ id: post.id, title: post.title, summary: post.summary, tags: tagNames(post) }));
+  }
+
+  private pairs(postId: string, scores: SimilarityScore[]) {
+    return scores.flatMap(({ postId: relatedPostId, score }) => [
+      this.prisma.postSimilarity.create({ data: { postId, relatedPostId, score } }),
+      this.prisma.postSimilarity.create({ data: { postId: relatedPostId, relatedPostId: postId, score } }),
+    ]);
+  }
+
+  // Recompute the similarities of one post after it was written. Other
+  // pairs keep the document frequencies they were computed with until
+  // the next rebuild, which is close enough for ranking.
+  async updatePost(postId: string): Promise<void> {
+    const docs = await this.loadDocuments();
+    const target = docs.find(doc => doc.id === postId);
+    if (!target) {
+      return;
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.postSimilarity.deleteMany({
+        where: { OR: [{ postId }, { relatedPostId: postId }] },
+      }),
+      ...this.pairs(postId, similarityScores(target, docs)),
+    ]);
+  }
+
+  async rebuild(): Promise<void> {
+    const docs = await this.loadDocuments();
+    const vectors = tfIdfVectors(docs);
+
+    // Each pair is scored once, from its first post
+    const writes = docs.flatMap((doc, index) =>
+      this.pairs(doc.id, similarityScores(doc, docs.slice(index), vectors))
+    );
+
+    await this.prisma.$transaction([
+      this.prisma.postSimilarity.deleteMany({}),
+      ...writes,
+    ]);
+  }
+
+  // Compute the similarities of existing posts on first start
+  async ensureSimilarities(): Promise<void> {
+    const [stored, posts] = await Promise.all([
+      this.prisma.postSimilarity.count(),
+      this.prisma.post.count(),
+    ]);
+
+    if (stored === 0 && posts > 1) {
+      await this.rebuild();
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { ResourceCategory } from '@prisma/client';
+import { PublicResource, RESOURCE_CATEGORIES } from './resources';
+import { escapeHtml } from './templates';
+
+const ARROW_PATH = '<path d="M8.59 16.59L13.17 12 8.59 7.41 10 6l6 6-6 6-1.41-1.41z"/>';
+
+function toolCardHtml(resource: PublicResource): string {
+  return `<div class="tool-card">
+                        <div class="tool-icon">${escapeHtml(resource.icon || '🤖')}</div>
+                        <h3 class="tool-name">${escapeHtml(resource.name)}</h3>
+                        <p class="tool-description">${escapeHtml(resource.description)}</p>
+                        <a href="${escapeHtml(resource.url)}" class="tool-link" target="_blank">
+                            ${escapeHtml(resource.linkLabel || `Try ${resource.name}`)}
+                            <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
+                                ${ARROW_PATH}
+                            </svg>
+                        </a>
+                    </div>`;
+}
+
+function resourceItemHtml(resource: PublicResource): string {
+  return `<li class="resource-item">
+                            <div class="resource-name">${escapeHtml(resource.name)}</div>
+                            <div class="resource-description">${escapeHtml(resource.description)}</div>
+                            <a href="${escapeHtml(resource.url)}" class="resource-link" target="_blank">
+                                ${escapeHtml(resource.linkLabel || `Visit ${resource.name}`)}
+                                <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor">
+                                    ${ARROW_PATH}
+                                </svg>
+                            </a>
+                        </li>`;
+}
+
+// Tool cards of the featured grid in resources.html, in position order
+export function featuredToolsHtml(resources: PublicResource[]): string {
+  return resources
+    .filter(resource => resource.featured)
+    .sort((a, b) => a.position - b.position)
+    .map(toolCardHtml)
+    .join('\n\n                    ');
+}
+
+// One block per category that has resources; featured tools are only in the grid
+export function resourceCategoriesHtml(resources: PublicResource[]): string {
+  return (Object.keys(RESOURCE_CATEGORIES) as ResourceCategory[])
+    .map(category => {
+      const items = resources.filter(resource => resource.category === category && !resource.featured);
+      if (items.length === 0) {
+        return '';
+      }
+
+      const { label, icon } = RESOURCE_CATEGORIES[category];
+      return `<div class="category">
+                    <h3>${icon} ${escapeHtml(label)}</h3>
+                    <ul class="resource-list">
+                        ${items.map(resourceItemHtml).join('\n                        ')}
+                    </ul>
+                </div>`;
+    })
+    .filter(Boolean)
+    .join('\n\n                ');
+}
@@ -0,0 +1,327 @@
+import {
+  PrismaClient,
+  Prisma,
+  Resource,
+  ResourceCategory,
+  GradeBand,
+  PricingTier,
+  PrivacyRating,
+  LinkStatus,
+} from '@prisma/client';
+import { responseCache } from './cache';
+import { checkLink, LinkCheckResult } from './link-checker';
+import { ApiError } from './errors';
+
+// Headings of the categories on resources.html, in page order
+export const RESOURCE_CATEGORIES: Record<ResourceCategory, { label: string; icon: string }> = {
+  LESSON_PLANNING: { label: 'Lesson Planning Tools', icon: '📋' },
+  ASSESSMENT: { label: 'Assessment & Grading', icon: '📝' },
+  CONTENT_CREATION: { label: 'Content Creation', icon: '🎨' },
+  LANGUAGE: { label: 'Language & Communication', icon: '🗣️' },
+  DATA_ANALYTICS: { label: 'Data & Analytics', icon: '📊' },
+  PROFESSIONAL_DEVELOPMENT: { label: 'Professional Development', icon: '🎓' },
+};
+
+// Link check results are only shown to admins
+export type PublicResource = Omit<
+  Resource,
+  'published' | 'linkStatus' | 'linkStatusCode' | 'linkFinalUrl' | 'linkError' | 'linkCheckedAt' | 'createdAt'
+>;
+
+function toPublicResource(resource: Resource): PublicResource {
+  const {
+    published: _published,
+    linkStatus: _linkStatus,
+    linkStatusCode: _linkStatusCode,
+    linkFinalUrl: _linkFinalUrl,
+    linkError: _linkError,
+    linkCheckedAt: _linkCheckedAt,
+    createdAt: _createdAt,
+    ...fields
+  } = resource;
+  return fields;
+}
+
+export interface ResourceFilter {
+  category?: ResourceCategory | undefined;
+  gradeBand?: GradeBand | undefined;
+  pricingTier?: PricingTier | undefined;
+  privacyRating?: PrivacyRating | undefined;
+  featured?: boolean | undefined;
+  q?: string | undefined;
+}
+
+export interface AdminResourceFilter extends ResourceFilter {
+  published?: boolean | undefined;
+  linkStatus?: LinkStatus | undefined;
+}
+
+export interface PaginatedResources<T> {
+  items: T[];
+  page: number;
+  total: number;
+  hasMore: boolean;
+}
+
+export interface ResourceCategorySummary {
+  category: ResourceCategory;
+  label: string;
+  icon: string;
+  count: number;
+}
+
+export interface CreateResourceData {
+  name: string;
+  description: string;
+  url: string;
+  linkLabel?: string | null;
+  icon?: string | null;
+  category: ResourceCategory;
+  gradeBand?: GradeBand;
+  pricingTier: PricingTier;
+  privacyRating?: PrivacyRating;
+  featured?: boolean;
+  published?: boolean;
+  position?: number;
+}
+
+export type UpdateResourceData = Partial<CreateResourceData>;
+
+export interface LinkReport {
+  counts: Record<LinkStatus, number>;
+  lastCheckedAt: Date | null;
+  items: Resource[];
+}
+
+export class ResourceError extends ApiError {
+  constructor(message: string, statusCode: number = 400) {
+    super(message, statusCode);
+    this.name = 'ResourceError';
+  }
+}
+
+// Only one full link check runs at a time per process
+let checkingAll = false;
+
+function resourceWhere(filter: AdminResourceFilter): Prisma.ResourceWhereInput {
+  const where: Prisma.ResourceWhereInput = {};
+
+  if (filter.category) {
+    where.category = filter.category;
+  }
+  // Resources for all grades match every grade band
+  if (filter.gradeBand) {
+    where.gradeBand = { in: [filter.gradeBand, GradeBand.ALL] };
+  }
+  if (filter.pricingTier) {
+    where.pricingTier = filter.pricingTier;
+  }
+  if (filter.privacyRating) {
+    where.privacyRating = filter.privacyRating;
+  }
+  if (filter.featured !== undefined) {
+    where.featured = filter.featured;
+  }
+  if (filter.published !== undefined) {
+    where.published = filter.published;
+  }
+  if (filter.linkStatus) {
+    where.linkStatus = filter.linkStatus;
+  }
+  if (filter.q) {
+    where.OR = [
+      { name: { contains: filter.q } },
+      { description: { contains: filter.q } },
+    ];
+  }
+
+  return where;
+}
+
+const resourceOrder: Prisma.ResourceOrderByWithRelationInput[] = [
+  { category: 'asc' },
+  { position: 'asc' },
+  { name: 'asc' },
+];
+
+export class ResourcesService {
+  private timeoutMs: number;
+
+  constructor(private prisma: PrismaClient) {
+    this.timeoutMs = parseInt(process.env.RESOURCE_LINK_CHECK_TIMEOUT_MS || '', 10) || 10000;
+  }
+
+  // Published resources for the public directory
+  async getResources(filter: ResourceFilter, options: { page?: number; limit?: number } = {}): Promise<PaginatedResources<PublicResource>> {
+    const page = Math.max(options.page || 1, 1);
+    const limit = options.limit || 50;
+    const where = resourceWhere({ ...filter, published: true });
+
+    const [resources, total] = await Promise.all([
+      this.prisma.resource.findMany({
+        where,
+        orderBy: resourceOrder,
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.resource.count({ where }),
+    ]);
+
+    return { items: resources.map(toPublicResource), page, total, hasMore: page * limit < total };
+  }
+
+  // Every published resource, for the static export of resources.html
+  async getPublishedResources(): Promise<PublicResource[]> {
+    const resources = await this.prisma.resource.findMany({
+      where: { published: true },
+      orderBy: resourceOrder,
+    });
+
+    return resources.map(toPublicResource);
+  }
+
+  // Categories in page order with their published resource counts
+  async getCategories(): Promise<ResourceCategorySummary[]> {
+    const counts = await this.prisma.resource.groupBy({
+      by: ['category'],
+      where: { published: true },
+      _count: { _all: true },
+    });
+
+    return (Object.keys(RESOURCE_CATEGORIES) as ResourceCategory[]).map(category => ({
+      category,
+      ...RESOURCE_CATEGORIES[category],
+      count: counts.find(row => row.category === category)?._count._all ?? 0,
+    }));
+  }
+
+  // All resources with their link status, for admins
+  async getAdminResources(filter: AdminResourceFilter, options: { page?: number; limit?: number } = {}): Promise<PaginatedResources<Resource>> {
+    const page = Math.max(options.page || 1, 1);
+    const limit = options.limit || 50;
+    const where = resourceWhere(filter);
+
+    const [items, total] = await Promise.all([
+      this.prisma.resource.findMany({
+        where,
+        orderBy: resourceOrder,
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.resource.count({ where }),
+    ]);
+
+    return { items, page, total, hasMore: page * limit < total };
+  }
+
+  async getResourceById(id: string): Promise<Resource | null> {
+    return this.prisma.resource.findUnique({ where: { id } });
+  }
+
+  async createResource(data: CreateResourceData): Promise<Resource> {
+    const resource = await this.prisma.resource.create({ data });
+
+    responseCache.invalidate();
+    return resource;
+  }
+
+  // A changed URL has not been checked yet
+  async updateResource(id: string, data: UpdateResourceData): Promise<Resource> {
+    const existing = await this.prisma.resource.findUnique({
+      where: { id },
+      select: { url: true },
+    });
+    const urlChanged = existing && data.url !== undefined && data.url !== existing.url;
+
+    const resource = await this.prisma.resource.update({
+      where: { id },
+      data: urlChanged
+        ? { ...data, linkStatus: LinkStatus.UNCHECKED, linkStatusCode: null, linkFinalUrl: null, linkError: null, linkCheckedAt: null }
+        : data,
+    });
+
+    responseCache.invalidate();
+    return resource;
+  }
+
+  async deleteResource(id: string): Promise<void> {
+    await this.prisma.resource.delete({
+      where: { id },
+    });
+
+    responseCache.invalidate();
+  }
+
+  // Resources never checked, or last checked before the given date
+  async getDueLinkChecks(checkedBefore: Date): Promise<Resource[]> {
+    return this.prisma.resource.findMany({
+      where: {
+        OR: [
+          { linkCheckedAt: null },
+          { linkCheckedAt: { lt: checkedBefore } },
+        ],
+      },
+      orderBy: { linkCheckedAt: 'asc' },
+    });
+  }
+
+  // Check a resource's URL now and store the result
+  async checkResourceLink(resource: Resource, now: Date = new Date()): Promise<{ resource: Resource; result: LinkCheckResult }> {
+    const result = await checkLink(resource.url, { timeoutMs: this.timeoutMs });
+
+    const updated = await this.prisma.resource.update({
+      where: { id: resource.id },
+      data: {
+        linkStatus: result.status,
+        linkStatusCode: result.statusCode,
+        linkFinalUrl: result.finalUrl,
+        linkError: result.error,
+        linkCheckedAt: now,
+      },
+    });
+
+    return { resource: updated, result };
+  }
+
+  // Check every resource now, one at a time
+  async checkAllLinks(now: Date = new Date()): Promise<LinkReport> {
+    if (checkingAll) {
+      throw new ResourceError('A link check is already running', 409);
+    }
+
+    checkingAll = true;
+    try {
+      for (const resource of await this.getDueLinkChecks(now)) {
+        await this.checkResourceLink(resource, now);
+      }
+    } finally {
+      checkingAll = false;
+    }
+
+    return this.getLinkReport();
+  }
+
+  // Counts by link status and the resources whose links need attention
+  async getLinkReport(): Promise<LinkReport> {
+    const [groups, items, latest] = await Promise.all([
+      this.prisma.resource.groupBy({
+        by: ['linkStatus'],
+        _count: { _all: true },
+      }),
+      this.prisma.resource.findMany({
+        where: { linkStatus: { in: [LinkStatus.BROKEN, LinkStatus.REDIRECTED] } },
+        orderBy: [{ linkStatus: 'asc' }, { name: 'asc' }],
+      }),
+      this.prisma.resource.aggregate({
+        _max: { linkCheckedAt: true },
+      }),
+    ]);
+
+    const counts: Record<LinkStatus, number> = { UNCHECKED: 0, OK: 0, REDIRECTED: 0, BROKEN: 0 };
+    for (const group of groups) {
+      counts[group.linkStatus] = group._count._all;
+    }
+
+    return { counts, lastCheckedAt: latest._max.linkCheckedAt, items };
+  }
+}
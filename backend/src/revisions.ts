@@ -0,0 +1,194 @@
+import { PrismaClient, PostRevision, RevisionSource } from '@prisma/client';
+import type { PostWithTags } from './posts';
+import type { PublicUser } from './users';
+
+export interface RevisionActor {
+  source: RevisionSource;
+  name: string;
+  userId: string | null;
+}
+
+export const WEBHOOK_ACTOR: RevisionActor = { source: RevisionSource.WEBHOOK, name: 'n8n', userId: null };
+
+// Actor for drafts imported from an external feed
+export function feedActor(source: { name: string }): RevisionActor {
+  return { source: RevisionSource.FEED, name: `feed:${source.name}`, userId: null };
+}
+
+// Actor for posts written by the import-posts command
+export const IMPORT_ACTOR: RevisionActor = { source: RevisionSource.IMPORT, name: 'import-posts', userId: null };
+
+// Actor for changes made by a signed-in user through the admin API
+export function userActor(user: Pick<PublicUser, 'id' | 'email'>): RevisionActor {
+  return { source: RevisionSource.ADMIN, name: user.email, userId: user.id };
+}
+
+export interface RevisionWithTags extends Omit<PostRevision, 'tags'> {
+  tags: string[];
+}
+
+export type RevisionSummary = Pick<
+  PostRevision,
+  'id' | 'revision' | 'title' | 'status' | 'source' | 'actor' | 'actorId' | 'restoredFromId' | 'createdAt'
+>;
+
+export interface FieldChange {
+  field: RevisionField;
+  from: unknown;
+  to: unknown;
+}
+
+export interface RevisionDiff {
+  from: RevisionSummary;
+  to: RevisionSummary;
+  changes: FieldChange[];
+}
+
+// Post fields captured in every revision, in display order
+export const REVISION_FIELDS = [
+  'title',
+  'slug',
+  'summary',
+  'contentMarkdown',
+  'contentHtml',
+  'imageUrl',
+  'imageMediaId',
+  'tags',
+  'sourceUrl',
+  'metaTitle',
+  'metaDescription',
+  'canonicalUrl',
+  'ogImageUrl',
+  'author',
+  'publishedAt',
+  'status',
+] as const;
+
+export type RevisionField = typeof REVISION_FIELDS[number];
+
+export class RevisionsService {
+  constructor(private prisma: PrismaClient) {}
+
+  private parseTags(tagsJson: string): string[] {
+    try {
+      return JSON.parse(tagsJson);
+    } catch {
+      return [];
+    }
+  }
+
+  private toRevisionWithTags(revision: PostRevision): RevisionWithTags {
+    return {
+      ...revision,
+      tags: this.parseTags(revision.tags),
+    };
+  }
+
+  private toSummary(revision: PostRevision | RevisionWithTags): RevisionSummary {
+    return {
+      id: revision.id,
+      revision: revision.revision,
+      title: revision.title,
+      status: revision.status,
+      source: revision.source,
+      actor: revision.actor,
+      actorId: revision.actorId,
+      restoredFromId: revision.restoredFromId,
+      createdAt: revision.createdAt,
+    };
+  }
+
+  // Snapshot the current state of a post as its next revision
+  async recordRevision(post: PostWithTags, actor: RevisionActor, restoredFromId?: string): Promise<RevisionWithTags> {
+    const latest = await this.prisma.postRevision.findFirst({
+      where: { postId: post.id },
+      orderBy: { revision: 'desc' },
+      select: { revision: true },
+    });
+
+    const revision = await this.prisma.postRevision.create({
+      data: {
+        postId: post.id,
+        revision: (latest?.revision ?? 0) + 1,
+        title: post.title,
+        slug: post.slug,
+        summary: post.summary,
+        contentMarkdown: post.contentMarkdown,
+        contentHtml: post.contentHtml,
+        imageUrl: post.imageUrl,
+        imageMediaId: post.imageMediaId,
+        tags: JSON.stringify(post.tags),
+        sourceUrl: post.sourceUrl,
+        metaTitle: post.metaTitle,
+        metaDescription: post.metaDescription,
+        canonicalUrl: post.canonicalUrl,
+        ogImageUrl: post.ogImageUrl,
+        author: post.author,
+        authorId: post.authorId,
+        publishedAt: post.publishedAt,
+        status: post.status,
+        source: actor.source,
+        actor: actor.name,
+        actorId: actor.userId,
+        restoredFromId: restoredFromId ?? null,
+      },
+    });
+
+    return this.toRevisionWithTags(revision);
+  }
+
+  // List revisions of a post, newest first, without their content
+  async getRevisions(postId: string): Promise<RevisionSummary[]> {
+    const revisions = await this.prisma.postRevision.findMany({
+      where: { postId },
+      orderBy: { revision: 'desc' },
+    });
+
+    return revisions.map(revision => this.toSummary(revision));
+  }
+
+  async getRevision(postId: string, revisionId: string): Promise<RevisionWithTags | null> {
+    const revision = await this.prisma.postRevision.findFirst({
+      where: { id: revisionId, postId },
+    });
+
+    return revision ? this.toRevisionWithTags(revision) : null;
+  }
+
+  // Field-level diff between two revisions of the same post
+  async diffRevisions(postId: string, fromId: string, toId: string): Promise<RevisionDiff | null> {
+    const [from, to] = await Promise.all([
+      this.getRevision(postId, fromId),
+      this.getRevision(postId, toId),
+    ]);
+
+    if (!from || !to) {
+      return null;
+    }
+
+    const changes: FieldChange[] = [];
+    for (const field of REVISION_FIELDS) {
+      if (!this.isEqual(from[field], to[field])) {
+        changes.push({ field, from: from[field], to: to[field] });
+      }
+    }
+
+    return {
+      from: this.toSummary(from),
+      to: this.toSummary(to),
+      changes,
+    };
+  }
+
+  private isEqual(a: unknown, b: unknown): boolean {
+    if (a instanceof Date && b instanceof Date) {
+      return a.getTime() === b.getTime();
+    }
+
+    if (Array.isArray(a) && Array.isArray(b)) {
+      return a.length === b.length && a.every((value, index) => value === b[index]);
+    }
+
+    return a === b;
+  }
+}
@@ -0,0 +1,93 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { UserRole } from '@prisma/client';
+import { AnalyticsService, ViewRange, parseRange } from '../analytics';
+import { requireAuth, requireRole, AuthenticatedRequest } from '../middleware/auth';
+import { adminRateLimit } from '../middleware/rateLimit';
+import { sendError } from '../middleware/errors';
+
+const router = Router();
+
+// ?window=30d, or ?from= and ?to= as YYYY-MM-DD; ?postId= limits the post report
+const reportQuerySchema = z.object({
+  window: z.string().optional(),
+  from: z.string().optional(),
+  to: z.string().optional(),
+  postId: z.string().optional(),
+});
+
+function parseQuery(query: AuthenticatedRequest['query']): { range: ViewRange; postId: string | undefined } {
+  const { postId, ...range } = reportQuerySchema.parse(query);
+  return { range: parseRange(range), postId };
+}
+
+function sendCsv(res: Response, name: string, range: ViewRange, csv: string) {
+  res.set('Content-Type', 'text/csv; charset=utf-8');
+  res.set('Content-Disposition', `attachment; filename="${name}-${range.from}-to-${range.to}.csv"`);
+  res.send(csv);
+}
+
+// Apply rate limiting, authentication and the editor role to all analytics routes
+router.use(adminRateLimit);
+router.use(requireAuth);
+router.use(requireRole(UserRole.ADMIN, UserRole.EDITOR));
+
+// Daily views per post, most viewed first
+router.get('/posts', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { range, postId } = parseQuery(req.query);
+
+    const analyticsService = new AnalyticsService(req.app.locals.prisma);
+    const report = await analyticsService.getPostViews(range, postId);
+
+    res.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching post views');
+  }
+});
+
+// Daily views per post as CSV (same query as the report)
+router.get('/posts/export', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { range, postId } = parseQuery(req.query);
+
+    const analyticsService = new AnalyticsService(req.app.locals.prisma);
+    sendCsv(res, 'post-views', range, await analyticsService.exportPostViewsCsv(range, postId));
+  } catch (error) {
+    sendError(req, res, error, 'Error exporting post views');
+  }
+});
+
+// Daily views per tag, most viewed first
+router.get('/tags', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { range } = parseQuery(req.query);
+
+    const analyticsService = new AnalyticsService(req.app.locals.prisma);
+    const report = await analyticsService.getTagViews(range);
+
+    res.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching tag views');
+  }
+});
+
+// Daily views per tag as CSV (same query as the report)
+router.get('/tags/export', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { range } = parseQuery(req.query);
+
+    const analyticsService = new AnalyticsService(req.app.locals.prisma);
+    sendCsv(res, 'tag-views', range, await analyticsService.exportTagViewsCsv(range));
+  } catch (error) {
+    sendError(req, res, error, 'Error exporting tag views');
+  }
+});
+
+export default router;
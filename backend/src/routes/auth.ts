@@ -0,0 +1,127 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { UsersService } from '../users';
+import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
+import { adminRateLimit, loginRateLimit } from '../middleware/rateLimit';
+import { sendError } from '../middleware/errors';
+import { UnauthorizedError, NotFoundError } from '../errors';
+
+const router = Router();
+
+// Validation schemas
+export const loginSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1, 'Password is required'),
+});
+
+export const createTokenSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  expiresAt: z.string().datetime().optional(),
+});
+
+// Log in with email and password and receive a session token
+router.post('/login', loginRateLimit, async (req: Request, res: Response) => {
+  try {
+    const { email, password } = loginSchema.parse(req.body);
+
+    const usersService = new UsersService(req.app.locals.prisma);
+    const result = await usersService.login(email, password);
+
+    if (!result) {
+      throw new UnauthorizedError('Invalid email or password');
+    }
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error logging in');
+  }
+});
+
+// Everything below requires a signed-in user
+router.use(adminRateLimit);
+router.use(requireAuth);
+
+// End the current session
+router.post('/logout', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const usersService = new UsersService(req.app.locals.prisma);
+    await usersService.logout(req.token!);
+
+    res.json({
+      success: true,
+      message: 'Logged out successfully',
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error logging out');
+  }
+});
+
+// Get the signed-in user
+router.get('/me', (req: AuthenticatedRequest, res: Response) => {
+  res.json({
+    success: true,
+    data: req.user,
+  });
+});
+
+// List the signed-in user's API tokens
+router.get('/tokens', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const usersService = new UsersService(req.app.locals.prisma);
+    const tokens = await usersService.getApiTokens(req.user!.id);
+
+    res.json({
+      success: true,
+      data: tokens,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching API tokens');
+  }
+});
+
+// Create an API token for scripts; the token is only shown once
+router.post('/tokens', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { name, expiresAt } = createTokenSchema.parse(req.body);
+
+    const usersService = new UsersService(req.app.locals.prisma);
+    const result = await usersService.createApiToken(
+      req.user!.id,
+      name,
+      expiresAt ? new Date(expiresAt) : undefined
+    );
+
+    res.status(201).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error creating API token');
+  }
+});
+
+// Revoke one of the signed-in user's API tokens
+router.delete('/tokens/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const usersService = new UsersService(req.app.locals.prisma);
+    const revoked = await usersService.revokeApiToken(req.user!.id, id);
+
+    if (!revoked) {
+      throw new NotFoundError('API token not found');
+    }
+
+    res.json({
+      success: true,
+      message: 'API token revoked successfully',
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error revoking API token');
+  }
+});
+
+export default router;
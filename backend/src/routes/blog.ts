@@ -0,0 +1,67 @@
+import { Router, Request, Response } from 'express';
+import { BlogRenderer, RenderedPage } from '../blog';
+import { publicRateLimit } from '../middleware/rateLimit';
+
+const router = Router();
+
+// Browsers and proxies may reuse pages for a few minutes; ETags are set by Express
+const PAGE_CACHE_CONTROL = 'public, max-age=300, stale-while-revalidate=60';
+const NOT_FOUND_CACHE_CONTROL = 'public, max-age=60';
+
+// Apply rate limiting
+router.use(publicRateLimit);
+
+export function sendPage(res: Response, page: RenderedPage) {
+  res.set('Cache-Control', PAGE_CACHE_CONTROL);
+  if (page.lastModified) {
+    res.set('Last-Modified', page.lastModified.toUTCString());
+  }
+  res.type('html').send(page.html);
+}
+
+export async function sendNotFound(res: Response, renderer: BlogRenderer) {
+  res.status(404);
+  res.set('Cache-Control', NOT_FOUND_CACHE_CONTROL);
+  res.type('html').send(await renderer.renderNotFoundPage());
+}
+
+// Blog listing page (?page=, ?tag=)
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const tag = req.query.tag as string | undefined;
+
+    const renderer = new BlogRenderer(req.app.locals.prisma);
+    const rendered = await renderer.renderListPage({ page, tag });
+
+    if (!rendered) {
+      return sendNotFound(res, renderer);
+    }
+
+    sendPage(res, rendered);
+  } catch (error) {
+    req.log.error('Error rendering blog page', { error });
+    res.status(500).type('text').send('Internal server error');
+  }
+});
+
+// Single post page; drafts and scheduled posts get the 404 page
+router.get('/:slug', async (req: Request, res: Response) => {
+  try {
+    const { slug } = req.params;
+
+    const renderer = new BlogRenderer(req.app.locals.prisma);
+    const rendered = await renderer.renderPostPage(slug);
+
+    if (!rendered) {
+      return sendNotFound(res, renderer);
+    }
+
+    sendPage(res, rendered);
+  } catch (error) {
+    req.log.error('Error rendering blog post', { error });
+    res.status(500).type('text').send('Internal server error');
+  }
+});
+
+export default router;
@@ -0,0 +1,179 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { CommentStatus, UserRole } from '@prisma/client';
+import { CommentsService } from '../comments';
+import { requireAuth, requireRole, AuthenticatedRequest } from '../middleware/auth';
+import { adminRateLimit } from '../middleware/rateLimit';
+import { sendError } from '../middleware/errors';
+import { NotFoundError } from '../errors';
+
+const router = Router();
+
+// Validation schemas
+const banSchema = z.object({
+  reason: z.string().max(300).optional(),
+});
+
+const statusSchema = z.nativeEnum(CommentStatus);
+
+// Apply rate limiting, authentication and the editor role to all moderation routes
+router.use(adminRateLimit);
+router.use(requireAuth);
+router.use(requireRole(UserRole.ADMIN, UserRole.EDITOR));
+
+// Moderation queue: pending comments, oldest first
+// (?status=SPAM|APPROVED|REJECTED for the others, ?postId= for one post)
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const status = statusSchema.parse(req.query.status || CommentStatus.PENDING);
+    const postId = req.query.postId as string | undefined;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const commentsService = new CommentsService(req.app.locals.prisma);
+    const result = await commentsService.getComments({ status, postId, page, limit });
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching comments');
+  }
+});
+
+// Email addresses that may no longer comment
+router.get('/banned-emails', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const commentsService = new CommentsService(req.app.locals.prisma);
+    const bannedEmails = await commentsService.getBannedEmails();
+
+    res.json({
+      success: true,
+      data: bannedEmails,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching banned emails');
+  }
+});
+
+// Lift a ban; earlier comments stay rejected
+router.delete('/banned-emails/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const commentsService = new CommentsService(req.app.locals.prisma);
+    await commentsService.unbanEmail(id);
+
+    res.json({
+      success: true,
+      message: 'Email address unbanned successfully',
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error unbanning email', {
+      notFound: 'Banned email not found',
+    });
+  }
+});
+
+// Get a single comment, including the author's email address
+router.get('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const commentsService = new CommentsService(req.app.locals.prisma);
+    const comment = await commentsService.getCommentById(id);
+
+    if (!comment) {
+      throw new NotFoundError('Comment not found');
+    }
+
+    res.json({
+      success: true,
+      data: comment,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching comment');
+  }
+});
+
+// Approve a comment so it is shown under the post
+router.post('/:id/approve', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const commentsService = new CommentsService(req.app.locals.prisma);
+    const comment = await commentsService.moderateComment(id, CommentStatus.APPROVED, req.user!);
+
+    res.json({
+      success: true,
+      data: comment,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error approving comment', {
+      notFound: 'Comment not found',
+    });
+  }
+});
+
+// Reject a comment; it stays hidden
+router.post('/:id/reject', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const commentsService = new CommentsService(req.app.locals.prisma);
+    const comment = await commentsService.moderateComment(id, CommentStatus.REJECTED, req.user!);
+
+    res.json({
+      success: true,
+      data: comment,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error rejecting comment', {
+      notFound: 'Comment not found',
+    });
+  }
+});
+
+// Ban the comment's email address and reject all of its waiting comments
+router.post('/:id/ban-email', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const validatedData = banSchema.parse(req.body);
+
+    const commentsService = new CommentsService(req.app.locals.prisma);
+    const result = await commentsService.banCommentAuthor(id, req.user!, validatedData.reason);
+
+    if (!result) {
+      throw new NotFoundError('Comment not found');
+    }
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error banning email');
+  }
+});
+
+// Delete a comment and its replies
+router.delete('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const commentsService = new CommentsService(req.app.locals.prisma);
+    await commentsService.deleteComment(id);
+
+    res.json({
+      success: true,
+      message: 'Comment deleted successfully',
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error deleting comment', {
+      notFound: 'Comment not found',
+    });
+  }
+});
+
+export default router;
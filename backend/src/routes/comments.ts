@@ -0,0 +1,78 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { CommentsService } from '../comments';
+import { commentRateLimit, commentEmailRateLimit } from '../middleware/rateLimit';
+import { sendError } from '../middleware/errors';
+import { NotFoundError } from '../errors';
+
+// Mounted under /api/posts/:slug/comments, after the public routes
+const router = Router({ mergeParams: true });
+
+// Form field that is hidden from readers; only bots fill it in
+const HONEYPOT_FIELD = 'website';
+
+// Validation schemas
+export const commentSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  email: z.string().trim().email().max(254),
+  body: z.string().trim().min(1, 'Comment is required').max(5000),
+  parentId: z.string().optional(),
+});
+
+const ACCEPTED_MESSAGE = 'Thank you! Your comment will appear once it has been approved.';
+
+// Approved comments of a published post, with replies nested under their parent
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { slug } = req.params;
+
+    const commentsService = new CommentsService(req.app.locals.prisma);
+    const thread = await commentsService.getThread(slug);
+
+    if (!thread) {
+      throw new NotFoundError('Post not found');
+    }
+
+    res.json({
+      success: true,
+      data: thread,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching comments');
+  }
+});
+
+// Submit a comment or a reply (parentId); it waits in the moderation queue
+router.post('/', commentRateLimit, commentEmailRateLimit, async (req: Request, res: Response) => {
+  try {
+    const { slug } = req.params;
+
+    // Bots get the same answer as everyone else, but nothing is stored
+    const honeypot = req.body?.[HONEYPOT_FIELD];
+    if (typeof honeypot === 'string' && honeypot.trim() !== '') {
+      return res.status(201).json({
+        success: true,
+        message: ACCEPTED_MESSAGE,
+      });
+    }
+
+    const validatedData = commentSchema.parse(req.body);
+
+    const commentsService = new CommentsService(req.app.locals.prisma);
+    await commentsService.createComment(slug, {
+      authorName: validatedData.name,
+      authorEmail: validatedData.email,
+      body: validatedData.body,
+      parentId: validatedData.parentId,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: ACCEPTED_MESSAGE,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error creating comment');
+  }
+});
+
+export default router;
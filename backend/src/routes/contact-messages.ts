@@ -0,0 +1,123 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { UserRole } from '@prisma/client';
+import { ContactService, ContactMessageFilter } from '../contact';
+import { requireAuth, requireRole, AuthenticatedRequest } from '../middleware/auth';
+import { adminRateLimit } from '../middleware/rateLimit';
+import { sendError } from '../middleware/errors';
+import { NotFoundError } from '../errors';
+
+const router = Router();
+
+// Validation schemas
+const updateMessageSchema = z.object({
+  handled: z.boolean(),
+});
+
+// ?handled=true|false and ?q= shared by the listing and the CSV export
+function parseFilter(query: AuthenticatedRequest['query']): ContactMessageFilter {
+  return {
+    handled: query.handled === 'true' ? true : query.handled === 'false' ? false : undefined,
+    q: typeof query.q === 'string' ? query.q.slice(0, 200) : undefined,
+  };
+}
+
+// Apply rate limiting, authentication and the editor role to all contact message routes
+router.use(adminRateLimit);
+router.use(requireAuth);
+router.use(requireRole(UserRole.ADMIN, UserRole.EDITOR));
+
+// List contact messages, newest first (?handled=, ?q= to search)
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const contactService = new ContactService(req.app.locals.prisma);
+    const result = await contactService.getMessages({ ...parseFilter(req.query), page, limit });
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching contact messages');
+  }
+});
+
+// Download the matching messages as CSV (same filters as the listing)
+router.get('/export', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const contactService = new ContactService(req.app.locals.prisma);
+    const csv = await contactService.exportCsv(parseFilter(req.query));
+    const date = new Date().toISOString().slice(0, 10);
+
+    res.set('Content-Type', 'text/csv; charset=utf-8');
+    res.set('Content-Disposition', `attachment; filename="contact-messages-${date}.csv"`);
+    res.send(csv);
+  } catch (error) {
+    sendError(req, res, error, 'Error exporting contact messages');
+  }
+});
+
+// Get a single contact message
+router.get('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const contactService = new ContactService(req.app.locals.prisma);
+    const message = await contactService.getMessageById(id);
+
+    if (!message) {
+      throw new NotFoundError('Contact message not found');
+    }
+
+    res.json({
+      success: true,
+      data: message,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching contact message');
+  }
+});
+
+// Mark a message as handled, or as not handled again
+router.put('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const validatedData = updateMessageSchema.parse(req.body);
+
+    const contactService = new ContactService(req.app.locals.prisma);
+    const message = await contactService.setHandled(id, validatedData.handled, req.user!);
+
+    res.json({
+      success: true,
+      data: message,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error updating contact message', {
+      notFound: 'Contact message not found',
+    });
+  }
+});
+
+// Delete a contact message
+router.delete('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const contactService = new ContactService(req.app.locals.prisma);
+    await contactService.deleteMessage(id);
+
+    res.json({
+      success: true,
+      message: 'Contact message deleted successfully',
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error deleting contact message', {
+      notFound: 'Contact message not found',
+    });
+  }
+});
+
+export default router;
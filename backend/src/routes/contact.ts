@@ -0,0 +1,48 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { ContactService } from '../contact';
+import { contactRateLimit } from '../middleware/rateLimit';
+import { sendError } from '../middleware/errors';
+
+const router = Router();
+
+// Form field that is hidden from readers; only bots fill it in
+const HONEYPOT_FIELD = 'website';
+
+// Validation schemas
+export const contactSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  email: z.string().trim().email().max(254),
+  subject: z.string().trim().min(1, 'Subject is required').max(200),
+  message: z.string().trim().min(1, 'Message is required').max(10000),
+});
+
+const ACCEPTED_MESSAGE = "Message sent successfully! We'll get back to you soon.";
+
+// Contact form on contact.html; accepts JSON or a plain form post
+router.post('/', contactRateLimit, async (req: Request, res: Response) => {
+  try {
+    // Bots get the same answer as everyone else, but nothing is stored
+    const honeypot = req.body?.[HONEYPOT_FIELD];
+    if (typeof honeypot === 'string' && honeypot.trim() !== '') {
+      return res.status(201).json({
+        success: true,
+        message: ACCEPTED_MESSAGE,
+      });
+    }
+
+    const validatedData = contactSchema.parse(req.body);
+
+    const contactService = new ContactService(req.app.locals.prisma);
+    await contactService.createMessage(validatedData);
+
+    res.status(201).json({
+      success: true,
+      message: ACCEPTED_MESSAGE,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error saving contact message');
+  }
+});
+
+export default router;
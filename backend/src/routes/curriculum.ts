@@ -0,0 +1,31 @@
+import { Router, Request, Response } from 'express';
+import { BlogRenderer } from '../blog';
+import { CurriculumRenderer } from '../curriculum';
+import { publicRateLimit } from '../middleware/rateLimit';
+import { sendNotFound, sendPage } from './blog';
+
+const router = Router();
+
+// Apply rate limiting
+router.use(publicRateLimit);
+
+// Module page; unpublished modules get the 404 page
+router.get('/:slug', async (req: Request, res: Response) => {
+  try {
+    const { slug } = req.params;
+
+    const renderer = new CurriculumRenderer(req.app.locals.prisma);
+    const rendered = await renderer.renderModulePage(slug);
+
+    if (!rendered) {
+      return sendNotFound(res, new BlogRenderer(req.app.locals.prisma));
+    }
+
+    sendPage(res, rendered);
+  } catch (error) {
+    req.log.error('Error rendering module page', { error });
+    res.status(500).type('text').send('Internal server error');
+  }
+});
+
+export default router;
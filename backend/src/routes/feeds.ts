@@ -0,0 +1,83 @@
+import { Router, Request, Response } from 'express';
+import { PostsService } from '../posts';
+import { apiFeedUrls, buildFeed, feedLinks, FeedFormat, FEED_CONTENT_TYPES, FEED_TITLE } from '../feeds';
+import { TagsService } from '../tags';
+import { cacheResponse, setLastModified } from '../middleware/cache';
+import { sendError } from '../middleware/errors';
+import { NotFoundError } from '../errors';
+
+const router = Router();
+
+// Feed readers poll often; the RSS channel asks for a 60 minute TTL, but
+// new posts should still show up within a few minutes
+export const FEED_CACHE_CONTROL = 'public, max-age=300';
+
+// Shared by /api/rss, /api/feed.atom and /api/feed.json (?limit=, ?tag=)
+export function feedHandler(format: FeedFormat) {
+  return async (req: Request, res: Response) => {
+    try {
+      const siteBaseUrl = process.env.SITE_BASE_URL || 'http://localhost:8080';
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
+      const tagSlug = req.query.tag as string | undefined;
+
+      // Per-topic feed when ?tag= is given
+      let tag = null;
+      if (tagSlug) {
+        const tagsService = new TagsService(req.app.locals.prisma);
+        tag = await tagsService.getTagBySlug(tagSlug);
+
+        if (!tag) {
+          throw new NotFoundError('Tag not found');
+        }
+      }
+
+      const postsService = new PostsService(req.app.locals.prisma);
+      const posts = await postsService.getPublishedPostsForRSS(limit, tag?.slug);
+
+      const body = buildFeed(format, posts, {
+        title: tag ? `${FEED_TITLE}: ${tag.name}` : FEED_TITLE,
+        feedUrl: apiFeedUrls(siteBaseUrl, tag?.slug)[format],
+        siteUrl: `${siteBaseUrl}/blog`,
+        postUrl: slug => `${siteBaseUrl}/blog/${slug}`,
+      });
+
+      setLastModified(res, posts.flatMap(post => [post.updatedAt, post.publishedAt]));
+      res.set('Content-Type', FEED_CONTENT_TYPES[format]);
+      res.send(body);
+    } catch (error) {
+      sendError(req, res, error, `Error generating ${format} feed`);
+    }
+  };
+}
+
+// Atom and JSON Feed versions of /api/rss
+router.get('/feed.atom', cacheResponse(FEED_CACHE_CONTROL), feedHandler('atom'));
+router.get('/feed.json', cacheResponse(FEED_CACHE_CONTROL), feedHandler('json'));
+
+// Autodiscovery data for the frontend: one entry per feed format
+router.get('/feeds', async (req: Request, res: Response) => {
+  try {
+    const siteBaseUrl = process.env.SITE_BASE_URL || 'http://localhost:8080';
+    const tagSlug = req.query.tag as string | undefined;
+
+    let title = FEED_TITLE;
+    if (tagSlug) {
+      const tagsService = new TagsService(req.app.locals.prisma);
+      const tag = await tagsService.getTagBySlug(tagSlug);
+
+      if (!tag) {
+        throw new NotFoundError('Tag not found');
+      }
+      title = `${FEED_TITLE}: ${tag.name}`;
+    }
+
+    res.json({
+      success: true,
+      data: feedLinks(apiFeedUrls(siteBaseUrl, tagSlug), title),
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error listing feeds');
+  }
+});
+
+export default router;
@@ -0,0 +1,32 @@
+import path from 'path';
+import { Router, Request, Response } from 'express';
+import { isValidKey, mediaStorage } from '../storage';
+import { sendError } from '../middleware/errors';
+import { NotFoundError } from '../errors';
+
+const router = Router();
+
+// Stored files never change: a new upload gets a new key
+const MEDIA_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+// Serve an uploaded image or one of its variants
+router.get('/:folder/:file', async (req: Request, res: Response) => {
+  try {
+    const key = `${req.params.folder}/${req.params.file}`;
+    const data = isValidKey(key) ? await mediaStorage.get(key) : null;
+
+    if (!data) {
+      throw new NotFoundError('Media not found');
+    }
+
+    res.set('Cache-Control', MEDIA_CACHE_CONTROL);
+    // Images are embedded by the static site, which runs on another origin
+    res.set('Cross-Origin-Resource-Policy', 'cross-origin');
+    res.type(path.extname(key));
+    res.send(data);
+  } catch (error) {
+    sendError(req, res, error, 'Error serving media');
+  }
+});
+
+export default router;
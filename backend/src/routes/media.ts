@@ -0,0 +1,153 @@
+import { Router, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { z } from 'zod';
+import { MediaService, MediaError, MAX_UPLOAD_BYTES } from '../media';
+import { canPublish } from '../permissions';
+import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
+import { adminRateLimit } from '../middleware/rateLimit';
+import { sendError } from '../middleware/errors';
+import { BadRequestError, ForbiddenError, NotFoundError } from '../errors';
+
+const router = Router();
+
+// Validation schemas
+export const mediaSchema = z.object({
+  alt: z.string().max(300).optional(),
+});
+
+// Uploads are kept in memory; they are re-encoded before anything is stored
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
+}).single('file');
+
+function parseUpload(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  upload(req, res, error => {
+    if (error instanceof multer.MulterError) {
+      const mediaError = error.code === 'LIMIT_FILE_SIZE'
+        ? new MediaError(`File is larger than ${MAX_UPLOAD_BYTES} bytes`, 413)
+        : new MediaError(error.message);
+      return sendError(req, res, mediaError, 'Error uploading media');
+    }
+    next(error);
+  });
+}
+
+// Apply rate limiting to all admin routes
+router.use(adminRateLimit);
+
+// Apply authentication to all admin routes
+router.use(requireAuth);
+
+// Upload an image as multipart/form-data with a "file" field and optional "alt"
+router.post('/', parseUpload, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = mediaSchema.parse(req.body);
+
+    if (!req.file) {
+      throw new BadRequestError('An image is required in the "file" field');
+    }
+
+    const mediaService = new MediaService(req.app.locals.prisma);
+    const media = await mediaService.uploadMedia(
+      { buffer: req.file.buffer, originalName: req.file.originalname },
+      { alt: validatedData.alt, uploadedById: req.user!.id }
+    );
+
+    res.status(201).json({
+      success: true,
+      data: media,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error uploading media');
+  }
+});
+
+// List uploaded media, newest first
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const mediaService = new MediaService(req.app.locals.prisma);
+    const result = await mediaService.getMediaList({ page, limit });
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching media');
+  }
+});
+
+// Get a single media item with its variants
+router.get('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const mediaService = new MediaService(req.app.locals.prisma);
+    const media = await mediaService.getMedia(id);
+
+    if (!media) {
+      throw new NotFoundError('Media not found');
+    }
+
+    res.json({
+      success: true,
+      data: media,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching media');
+  }
+});
+
+// Update the alt text of a media item
+router.put('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const validatedData = mediaSchema.parse(req.body);
+
+    const mediaService = new MediaService(req.app.locals.prisma);
+    const media = await mediaService.updateMedia(id, validatedData);
+
+    res.json({
+      success: true,
+      data: media,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error updating media', {
+      notFound: 'Media not found',
+    });
+  }
+});
+
+// Delete a media item and its files; editors may delete any, authors their own
+router.delete('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = req.user!;
+
+    const mediaService = new MediaService(req.app.locals.prisma);
+    const media = await mediaService.getMedia(id);
+
+    if (!media) {
+      throw new NotFoundError('Media not found');
+    }
+
+    if (!canPublish(user) && media.uploadedById !== user.id) {
+      throw new ForbiddenError('You can only delete media you uploaded');
+    }
+
+    await mediaService.deleteMedia(id);
+
+    res.json({
+      success: true,
+      message: 'Media deleted successfully',
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error deleting media');
+  }
+});
+
+export default router;
@@ -0,0 +1,33 @@
+import { Router, Request, Response } from 'express';
+import crypto from 'crypto';
+import { registry } from '../metrics';
+import { sendError } from '../middleware/errors';
+import { UnauthorizedError } from '../errors';
+
+const router = Router();
+
+function sameToken(provided: string, expected: string): boolean {
+  const a = crypto.createHash('sha256').update(provided).digest();
+  const b = crypto.createHash('sha256').update(expected).digest();
+  return crypto.timingSafeEqual(a, b);
+}
+
+// Prometheus metrics. Scraped often, so not rate limited; when METRICS_TOKEN
+// is set the scraper has to send it as a Bearer token.
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const token = process.env.METRICS_TOKEN;
+    const authHeader = req.headers.authorization || '';
+
+    if (token && !(authHeader.startsWith('Bearer ') && sameToken(authHeader.substring(7), token))) {
+      throw new UnauthorizedError('Authorization header required. Format: Bearer <METRICS_TOKEN>');
+    }
+
+    res.set('Content-Type', registry.contentType);
+    res.send(await registry.metrics());
+  } catch (error) {
+    sendError(req, res, error, 'Error collecting metrics');
+  }
+});
+
+export default router;
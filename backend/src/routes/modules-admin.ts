@@ -0,0 +1,146 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { UserRole } from '@prisma/client';
+import { ModulesService } from '../modules';
+import { requireAuth, requireRole, AuthenticatedRequest } from '../middleware/auth';
+import { adminRateLimit } from '../middleware/rateLimit';
+import { sendError } from '../middleware/errors';
+import { NotFoundError } from '../errors';
+import { slugSchema } from '../slugs';
+
+const router = Router();
+
+// Validation schemas
+const itemsSchema = z.array(z.string().min(1).max(500)).max(50);
+const markdownSchema = z.string().max(20000);
+
+export const createModuleSchema = z.object({
+  title: z.string().min(1, 'Title is required').max(200),
+  slug: slugSchema.optional(),
+  summary: z.string().min(1, 'Summary is required').max(1000),
+  position: z.number().int().min(0).optional(),
+  published: z.boolean().optional(),
+  overview: markdownSchema.min(1, 'Overview is required'),
+  competencies: itemsSchema.optional(),
+  skills: markdownSchema.nullable().optional(),
+  prompts: z.array(z.object({
+    title: z.string().min(1).max(200),
+    prompt: z.string().min(1).max(5000),
+  })).max(20).optional(),
+  practiceSteps: itemsSchema.optional(),
+  practiceNotes: markdownSchema.nullable().optional(),
+  classroomIdeas: itemsSchema.optional(),
+  classroomNotes: markdownSchema.nullable().optional(),
+  rubricCriteria: itemsSchema.optional(),
+  rubricNotes: markdownSchema.nullable().optional(),
+  privacyNotes: itemsSchema.optional(),
+  ethicsNotes: markdownSchema.nullable().optional(),
+  downloads: z.array(z.object({
+    label: z.string().min(1).max(200),
+    url: z.string().url().refine(url => /^https?:\/\//.test(url), 'URL must use http or https'),
+  })).max(20).optional(),
+});
+
+export const updateModuleSchema = createModuleSchema.partial();
+
+// Apply rate limiting, authentication and the editor role to all module routes
+router.use(adminRateLimit);
+router.use(requireAuth);
+router.use(requireRole(UserRole.ADMIN, UserRole.EDITOR));
+
+// All modules in curriculum order, including unpublished ones
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const modulesService = new ModulesService(req.app.locals.prisma);
+    const modules = await modulesService.getModules({ includeUnpublished: true });
+
+    res.json({
+      success: true,
+      data: modules,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching modules');
+  }
+});
+
+// Create a module
+router.post('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = createModuleSchema.parse(req.body);
+
+    const modulesService = new ModulesService(req.app.locals.prisma);
+    const module = await modulesService.createModule(validatedData);
+
+    res.status(201).json({
+      success: true,
+      data: module,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error creating module', {
+      conflict: 'A module with this slug already exists',
+    });
+  }
+});
+
+// Get a module by ID
+router.get('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const modulesService = new ModulesService(req.app.locals.prisma);
+    const module = await modulesService.getModuleById(id);
+
+    if (!module) {
+      throw new NotFoundError('Module not found');
+    }
+
+    res.json({
+      success: true,
+      data: module,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching module');
+  }
+});
+
+// Update a module; list sections are replaced as a whole
+router.put('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const validatedData = updateModuleSchema.parse(req.body);
+
+    const modulesService = new ModulesService(req.app.locals.prisma);
+    const module = await modulesService.updateModule(id, validatedData);
+
+    res.json({
+      success: true,
+      data: module,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error updating module', {
+      notFound: 'Module not found',
+      conflict: 'A module with this slug already exists',
+    });
+  }
+});
+
+// Delete a module
+router.delete('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const modulesService = new ModulesService(req.app.locals.prisma);
+    await modulesService.deleteModule(id);
+
+    res.json({
+      success: true,
+      message: 'Module deleted successfully',
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error deleting module', {
+      notFound: 'Module not found',
+    });
+  }
+});
+
+export default router;
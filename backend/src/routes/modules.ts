@@ -0,0 +1,52 @@
+import { Router, Request, Response } from 'express';
+import { ModulesService } from '../modules';
+import { cacheResponse, setLastModified } from '../middleware/cache';
+import { sendError } from '../middleware/errors';
+import { NotFoundError } from '../errors';
+
+const router = Router();
+
+// Curriculum content changes rarely
+const MODULES_CACHE_CONTROL = 'public, max-age=300, stale-while-revalidate=60';
+
+// Published modules in curriculum order, without their sections
+router.get('/', cacheResponse(MODULES_CACHE_CONTROL), async (req: Request, res: Response) => {
+  try {
+    const modulesService = new ModulesService(req.app.locals.prisma);
+    const modules = await modulesService.getModuleSummaries();
+
+    setLastModified(res, modules.map(module => module.updatedAt));
+
+    res.json({
+      success: true,
+      data: modules,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching modules');
+  }
+});
+
+// A published module with all of its sections
+router.get('/:slug', cacheResponse(MODULES_CACHE_CONTROL), async (req: Request, res: Response) => {
+  try {
+    const { slug } = req.params;
+
+    const modulesService = new ModulesService(req.app.locals.prisma);
+    const module = await modulesService.getPublishedModuleBySlug(slug);
+
+    if (!module) {
+      throw new NotFoundError('Module not found');
+    }
+
+    setLastModified(res, [module.updatedAt]);
+
+    res.json({
+      success: true,
+      data: module,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching module');
+  }
+});
+
+export default router;
@@ -0,0 +1,103 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { SubscriberStatus, UserRole } from '@prisma/client';
+import { NewsletterService } from '../newsletter';
+import { requireAuth, requireRole, AuthenticatedRequest } from '../middleware/auth';
+import { adminRateLimit } from '../middleware/rateLimit';
+import { sendError } from '../middleware/errors';
+
+const router = Router();
+
+const statusSchema = z.nativeEnum(SubscriberStatus).optional();
+
+// Apply rate limiting, authentication and the admin role to all newsletter routes
+router.use(adminRateLimit);
+router.use(requireAuth);
+router.use(requireRole(UserRole.ADMIN));
+
+// Subscriber counts by status and the last digest sent
+router.get('/stats', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const newsletterService = new NewsletterService(req.app.locals.prisma);
+    const stats = await newsletterService.getStats();
+
+    res.json({
+      success: true,
+      data: stats,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching newsletter stats');
+  }
+});
+
+// List subscribers, newest first (?status=PENDING|ACTIVE|UNSUBSCRIBED)
+router.get('/subscribers', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const status = statusSchema.parse(req.query.status || undefined);
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 50;
+
+    const newsletterService = new NewsletterService(req.app.locals.prisma);
+    const result = await newsletterService.getSubscribers({ status, page, limit });
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching subscribers');
+  }
+});
+
+// Remove a subscriber completely, e.g. on request
+router.delete('/subscribers/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const newsletterService = new NewsletterService(req.app.locals.prisma);
+    await newsletterService.deleteSubscriber(id);
+
+    res.json({
+      success: true,
+      message: 'Subscriber deleted successfully',
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error deleting subscriber', {
+      notFound: 'Subscriber not found',
+    });
+  }
+});
+
+// Digest send history, newest first
+router.get('/sends', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+    const newsletterService = new NewsletterService(req.app.locals.prisma);
+    const sends = await newsletterService.getSends(limit);
+
+    res.json({
+      success: true,
+      data: sends,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching newsletter sends');
+  }
+});
+
+// Send the digest of posts published since the last one right away
+router.post('/send', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const newsletterService = new NewsletterService(req.app.locals.prisma);
+    const result = await newsletterService.sendDigest(req.user!.name);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error sending newsletter digest');
+  }
+});
+
+export default router;
@@ -0,0 +1,164 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { NewsletterService, renderNewsletterPage } from '../newsletter';
+import { escapeHtml } from '../templates';
+import { newsletterRateLimit } from '../middleware/rateLimit';
+import { sendError } from '../middleware/errors';
+import { NotFoundError } from '../errors';
+
+const router = Router();
+
+// Form field that is hidden from readers; only bots fill it in
+const HONEYPOT_FIELD = 'website';
+
+// Validation schemas
+const tagsSchema = z.array(z.string().max(100)).max(50);
+
+export const subscribeSchema = z.object({
+  email: z.string().trim().email().max(254),
+  tags: tagsSchema.optional(),
+});
+
+export const preferencesSchema = z.object({
+  token: z.string().min(1),
+  tags: tagsSchema,
+});
+
+const SUBSCRIBED_MESSAGE = 'Please check your inbox and confirm your subscription.';
+
+// Token from the query string (links in emails) or the request body
+function tokenOf(req: Request): string {
+  const token = req.query.token ?? req.body?.token;
+  return typeof token === 'string' ? token : '';
+}
+
+// Sign up for the new-post digest; a confirmation link is emailed
+router.post('/subscribe', newsletterRateLimit, async (req: Request, res: Response) => {
+  try {
+    // Bots get the same answer as everyone else, but nothing is stored
+    const honeypot = req.body?.[HONEYPOT_FIELD];
+    if (typeof honeypot === 'string' && honeypot.trim() !== '') {
+      return res.json({
+        success: true,
+        message: SUBSCRIBED_MESSAGE,
+      });
+    }
+
+    const validatedData = subscribeSchema.parse(req.body);
+
+    const newsletterService = new NewsletterService(req.app.locals.prisma);
+    await newsletterService.subscribe(validatedData.email, validatedData.tags);
+
+    res.json({
+      success: true,
+      message: SUBSCRIBED_MESSAGE,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error subscribing to newsletter');
+  }
+});
+
+// Confirmation link from the sign-up email
+router.get('/confirm', async (req: Request, res: Response) => {
+  try {
+    const newsletterService = new NewsletterService(req.app.locals.prisma);
+    const confirmed = await newsletterService.confirm(tokenOf(req));
+
+    if (!confirmed) {
+      return res.status(400).send(renderNewsletterPage(
+        'Link expired',
+        '<p>This confirmation link is invalid or has expired. Please subscribe again.</p>'
+      ));
+    }
+
+    res.send(renderNewsletterPage(
+      'Subscription confirmed',
+      '<p>Thank you! You will now receive new posts by email.</p>'
+    ));
+  } catch (error) {
+    req.log.error('Error confirming subscription', { error });
+    res.status(500).send(renderNewsletterPage('Something went wrong', '<p>Please try again later.</p>'));
+  }
+});
+
+// Unsubscribe link from a digest: asks before unsubscribing, so link
+// scanners in mail systems do not unsubscribe anyone
+router.get('/unsubscribe', (req: Request, res: Response) => {
+  const action = `?token=${encodeURIComponent(tokenOf(req))}`;
+
+  res.send(renderNewsletterPage(
+    'Unsubscribe',
+    `<p>Do you want to stop receiving new posts by email?</p>
+  <form method="POST" action="${escapeHtml(action)}"><button type="submit">Unsubscribe</button></form>`
+  ));
+});
+
+// Unsubscribe, from the form above or a mail client's one-click unsubscribe
+router.post('/unsubscribe', async (req: Request, res: Response) => {
+  const wantsHtml = req.accepts(['json', 'html']) === 'html';
+
+  try {
+    const newsletterService = new NewsletterService(req.app.locals.prisma);
+    const unsubscribed = await newsletterService.unsubscribe(tokenOf(req));
+
+    if (!unsubscribed) {
+      if (wantsHtml) {
+        return res.status(404).send(renderNewsletterPage('Not found', '<p>This unsubscribe link is invalid.</p>'));
+      }
+      throw new NotFoundError('Subscriber not found');
+    }
+
+    if (wantsHtml) {
+      return res.send(renderNewsletterPage('Unsubscribed', '<p>You will no longer receive new posts by email.</p>'));
+    }
+
+    res.json({
+      success: true,
+      message: 'Unsubscribed successfully',
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error unsubscribing');
+  }
+});
+
+// Tags a subscriber follows (?token= from the unsubscribe link)
+router.get('/preferences', async (req: Request, res: Response) => {
+  try {
+    const newsletterService = new NewsletterService(req.app.locals.prisma);
+    const preferences = await newsletterService.getPreferences(tokenOf(req));
+
+    if (!preferences) {
+      throw new NotFoundError('Subscriber not found');
+    }
+
+    res.json({
+      success: true,
+      data: preferences,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching newsletter preferences');
+  }
+});
+
+// Change the followed tags; an empty list means all posts
+router.put('/preferences', async (req: Request, res: Response) => {
+  try {
+    const validatedData = preferencesSchema.parse(req.body);
+
+    const newsletterService = new NewsletterService(req.app.locals.prisma);
+    const preferences = await newsletterService.updatePreferences(validatedData.token, validatedData.tags);
+
+    if (!preferences) {
+      throw new NotFoundError('Subscriber not found');
+    }
+
+    res.json({
+      success: true,
+      data: preferences,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error updating newsletter preferences');
+  }
+});
+
+export default router;
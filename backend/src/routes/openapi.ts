@@ -0,0 +1,24 @@
+import { Router, Request, Response } from 'express';
+import swaggerUi from 'swagger-ui-express';
+import { openApiDocument } from '../openapi';
+import { sendError } from '../middleware/errors';
+
+const router = Router();
+
+// OpenAPI 3 document built from the request schemas
+router.get('/openapi.json', (req: Request, res: Response) => {
+  try {
+    res.json(openApiDocument());
+  } catch (error) {
+    sendError(req, res, error, 'Error building OpenAPI document');
+  }
+});
+
+// Swagger UI for browsing the document and trying requests
+router.use('/docs', swaggerUi.serve);
+router.get('/docs', swaggerUi.setup(undefined, {
+  customSiteTitle: 'Teacher AI Academy API',
+  swaggerOptions: { url: '/api/openapi.json' },
+}));
+
+export default router;
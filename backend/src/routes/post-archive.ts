@@ -0,0 +1,61 @@
+import express, { Router, Response } from 'express';
+import { UserRole } from '@prisma/client';
+import { PostArchiveService, readZip } from '../post-archive';
+import { userActor } from '../revisions';
+import { requireAuth, requireRole, AuthenticatedRequest } from '../middleware/auth';
+import { adminRateLimit } from '../middleware/rateLimit';
+import { sendError } from '../middleware/errors';
+import { BadRequestError } from '../errors';
+
+// Mounted under /api/admin/posts next to the post routes, so the middleware
+// is applied per route rather than to every request under that path
+const router = Router();
+
+const archiveAccess = [adminRateLimit, requireAuth, requireRole(UserRole.ADMIN, UserRole.EDITOR)];
+
+// Download every post as a zip of Markdown files with YAML front matter
+router.get('/export', ...archiveAccess, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const archiveService = new PostArchiveService(req.app.locals.prisma);
+    const zip = await archiveService.exportZip();
+    const date = new Date().toISOString().slice(0, 10);
+
+    res.set('Content-Type', 'application/zip');
+    res.set('Content-Disposition', `attachment; filename="posts-${date}.zip"`);
+    res.send(zip);
+  } catch (error) {
+    sendError(req, res, error, 'Error exporting posts');
+  }
+});
+
+// Create or update posts from an uploaded zip of Markdown or blog-posts/ HTML
+// files (?dryRun=true only reports, ?force=true overwrites newer posts)
+router.post(
+  '/import',
+  ...archiveAccess,
+  express.raw({ type: ['application/zip', 'application/octet-stream'], limit: '20mb' }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        throw new BadRequestError('Send the zip archive as the request body with Content-Type: application/zip');
+      }
+
+      const files = readZip(req.body);
+
+      const archiveService = new PostArchiveService(req.app.locals.prisma);
+      const report = await archiveService.importFiles(files, userActor(req.user!), {
+        dryRun: req.query.dryRun === 'true',
+        force: req.query.force === 'true',
+      });
+
+      res.json({
+        success: true,
+        data: report,
+      });
+    } catch (error) {
+      sendError(req, res, error, 'Error importing posts');
+    }
+  }
+);
+
+export default router;
@@ -1,27 +1,54 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
+import { PostStatus } from '@prisma/client';
 import { PostsService } from '../posts';
+import { userActor } from '../revisions';
+import { ForbiddenError, NotFoundError } from '../errors';
+import { slugSchema } from '../slugs';
+import { canEditPost, canPublish, canReview, canSetStatus } from '../permissions';
 import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
 import { adminRateLimit } from '../middleware/rateLimit';
+import { sendError } from '../middleware/errors';
 
 const router = Router();
 
 // Validation schemas
-const createPostSchema = z.object({
+export const createPostSchema = z.object({
   title: z.string().min(1, 'Title is required'),
-  slug: z.string().optional(),
+  slug: slugSchema.optional(),
   summary: z.string().optional(),
   contentMarkdown: z.string().optional(),
   contentHtml: z.string().optional(),
   imageUrl: z.string().url().optional().or(z.literal('')),
+  imageMediaId: z.string().nullable().optional(),
   tags: z.array(z.string()).optional(),
   sourceUrl: z.string().url().optional().or(z.literal('')),
-  author: z.string().optional(),
+  metaTitle: z.string().max(120).optional(),
+  metaDescription: z.string().max(320).optional(),
+  canonicalUrl: z.string().url().optional().or(z.literal('')),
+  ogImageUrl: z.string().url().optional().or(z.literal('')),
+  authorId: z.string().optional(),
   publishedAt: z.string().datetime().optional(),
-  status: z.enum(['DRAFT', 'PUBLISHED']).optional(),
+  status: z.enum(['DRAFT', 'IN_REVIEW', 'CHANGES_REQUESTED', 'PUBLISHED', 'ARCHIVED']).optional(),
 });
 
-const updatePostSchema = createPostSchema.partial();
+export const updatePostSchema = createPostSchema.partial();
+
+export const reviewSchema = z.object({
+  comment: z.string().max(2000).optional(),
+});
+
+export const rejectSchema = z.object({
+  comment: z.string().min(1, 'A comment explaining the requested changes is required').max(2000),
+});
+
+// ?scheduled=true lists only posts waiting for their publishedAt, false only live ones
+export const filterSchema = z.object({
+  status: z.nativeEnum(PostStatus).optional(),
+  scheduled: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  orderBy: z.enum(['publishedAt', 'updatedAt', 'title']).optional(),
+  order: z.enum(['asc', 'desc']).optional(),
+});
 
 // Apply rate limiting to all admin routes
 router.use(adminRateLimit);
@@ -33,6 +60,19 @@ router.use(requireAuth);
 router.post('/', async (req: AuthenticatedRequest, res: Response) => {
   try {
     const validatedData = createPostSchema.parse(req.body);
+    const user = req.user!;
+    
+    // Authors can only write drafts or submit them for review, credited to themselves
+    if (!canPublish(user)) {
+      if (
+        (validatedData.status && !canSetStatus(user, validatedData.status)) ||
+        (validatedData.authorId && validatedData.authorId !== user.id)
+      ) {
+        throw new ForbiddenError('Authors can only create their own drafts');
+      }
+      validatedData.status = validatedData.status || 'DRAFT';
+    }
+    validatedData.authorId = validatedData.authorId || user.id;
     
     const postsService = new PostsService(req.app.locals.prisma);
     
@@ -41,29 +81,15 @@ router.post('/', async (req: AuthenticatedRequest, res: Response) => {
       validatedData.publishedAt = new Date(validatedData.publishedAt);
     }
     
-    const post = await postsService.createPost(validatedData);
+    const post = await postsService.createPost(validatedData, userActor(user));
     
     res.status(201).json({
       success: true,
       data: post,
     });
   } catch (error) {
-    if (error instanceof z.ZodError) {
-      return res.status(400).json({
-        error: 'Validation error',
-        details: error.errors,
-      });
-    }
-    
-    if (error instanceof Error && error.message.includes('Unique constraint')) {
-      return res.status(409).json({
-        error: 'A post with this slug already exists',
-      });
-    }
-    
-    console.error('Error creating post:', error);
-    res.status(500).json({
-      error: 'Internal server error',
+    sendError(req, res, error, 'Error creating post', {
+      conflict: 'A post with this slug already exists',
     });
   }
 });
@@ -73,43 +99,39 @@ router.put('/:id', async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { id } = req.params;
     const validatedData = updatePostSchema.parse(req.body);
+    const user = req.user!;
     
     const postsService = new PostsService(req.app.locals.prisma);
+    const existing = await postsService.getPostById(id);
+    
+    if (!existing) {
+      throw new NotFoundError('Post not found');
+    }
+    
+    // Authors can only edit their own drafts and cannot publish or reassign them
+    if (
+      !canEditPost(user, existing) ||
+      (validatedData.status && !canSetStatus(user, validatedData.status)) ||
+      (!canPublish(user) && validatedData.authorId !== undefined)
+    ) {
+      throw new ForbiddenError('You do not have permission to edit this post');
+    }
     
     // Convert publishedAt string to Date if provided
     if (validatedData.publishedAt) {
       validatedData.publishedAt = new Date(validatedData.publishedAt);
     }
     
-    const post = await postsService.updatePost(id, validatedData);
+    const post = await postsService.updatePost(id, validatedData, userActor(user));
     
     res.json({
       success: true,
       data: post,
     });
   } catch (error) {
-    if (error instanceof z.ZodError) {
-      return res.status(400).json({
-        error: 'Validation error',
-        details: error.errors,
-      });
-    }
-    
-    if (error instanceof Error && error.message.includes('Record to update not found')) {
-      return res.status(404).json({
-        error: 'Post not found',
-      });
-    }
-    
-    if (error instanceof Error && error.message.includes('Unique constraint')) {
-      return res.status(409).json({
-        error: 'A post with this slug already exists',
-      });
-    }
-    
-    console.error('Error updating post:', error);
-    res.status(500).json({
-      error: 'Internal server error',
+    sendError(req, res, error, 'Error updating post', {
+      notFound: 'Post not found',
+      conflict: 'A post with this slug already exists',
     });
   }
 });
@@ -120,6 +142,16 @@ router.delete('/:id', async (req: AuthenticatedRequest, res: Response) => {
     const { id } = req.params;
     
     const postsService = new PostsService(req.app.locals.prisma);
+    const existing = await postsService.getPostById(id);
+    
+    if (!existing) {
+      throw new NotFoundError('Post not found');
+    }
+    
+    if (!canEditPost(req.user!, existing)) {
+      throw new ForbiddenError('You do not have permission to delete this post');
+    }
+    
     await postsService.deletePost(id);
     
     res.json({
@@ -127,31 +159,129 @@ router.delete('/:id', async (req: AuthenticatedRequest, res: Response) => {
       message: 'Post deleted successfully',
     });
   } catch (error) {
-    if (error instanceof Error && error.message.includes('Record to delete does not exist')) {
-      return res.status(404).json({
-        error: 'Post not found',
-      });
+    sendError(req, res, error, 'Error deleting post', {
+      notFound: 'Post not found',
+    });
+  }
+});
+
+// Move a post to a new status on behalf of the signed-in user
+async function transitionPost(
+  req: AuthenticatedRequest,
+  res: Response,
+  toStatus: PostStatus,
+  comment?: string
+) {
+  const { id } = req.params;
+  const user = req.user!;
+  
+  const postsService = new PostsService(req.app.locals.prisma);
+  const existing = await postsService.getPostById(id);
+  
+  if (!existing) {
+    throw new NotFoundError('Post not found');
+  }
+  
+  // Authors may only submit their own drafts; everything else is a review action
+  const allowed = toStatus === PostStatus.IN_REVIEW
+    ? canEditPost(user, existing)
+    : canReview(user);
+  
+  if (!allowed) {
+    throw new ForbiddenError('You do not have permission to change the status of this post');
+  }
+  
+  const post = await postsService.transitionPost(id, toStatus, userActor(user), comment);
+  
+  if (!post) {
+    throw new NotFoundError('Post not found');
+  }
+  
+  res.json({
+    success: true,
+    data: postsService.withSchedule(post),
+  });
+}
+
+function handleTransitionError(req: AuthenticatedRequest, res: Response, error: unknown, action: string) {
+  sendError(req, res, error, `Error ${action} post`, {
+    notFound: 'Post not found',
+  });
+}
+
+// Submit a draft for review
+router.post('/:id/submit', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    await transitionPost(req, res, PostStatus.IN_REVIEW);
+  } catch (error) {
+    handleTransitionError(req, res, error, 'submitting');
+  }
+});
+
+// Approve a post under review; it goes live at its publishedAt
+router.post('/:id/approve', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { comment } = reviewSchema.parse(req.body);
+    await transitionPost(req, res, PostStatus.PUBLISHED, comment);
+  } catch (error) {
+    handleTransitionError(req, res, error, 'approving');
+  }
+});
+
+// Send a post back to its author with a comment
+router.post('/:id/reject', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { comment } = rejectSchema.parse(req.body);
+    await transitionPost(req, res, PostStatus.CHANGES_REQUESTED, comment);
+  } catch (error) {
+    handleTransitionError(req, res, error, 'rejecting');
+  }
+});
+
+// Archive a post, taking it off the site without deleting it
+router.post('/:id/archive', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { comment } = reviewSchema.parse(req.body);
+    await transitionPost(req, res, PostStatus.ARCHIVED, comment);
+  } catch (error) {
+    handleTransitionError(req, res, error, 'archiving');
+  }
+});
+
+// Status history of a post, including review comments
+router.get('/:id/transitions', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    
+    const postsService = new PostsService(req.app.locals.prisma);
+    const post = await postsService.getPostById(id);
+    
+    if (!post) {
+      throw new NotFoundError('Post not found');
     }
     
-    console.error('Error deleting post:', error);
-    res.status(500).json({
-      error: 'Internal server error',
+    const transitions = await postsService.getTransitions(id);
+    
+    res.json({
+      success: true,
+      data: transitions,
     });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching status transitions');
   }
 });
 
 // Get all posts (admin view - includes drafts)
 router.get('/', async (req: AuthenticatedRequest, res: Response) => {
   try {
+    const { status, scheduled, orderBy = 'publishedAt', order = 'desc' } = filterSchema.parse(req.query);
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
-    const status = req.query.status as 'DRAFT' | 'PUBLISHED' | undefined;
-    const orderBy = req.query.orderBy as 'publishedAt' | 'updatedAt' | 'title' || 'publishedAt';
-    const order = req.query.order as 'asc' | 'desc' || 'desc';
     
     const postsService = new PostsService(req.app.locals.prisma);
     const result = await postsService.getPosts({
       status,
+      scheduled,
       page,
       limit,
       orderBy,
@@ -160,13 +290,13 @@ router.get('/', async (req: AuthenticatedRequest, res: Response) => {
     
     res.json({
       success: true,
-      data: result,
+      data: {
+        ...result,
+        items: result.items.map(post => postsService.withSchedule(post)),
+      },
     });
   } catch (error) {
-    console.error('Error fetching posts:', error);
-    res.status(500).json({
-      error: 'Internal server error',
-    });
+    sendError(req, res, error, 'Error fetching posts');
   }
 });
 
@@ -179,20 +309,15 @@ router.get('/:id', async (req: AuthenticatedRequest, res: Response) => {
     const post = await postsService.getPostById(id);
     
     if (!post) {
-      return res.status(404).json({
-        error: 'Post not found',
-      });
+      throw new NotFoundError('Post not found');
     }
     
     res.json({
       success: true,
-      data: post,
+      data: postsService.withSchedule(post),
     });
   } catch (error) {
-    console.error('Error fetching post:', error);
-    res.status(500).json({
-      error: 'Internal server error',
-    });
+    sendError(req, res, error, 'Error fetching post');
   }
 });
 
@@ -1,80 +1,264 @@
 import { Router, Request, Response } from 'express';
-import { PostsService } from '../posts';
+import { PostsService, toPostSummary } from '../posts';
+import { TagsService } from '../tags';
+import { AnalyticsService, parseWindow, windowRange } from '../analytics';
+import { BlogRenderer } from '../blog';
+import { buildPostMeta } from '../seo';
 import { publicRateLimit } from '../middleware/rateLimit';
+import { cacheResponse, setLastModified } from '../middleware/cache';
+import { sendError } from '../middleware/errors';
+import { BadRequestError, NotFoundError } from '../errors';
 
 const router = Router();
 
+// Listings change whenever anything is published; single posts less often
+const LIST_CACHE_CONTROL = 'public, max-age=60, stale-while-revalidate=60';
+const POST_CACHE_CONTROL = 'public, max-age=300, stale-while-revalidate=60';
+
+// Extra data a single post can be requested with, e.g. ?include=adjacent,related
+const POST_INCLUDES = ['adjacent', 'related'];
+const DEFAULT_RELATED_POSTS = 3;
+const MAX_RELATED_POSTS = 10;
+const DEFAULT_POPULAR_POSTS = 5;
+const MAX_POPULAR_POSTS = 20;
+
 // Apply rate limiting to all public routes
 router.use(publicRateLimit);
 
 // Get published posts with pagination
-router.get('/posts', async (req: Request, res: Response) => {
+router.get('/posts', cacheResponse(LIST_CACHE_CONTROL), async (req: Request, res: Response) => {
   try {
     const page = parseInt(req.query.page as string) || 1;
     const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
     const orderBy = req.query.orderBy as 'publishedAt' | 'updatedAt' | 'title' || 'publishedAt';
     const order = req.query.order as 'asc' | 'desc' || 'desc';
+    const tag = req.query.tag as string | undefined;
     
     const postsService = new PostsService(req.app.locals.prisma);
     const result = await postsService.getPosts({
       status: 'PUBLISHED',
+      scheduled: false,
+      tag,
       page,
       limit,
       orderBy,
       order,
     });
     
+    setLastModified(res, result.items.flatMap(post => [post.updatedAt, post.publishedAt]));
+    
     res.json({
       success: true,
       data: result,
     });
   } catch (error) {
-    console.error('Error fetching posts:', error);
-    res.status(500).json({
-      error: 'Internal server error',
+    sendError(req, res, error, 'Error fetching posts');
+  }
+});
+
+// Full-text search over published posts
+router.get('/posts/search', async (req: Request, res: Response) => {
+  try {
+    const query = (req.query.q as string || '').trim();
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
+    
+    if (!query) {
+      throw new BadRequestError('Query parameter q is required');
+    }
+    
+    if (query.length > 200) {
+      throw new BadRequestError('Query parameter q must be at most 200 characters');
+    }
+    
+    const postsService = new PostsService(req.app.locals.prisma);
+    const result = await postsService.searchPosts(query, { page, limit });
+    
+    res.json({
+      success: true,
+      data: result,
     });
+  } catch (error) {
+    sendError(req, res, error, 'Error searching posts');
+  }
+});
+
+// Most viewed posts of the last days (?window=7d, ?limit=). View counts are
+// not part of the cache generation, so entries expire with the cache TTL.
+router.get('/posts/popular', cacheResponse(LIST_CACHE_CONTROL), async (req: Request, res: Response) => {
+  try {
+    const days = parseWindow(req.query.window as string || '7d');
+    const limit = Math.min(parseInt(req.query.limit as string) || DEFAULT_POPULAR_POSTS, MAX_POPULAR_POSTS);
+    
+    const postsService = new PostsService(req.app.locals.prisma);
+    const range = windowRange(days);
+    const posts = await postsService.getPopularPosts(range, limit);
+    
+    res.json({
+      success: true,
+      data: {
+        ...range,
+        items: posts.map(post => ({ ...toPostSummary(post), views: post.views })),
+      },
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching popular posts');
   }
 });
 
 // Get a specific post by slug
-router.get('/posts/:slug', async (req: Request, res: Response) => {
+router.get('/posts/:slug', cacheResponse(POST_CACHE_CONTROL), async (req: Request, res: Response) => {
   try {
     const { slug } = req.params;
+    const include = (req.query.include as string || '').split(',').map(value => value.trim()).filter(Boolean);
+    const relatedLimit = Math.min(parseInt(req.query.relatedLimit as string) || DEFAULT_RELATED_POSTS, MAX_RELATED_POSTS);
+    
+    const unknown = include.filter(value => !POST_INCLUDES.includes(value));
+    if (unknown.length > 0) {
+      throw new BadRequestError(`Unknown include: ${unknown.join(', ')}. Use ${POST_INCLUDES.join(', ')}`);
+    }
     
     const postsService = new PostsService(req.app.locals.prisma);
-    const post = await postsService.getPostBySlug(slug);
+    // Only return published posts that are already live to public
+    const post = await postsService.getPublicPostBySlug(slug);
     
     if (!post) {
-      return res.status(404).json({
-        error: 'Post not found',
-      });
+      throw new NotFoundError('Post not found');
     }
     
-    // Only return published posts to public
-    if (post.status !== 'PUBLISHED') {
-      return res.status(404).json({
-        error: 'Post not found',
-      });
+    const [adjacent, related] = await Promise.all([
+      include.includes('adjacent') ? postsService.getAdjacentPosts(post) : null,
+      include.includes('related') ? postsService.getRelatedPosts(post, relatedLimit) : null,
+    ]);
+    
+    // A change to a linked post changes the response as well
+    const linked = [adjacent?.previous, adjacent?.next, ...(related || [])].filter(item => item != null);
+    setLastModified(res, [post.updatedAt, post.publishedAt, ...linked.map(item => item.updatedAt)]);
+    
+    res.json({
+      success: true,
+      data: {
+        ...post,
+        // Linked posts are listed without their content
+        ...(adjacent && {
+          previous: adjacent.previous && toPostSummary(adjacent.previous),
+          next: adjacent.next && toPostSummary(adjacent.next),
+        }),
+        ...(related && {
+          related: related.map(item => ({ ...toPostSummary(item), score: item.score })),
+        }),
+      },
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching post');
+  }
+});
+
+// View beacon for a live post, e.g. from navigator.sendBeacon. Only daily
+// totals are stored; the IP address and user agent are hashed in memory
+// to skip repeat views and never written anywhere.
+router.post('/posts/:slug/view', async (req: Request, res: Response) => {
+  try {
+    const { slug } = req.params;
+    
+    const analyticsService = new AnalyticsService(req.app.locals.prisma);
+    const counted = await analyticsService.recordView(slug, {
+      ip: req.ip || '',
+      userAgent: req.get('User-Agent') || '',
+    });
+    
+    if (counted === null) {
+      throw new NotFoundError('Post not found');
+    }
+    
+    res.status(204).end();
+  } catch (error) {
+    sendError(req, res, error, 'Error recording post view');
+  }
+});
+
+// SEO metadata for a live post: Open Graph, Twitter card and JSON-LD
+router.get('/posts/:slug/meta', async (req: Request, res: Response) => {
+  try {
+    const { slug } = req.params;
+    
+    const postsService = new PostsService(req.app.locals.prisma);
+    const post = await postsService.getPublicPostBySlug(slug);
+    
+    if (!post) {
+      throw new NotFoundError('Post not found');
     }
     
+    const renderer = new BlogRenderer(req.app.locals.prisma);
+    
+    res.json({
+      success: true,
+      data: buildPostMeta(post, renderer.seoOptions()),
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching post metadata');
+  }
+});
+
+// Get all tags with the number of published posts using them
+router.get('/tags', async (req: Request, res: Response) => {
+  try {
+    const tagsService = new TagsService(req.app.locals.prisma);
+    const tags = await tagsService.getTagsWithCounts();
+    
     res.json({
       success: true,
-      data: post,
+      data: tags,
     });
   } catch (error) {
-    console.error('Error fetching post:', error);
-    res.status(500).json({
-      error: 'Internal server error',
+    sendError(req, res, error, 'Error fetching tags');
+  }
+});
+
+// Get a tag page: the tag and its published posts
+router.get('/tags/:slug', async (req: Request, res: Response) => {
+  try {
+    const { slug } = req.params;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
+    
+    const tagsService = new TagsService(req.app.locals.prisma);
+    const tag = await tagsService.getTagBySlug(slug);
+    
+    if (!tag) {
+      throw new NotFoundError('Tag not found');
+    }
+    
+    const postsService = new PostsService(req.app.locals.prisma);
+    const posts = await postsService.getPosts({
+      status: 'PUBLISHED',
+      scheduled: false,
+      tag: tag.slug,
+      page,
+      limit,
     });
+    
+    res.json({
+      success: true,
+      data: {
+        tag: { slug: tag.slug, name: tag.name },
+        posts,
+      },
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching tag');
   }
 });
 
 // Health check endpoint
 router.get('/health', (req: Request, res: Response) => {
   res.json({
-    ok: true,
-    timestamp: new Date().toISOString(),
-    uptime: process.uptime(),
+    success: true,
+    data: {
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+      uptime: process.uptime(),
+    },
   });
 });
 
@@ -0,0 +1,191 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { ResourceCategory, GradeBand, PricingTier, PrivacyRating, LinkStatus, UserRole } from '@prisma/client';
+import { ResourcesService } from '../resources';
+import { requireAuth, requireRole, AuthenticatedRequest } from '../middleware/auth';
+import { adminRateLimit } from '../middleware/rateLimit';
+import { sendError } from '../middleware/errors';
+import { NotFoundError } from '../errors';
+
+const router = Router();
+
+// Validation schemas
+export const createResourceSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(200),
+  description: z.string().min(1, 'Description is required').max(1000),
+  url: z.string().url().refine(url => /^https?:\/\//.test(url), 'URL must use http or https'),
+  linkLabel: z.string().max(100).nullable().optional(),
+  icon: z.string().max(16).nullable().optional(),
+  category: z.nativeEnum(ResourceCategory),
+  gradeBand: z.nativeEnum(GradeBand).optional(),
+  pricingTier: z.nativeEnum(PricingTier),
+  privacyRating: z.nativeEnum(PrivacyRating).optional(),
+  featured: z.boolean().optional(),
+  published: z.boolean().optional(),
+  position: z.number().int().min(0).optional(),
+});
+
+export const updateResourceSchema = createResourceSchema.partial();
+
+const filterSchema = z.object({
+  category: z.nativeEnum(ResourceCategory).optional(),
+  linkStatus: z.nativeEnum(LinkStatus).optional(),
+  published: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  q: z.string().trim().max(200).optional(),
+});
+
+// Apply rate limiting, authentication and the editor role to all resource routes
+router.use(adminRateLimit);
+router.use(requireAuth);
+router.use(requireRole(UserRole.ADMIN, UserRole.EDITOR));
+
+// All resources with their link status (?category=, ?linkStatus=, ?published=, ?q=)
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const filter = filterSchema.parse(req.query);
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+    const resourcesService = new ResourcesService(req.app.locals.prisma);
+    const result = await resourcesService.getAdminResources(filter, { page, limit });
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching resources');
+  }
+});
+
+// Create a resource
+router.post('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = createResourceSchema.parse(req.body);
+
+    const resourcesService = new ResourcesService(req.app.locals.prisma);
+    const resource = await resourcesService.createResource(validatedData);
+
+    res.status(201).json({
+      success: true,
+      data: resource,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error creating resource');
+  }
+});
+
+// Dead and redirected links found by the link checker
+router.get('/link-report', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const resourcesService = new ResourcesService(req.app.locals.prisma);
+    const report = await resourcesService.getLinkReport();
+
+    res.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching link report');
+  }
+});
+
+// Check every resource link now and return the new report
+router.post('/check-links', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const resourcesService = new ResourcesService(req.app.locals.prisma);
+    const report = await resourcesService.checkAllLinks();
+
+    res.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error checking resource links');
+  }
+});
+
+// Get a resource by ID
+router.get('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const resourcesService = new ResourcesService(req.app.locals.prisma);
+    const resource = await resourcesService.getResourceById(id);
+
+    if (!resource) {
+      throw new NotFoundError('Resource not found');
+    }
+
+    res.json({
+      success: true,
+      data: resource,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching resource');
+  }
+});
+
+// Update a resource; a new URL resets its link status
+router.put('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const validatedData = updateResourceSchema.parse(req.body);
+
+    const resourcesService = new ResourcesService(req.app.locals.prisma);
+    const resource = await resourcesService.updateResource(id, validatedData);
+
+    res.json({
+      success: true,
+      data: resource,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error updating resource', {
+      notFound: 'Resource not found',
+    });
+  }
+});
+
+// Check a single resource link now
+router.post('/:id/check-link', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const resourcesService = new ResourcesService(req.app.locals.prisma);
+    const resource = await resourcesService.getResourceById(id);
+
+    if (!resource) {
+      throw new NotFoundError('Resource not found');
+    }
+
+    const checked = await resourcesService.checkResourceLink(resource);
+
+    res.json({
+      success: true,
+      data: checked.resource,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error checking resource link');
+  }
+});
+
+// Delete a resource
+router.delete('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const resourcesService = new ResourcesService(req.app.locals.prisma);
+    await resourcesService.deleteResource(id);
+
+    res.json({
+      success: true,
+      message: 'Resource deleted successfully',
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error deleting resource', {
+      notFound: 'Resource not found',
+    });
+  }
+});
+
+export default router;
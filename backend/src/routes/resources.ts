@@ -0,0 +1,58 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { ResourceCategory, GradeBand, PricingTier, PrivacyRating } from '@prisma/client';
+import { ResourcesService } from '../resources';
+import { cacheResponse, setLastModified } from '../middleware/cache';
+import { sendError } from '../middleware/errors';
+
+const router = Router();
+
+const RESOURCES_CACHE_CONTROL = 'public, max-age=300, stale-while-revalidate=60';
+
+// Validation schemas
+export const filterSchema = z.object({
+  category: z.nativeEnum(ResourceCategory).optional(),
+  gradeBand: z.nativeEnum(GradeBand).optional(),
+  pricingTier: z.nativeEnum(PricingTier).optional(),
+  privacyRating: z.nativeEnum(PrivacyRating).optional(),
+  featured: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  q: z.string().trim().max(200).optional(),
+});
+
+// Published resources (?category=, ?gradeBand=, ?pricingTier=, ?privacyRating=, ?featured=, ?q=)
+router.get('/', cacheResponse(RESOURCES_CACHE_CONTROL), async (req: Request, res: Response) => {
+  try {
+    const filter = filterSchema.parse(req.query);
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
+
+    const resourcesService = new ResourcesService(req.app.locals.prisma);
+    const result = await resourcesService.getResources(filter, { page, limit });
+
+    setLastModified(res, result.items.map(resource => resource.updatedAt));
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching resources');
+  }
+});
+
+// Categories in page order with their resource counts
+router.get('/categories', cacheResponse(RESOURCES_CACHE_CONTROL), async (req: Request, res: Response) => {
+  try {
+    const resourcesService = new ResourcesService(req.app.locals.prisma);
+    const categories = await resourcesService.getCategories();
+
+    res.json({
+      success: true,
+      data: categories,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching resource categories');
+  }
+});
+
+export default router;
@@ -0,0 +1,131 @@
+import { Router, Response } from 'express';
+import { PostsService } from '../posts';
+import { RevisionsService, userActor } from '../revisions';
+import { canEditPost, canPublish } from '../permissions';
+import { requireAuth, AuthenticatedRequest } from '../middleware/auth';
+import { adminRateLimit } from '../middleware/rateLimit';
+import { sendError } from '../middleware/errors';
+import { BadRequestError, ForbiddenError, NotFoundError } from '../errors';
+
+// Mounted under /api/admin/posts/:id/revisions
+const router = Router({ mergeParams: true });
+
+// Apply rate limiting to all admin routes
+router.use(adminRateLimit);
+
+// Apply authentication to all admin routes
+router.use(requireAuth);
+
+// List revisions of a post, newest first
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const postsService = new PostsService(req.app.locals.prisma);
+    const post = await postsService.getPostById(id);
+
+    if (!post) {
+      throw new NotFoundError('Post not found');
+    }
+
+    const revisionsService = new RevisionsService(req.app.locals.prisma);
+    const revisions = await revisionsService.getRevisions(id);
+
+    res.json({
+      success: true,
+      data: revisions,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching revisions');
+  }
+});
+
+// Field-level diff between two revisions
+router.get('/diff', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const from = req.query.from as string | undefined;
+    const to = req.query.to as string | undefined;
+
+    if (!from || !to) {
+      throw new BadRequestError('Query parameters from and to are required');
+    }
+
+    const revisionsService = new RevisionsService(req.app.locals.prisma);
+    const diff = await revisionsService.diffRevisions(id, from, to);
+
+    if (!diff) {
+      throw new NotFoundError('Revision not found');
+    }
+
+    res.json({
+      success: true,
+      data: diff,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error diffing revisions');
+  }
+});
+
+// Get a single revision with its full content
+router.get('/:revisionId', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id, revisionId } = req.params;
+
+    const revisionsService = new RevisionsService(req.app.locals.prisma);
+    const revision = await revisionsService.getRevision(id, revisionId);
+
+    if (!revision) {
+      throw new NotFoundError('Revision not found');
+    }
+
+    res.json({
+      success: true,
+      data: revision,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching revision');
+  }
+});
+
+// Restore a revision; the restored content becomes a new revision
+router.post('/:revisionId/restore', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id, revisionId } = req.params;
+    const user = req.user!;
+
+    const postsService = new PostsService(req.app.locals.prisma);
+    const revisionsService = new RevisionsService(req.app.locals.prisma);
+    const [existing, revision] = await Promise.all([
+      postsService.getPostById(id),
+      revisionsService.getRevision(id, revisionId),
+    ]);
+
+    if (!existing || !revision) {
+      throw new NotFoundError(existing ? 'Revision not found' : 'Post not found');
+    }
+
+    // Restoring is an edit; restoring a published revision also publishes
+    if (!canEditPost(user, existing) || (revision.status === 'PUBLISHED' && !canPublish(user))) {
+      throw new ForbiddenError('You do not have permission to restore this revision');
+    }
+
+    const post = await postsService.restoreRevision(id, revisionId, userActor(user));
+
+    if (!post) {
+      throw new NotFoundError('Revision not found');
+    }
+
+    res.json({
+      success: true,
+      data: post,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error restoring revision', {
+      notFound: 'Post not found',
+      conflict: 'Another post already uses the slug of this revision',
+    });
+  }
+});
+
+export default router;
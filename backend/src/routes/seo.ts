@@ -0,0 +1,59 @@
+import { Router, Request, Response } from 'express';
+import { BlogRenderer } from '../blog';
+import { PostsService } from '../posts';
+import { CurriculumRenderer, moduleSitemapEntries } from '../curriculum';
+import { ModulesService } from '../modules';
+import { buildSitemap, SitemapEntry } from '../sitemap';
+import { buildRobotsTxt, postSitemapEntries } from '../seo';
+import { publicRateLimit } from '../middleware/rateLimit';
+
+const router = Router();
+
+const CACHE_CONTROL = 'public, max-age=3600';
+
+// Mounted at the site root, so rate limiting is applied per route
+// rather than to every request passing through this router
+
+// Sitemap of the rendered blog and module pages
+router.get('/sitemap.xml', publicRateLimit, async (req: Request, res: Response) => {
+  try {
+    const renderer = new BlogRenderer(req.app.locals.prisma);
+    const options = renderer.seoOptions();
+
+    const postsService = new PostsService(req.app.locals.prisma);
+    const posts = await postsService.getLivePosts();
+    const modules = await new ModulesService(req.app.locals.prisma).getModuleSummaries();
+    const moduleLinks = new CurriculumRenderer(req.app.locals.prisma).links;
+
+    const lastUpdated = posts.reduce<Date | undefined>(
+      (latest, post) => (!latest || post.updatedAt > latest ? post.updatedAt : latest),
+      undefined
+    );
+
+    const entries: SitemapEntry[] = [
+      {
+        loc: `${options.siteBaseUrl}/blog`,
+        lastmod: lastUpdated,
+        changefreq: 'daily',
+        priority: 0.8,
+      },
+      ...moduleSitemapEntries(modules, moduleLinks),
+      ...postSitemapEntries(posts, options),
+    ];
+
+    res.set('Cache-Control', CACHE_CONTROL);
+    res.type('application/xml').send(buildSitemap(entries));
+  } catch (error) {
+    req.log.error('Error generating sitemap', { error });
+    res.status(500).type('text').send('Internal server error');
+  }
+});
+
+router.get('/robots.txt', publicRateLimit, (req: Request, res: Response) => {
+  const siteBaseUrl = new BlogRenderer(req.app.locals.prisma).seoOptions().siteBaseUrl;
+
+  res.set('Cache-Control', CACHE_CONTROL);
+  res.type('text').send(buildRobotsTxt(siteBaseUrl));
+});
+
+export default router;
@@ -0,0 +1,177 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { UserRole } from '@prisma/client';
+import { SourcesService } from '../sources';
+import { requireAuth, requireRole, AuthenticatedRequest } from '../middleware/auth';
+import { adminRateLimit } from '../middleware/rateLimit';
+import { sendError } from '../middleware/errors';
+import { NotFoundError } from '../errors';
+
+const router = Router();
+
+// Validation schemas
+export const createSourceSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  feedUrl: z.string().url().refine(url => /^https?:\/\//.test(url), 'Feed URL must use http or https'),
+  intervalMinutes: z.number().int().min(5).max(7 * 24 * 60).optional(),
+  defaultTags: z.array(z.string()).optional(),
+  enabled: z.boolean().optional(),
+});
+
+export const updateSourceSchema = createSourceSchema.partial();
+
+// Apply rate limiting, authentication and the editor role to all source routes
+router.use(adminRateLimit);
+router.use(requireAuth);
+router.use(requireRole(UserRole.ADMIN, UserRole.EDITOR));
+
+// List all sources with their last fetch error
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const sourcesService = new SourcesService(req.app.locals.prisma);
+    const sources = await sourcesService.getSources();
+
+    res.json({
+      success: true,
+      data: sources,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching sources');
+  }
+});
+
+// Add a feed to poll; it is fetched on the next poller run
+router.post('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = createSourceSchema.parse(req.body);
+
+    const sourcesService = new SourcesService(req.app.locals.prisma);
+    const source = await sourcesService.createSource(validatedData);
+
+    res.status(201).json({
+      success: true,
+      data: source,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error creating source', {
+      conflict: 'A source with this feed URL already exists',
+    });
+  }
+});
+
+// Get a single source
+router.get('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const sourcesService = new SourcesService(req.app.locals.prisma);
+    const source = await sourcesService.getSourceById(id);
+
+    if (!source) {
+      throw new NotFoundError('Source not found');
+    }
+
+    res.json({
+      success: true,
+      data: source,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching source');
+  }
+});
+
+// Update a source
+router.put('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const validatedData = updateSourceSchema.parse(req.body);
+
+    const sourcesService = new SourcesService(req.app.locals.prisma);
+    const source = await sourcesService.updateSource(id, validatedData);
+
+    res.json({
+      success: true,
+      data: source,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error updating source', {
+      notFound: 'Source not found',
+      conflict: 'A source with this feed URL already exists',
+    });
+  }
+});
+
+// Delete a source; drafts it imported are kept
+router.delete('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const sourcesService = new SourcesService(req.app.locals.prisma);
+    await sourcesService.deleteSource(id);
+
+    res.json({
+      success: true,
+      message: 'Source deleted successfully',
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error deleting source', {
+      notFound: 'Source not found',
+    });
+  }
+});
+
+// Fetch a source right away instead of waiting for the poller
+router.post('/:id/fetch', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const sourcesService = new SourcesService(req.app.locals.prisma);
+    const source = await sourcesService.getSourceById(id);
+
+    if (!source) {
+      throw new NotFoundError('Source not found');
+    }
+
+    const result = await sourcesService.fetchSource(source);
+
+    res.json({
+      success: true,
+      data: {
+        ok: result.ok,
+        notModified: result.notModified,
+        itemsFound: result.itemsFound,
+        imported: result.imported.map(post => ({ id: post.id, slug: post.slug, title: post.title })),
+        error: result.error,
+      },
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching source');
+  }
+});
+
+// Fetch log of a source, newest first (?errors=true for failures only)
+router.get('/:id/fetches', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const errorsOnly = req.query.errors === 'true';
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+    const sourcesService = new SourcesService(req.app.locals.prisma);
+    const source = await sourcesService.getSourceById(id);
+
+    if (!source) {
+      throw new NotFoundError('Source not found');
+    }
+
+    const fetches = await sourcesService.getFetches(id, { errorsOnly, limit });
+
+    res.json({
+      success: true,
+      data: fetches,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching source log');
+  }
+});
+
+export default router;
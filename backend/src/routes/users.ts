@@ -0,0 +1,114 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { UserRole } from '@prisma/client';
+import { UsersService } from '../users';
+import { requireAuth, requireRole, AuthenticatedRequest } from '../middleware/auth';
+import { adminRateLimit } from '../middleware/rateLimit';
+import { sendError } from '../middleware/errors';
+import { BadRequestError } from '../errors';
+
+const router = Router();
+
+// Validation schemas
+export const createUserSchema = z.object({
+  email: z.string().email(),
+  name: z.string().min(1, 'Name is required'),
+  password: z.string().min(12, 'Password must be at least 12 characters'),
+  role: z.enum(['ADMIN', 'EDITOR', 'AUTHOR']).optional(),
+});
+
+export const updateUserSchema = z.object({
+  name: z.string().min(1).optional(),
+  password: z.string().min(12, 'Password must be at least 12 characters').optional(),
+  role: z.enum(['ADMIN', 'EDITOR', 'AUTHOR']).optional(),
+  disabled: z.boolean().optional(),
+});
+
+// Apply rate limiting, authentication and the admin role to all user routes
+router.use(adminRateLimit);
+router.use(requireAuth);
+router.use(requireRole(UserRole.ADMIN));
+
+// List all users
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const usersService = new UsersService(req.app.locals.prisma);
+    const users = await usersService.getUsers();
+
+    res.json({
+      success: true,
+      data: users,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error fetching users');
+  }
+});
+
+// Create a user
+router.post('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = createUserSchema.parse(req.body);
+
+    const usersService = new UsersService(req.app.locals.prisma);
+    const user = await usersService.createUser(validatedData);
+
+    res.status(201).json({
+      success: true,
+      data: user,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error creating user', {
+      conflict: 'A user with this email already exists',
+    });
+  }
+});
+
+// Update a user's name, password, role or disabled flag
+router.put('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const validatedData = updateUserSchema.parse(req.body);
+
+    // Keep admins from locking themselves out
+    if (id === req.user!.id && (validatedData.disabled || (validatedData.role && validatedData.role !== 'ADMIN'))) {
+      throw new BadRequestError('You cannot disable or demote your own account');
+    }
+
+    const usersService = new UsersService(req.app.locals.prisma);
+    const user = await usersService.updateUser(id, validatedData);
+
+    res.json({
+      success: true,
+      data: user,
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error updating user', {
+      notFound: 'User not found',
+    });
+  }
+});
+
+// Delete a user; their posts keep the default byline
+router.delete('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (id === req.user!.id) {
+      throw new BadRequestError('You cannot delete your own account');
+    }
+
+    const usersService = new UsersService(req.app.locals.prisma);
+    await usersService.deleteUser(id);
+
+    res.json({
+      success: true,
+      message: 'User deleted successfully',
+    });
+  } catch (error) {
+    sendError(req, res, error, 'Error deleting user', {
+      notFound: 'User not found',
+    });
+  }
+});
+
+export default router;
@@ -1,27 +1,38 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import { PostsService } from '../posts';
-import { requireWebhookSecret } from '../middleware/auth';
+import { WEBHOOK_ACTOR } from '../revisions';
+import { slugSchema } from '../slugs';
+import { requireWebhookAuth } from '../middleware/auth';
+import { idempotency } from '../middleware/idempotency';
 import { webhookRateLimit } from '../middleware/rateLimit';
+import { countWebhookOutcomes } from '../middleware/metrics';
+import { sendError } from '../middleware/errors';
 
 const router = Router();
 
 // Validation schema for n8n webhook payload
-const n8nWebhookSchema = z.object({
+export const n8nWebhookSchema = z.object({
   title: z.string().min(1, 'Title is required'),
-  slug: z.string().optional(),
+  slug: slugSchema.optional(),
   summary: z.string().optional(),
   contentHtml: z.string().optional(),
   contentMarkdown: z.string().optional(),
   imageUrl: z.string().url().optional().or(z.literal('')),
   tags: z.array(z.string()).optional(),
   sourceUrl: z.string().url().optional().or(z.literal('')),
+  metaTitle: z.string().max(120).optional(),
+  metaDescription: z.string().max(320).optional(),
+  canonicalUrl: z.string().url().optional().or(z.literal('')),
+  ogImageUrl: z.string().url().optional().or(z.literal('')),
   publishedAt: z.string().datetime().optional(),
 });
 
-// Apply rate limiting and authentication
+// Count outcomes, then apply rate limiting, authentication and idempotency keys
+router.use(countWebhookOutcomes('n8n'));
 router.use(webhookRateLimit);
-router.use(requireWebhookSecret);
+router.use(requireWebhookAuth);
+router.use(idempotency('n8n-webhook'));
 
 // n8n webhook endpoint
 router.post('/', async (req: Request, res: Response) => {
@@ -35,28 +46,21 @@ router.post('/', async (req: Request, res: Response) => {
       validatedData.publishedAt = new Date(validatedData.publishedAt);
     }
     
-    // Use upsert to either update existing post or create new one
-    const post = await postsService.upsertPostBySlug({
-      ...validatedData,
-      status: 'PUBLISHED', // n8n posts are always published
-    });
+    // Use upsert to either update existing post or create new one;
+    // the status comes from the webhook source policy (in review by default)
+    const post = await postsService.upsertPostBySlug(validatedData, WEBHOOK_ACTOR);
     
     res.json({
-      ok: true,
-      id: post.id,
-      slug: post.slug,
+      success: true,
+      data: {
+        id: post.id,
+        slug: post.slug,
+        status: post.status,
+      },
     });
   } catch (error) {
-    if (error instanceof z.ZodError) {
-      return res.status(400).json({
-        error: 'Validation error',
-        details: error.errors,
-      });
-    }
-    
-    console.error('Error processing n8n webhook:', error);
-    res.status(500).json({
-      error: 'Internal server error',
+    sendError(req, res, error, 'Error processing n8n webhook', {
+      conflict: 'A post with this slug already exists',
     });
   }
 });
@@ -0,0 +1,46 @@
+import sanitizeHtml from 'sanitize-html';
+
+// Post content comes from admins, n8n workflows and LLM output, and is served
+// as-is by the public API, RSS and the blog pages, so only this allowlist survives
+const sanitizeOptions: sanitizeHtml.IOptions = {
+  allowedTags: [
+    'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+    'p', 'br', 'hr', 'blockquote', 'pre', 'code',
+    'ul', 'ol', 'li', 'dl', 'dt', 'dd',
+    'strong', 'b', 'em', 'i', 'u', 's', 'del', 'ins', 'sub', 'sup', 'mark', 'small',
+    'abbr', 'cite', 'q', 'span', 'div',
+    'a', 'img', 'figure', 'figcaption',
+    'table', 'caption', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td',
+  ],
+  allowedAttributes: {
+    a: ['href', 'title', 'target', 'rel'],
+    img: ['src', 'alt', 'title', 'width', 'height', 'loading'],
+    abbr: ['title'],
+    ol: ['start', 'type'],
+    th: ['colspan', 'rowspan', 'scope'],
+    td: ['colspan', 'rowspan'],
+    code: ['class'],
+  },
+  allowedClasses: {
+    code: ['language-*'],
+  },
+  allowedSchemes: ['http', 'https', 'mailto'],
+  allowedSchemesByTag: {
+    img: ['http', 'https'],
+  },
+  allowProtocolRelative: false,
+  disallowedTagsMode: 'discard',
+  transformTags: {
+    // Links opening a new tab must not get access to the opener
+    a: (tagName, attribs) => {
+      if (attribs.target === '_blank') {
+        return { tagName, attribs: { ...attribs, rel: 'noopener noreferrer' } };
+      }
+      return { tagName, attribs };
+    },
+  },
+};
+
+export function sanitizeContent(html: string): string {
+  return sanitizeHtml(html, sanitizeOptions);
+}
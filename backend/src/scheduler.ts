@@ -0,0 +1,113 @@
+import { EventEmitter } from 'events';
+import { PrismaClient } from '@prisma/client';
+import { PostsService, PostWithTags } from './posts';
+import { logger } from './logger';
+
+export interface PublishSchedulerOptions {
+  intervalMs?: number | undefined;
+  webhookUrl?: string | undefined;
+  webhookTimeoutMs?: number | undefined;
+  siteBaseUrl?: string | undefined;
+}
+
+export interface PublishEvent {
+  event: 'post.published';
+  post: {
+    id: string;
+    slug: string;
+    title: string;
+    url: string;
+    publishedAt: string;
+  };
+}
+
+// Polls for posts that went live since the last run, either because their
+// publish time passed or because they were approved after it, and emits a
+// 'publish' event (and optional outbound webhook) once for each of them.
+export class PublishScheduler extends EventEmitter {
+  private postsService: PostsService;
+  private timer: NodeJS.Timeout | null = null;
+  private lastRunAt = new Date();
+  private intervalMs: number;
+  private webhookUrl: string | undefined;
+  private webhookTimeoutMs: number;
+  private siteBaseUrl: string;
+
+  constructor(prisma: PrismaClient, options: PublishSchedulerOptions = {}) {
+    super();
+    this.postsService = new PostsService(prisma);
+    this.intervalMs = options.intervalMs || 30 * 1000;
+    this.webhookUrl = options.webhookUrl;
+    this.webhookTimeoutMs = options.webhookTimeoutMs || 10000;
+    this.siteBaseUrl = options.siteBaseUrl || 'http://localhost:8080';
+  }
+
+  start() {
+    if (this.timer) {
+      return;
+    }
+
+    // Only posts going live from now on fire events
+    this.lastRunAt = new Date();
+    this.timer = setInterval(() => {
+      this.tick().catch(error => {
+        logger.error('Error running publish scheduler', { error });
+      });
+    }, this.intervalMs);
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async tick(now: Date = new Date()): Promise<PostWithTags[]> {
+    const posts = await this.postsService.getPostsGoingLive(this.lastRunAt, now);
+    this.lastRunAt = now;
+
+    for (const post of posts) {
+      const payload = this.toEvent(post);
+      this.emit('publish', post);
+      await this.notifyWebhook(payload);
+    }
+
+    return posts;
+  }
+
+  private toEvent(post: PostWithTags): PublishEvent {
+    return {
+      event: 'post.published',
+      post: {
+        id: post.id,
+        slug: post.slug,
+        title: post.title,
+        url: `${this.siteBaseUrl}/blog/${post.slug}`,
+        publishedAt: post.publishedAt.toISOString(),
+      },
+    };
+  }
+
+  private async notifyWebhook(payload: PublishEvent) {
+    if (!this.webhookUrl) {
+      return;
+    }
+
+    try {
+      const response = await fetch(this.webhookUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+        signal: AbortSignal.timeout(this.webhookTimeoutMs),
+      });
+
+      if (!response.ok) {
+        logger.error('Publish webhook failed', { status: response.status, slug: payload.post.slug });
+      }
+    } catch (error) {
+      logger.error('Error sending publish webhook', { error });
+    }
+  }
+}
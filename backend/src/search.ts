@@ -0,0 +1,166 @@
+import { PrismaClient, Prisma, PostStatus } from '@prisma/client';
+import type { PostWithTags, PaginatedPosts } from './posts';
+import { postTagsInclude, tagNames } from './tags';
+import { escapeHtml } from './templates';
+
+export interface SearchHit extends PostWithTags {
+  score: number;
+  highlights: {
+    title: string;
+    snippet: string;
+  };
+}
+
+export interface SearchResults extends Omit<PaginatedPosts, 'items'> {
+  query: string;
+  items: SearchHit[];
+}
+
+export interface SearchMatch {
+  postId: string;
+  score: number;
+  highlights: SearchHit['highlights'];
+}
+
+interface FtsRow {
+  postId: string;
+  score: number;
+  title: string;
+  snippet: string;
+}
+
+// Upper bound on ranked matches considered for a single query
+const MAX_MATCHES = 500;
+
+// Column weights for bm25(): title, summary, content, tags
+const BM25_WEIGHTS = '10.0, 5.0, 1.0, 3.0';
+
+// Control characters that mark matches in highlight() and snippet() output.
+// They are stripped from indexed text, so the output can be escaped as a
+// whole and only these markers turned into <mark> tags.
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+const MARKERS = /[\u0002\u0003]/g;
+
+// Highlighted FTS output as HTML: the text is escaped, matches wrapped in <mark>
+export function markMatches(text: string): string {
+  return escapeHtml(text)
+    .split(MATCH_START).join('<mark>')
+    .split(MATCH_END).join('</mark>');
+}
+
+// Full-text search over posts backed by an SQLite FTS5 table.
+// The table is not managed by Prisma, so it is created on startup
+// and kept in sync by PostsService on every write.
+export class SearchService {
+  constructor(private prisma: PrismaClient) {}
+
+  // Create the FTS table if missing and rebuild it when out of sync
+  async ensureIndex(): Promise<void> {
+    await this.prisma.$executeRawUnsafe(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS posts_fts USING fts5(
+        post_id UNINDEXED,
+        title,
+        summary,
+        content,
+        tags,
+        tokenize = 'porter unicode61'
+      )
+    `);
+
+    const [indexed] = await this.prisma.$queryRaw<{ count: bigint }[]>`
+      SELECT COUNT(*) AS count FROM posts_fts
+    `;
+    const total = await this.prisma.post.count();
+
+    if (Number(indexed?.count ?? 0) !== total) {
+      await this.rebuildIndex();
+    }
+  }
+
+  async rebuildIndex(): Promise<void> {
+    await this.prisma.$executeRaw`DELETE FROM posts_fts`;
+
+    const posts = await this.prisma.post.findMany({ include: postTagsInclude });
+    for (const post of posts) {
+      await this.insert(post.id, post.title, post.summary, post.contentMarkdown, post.contentHtml, tagNames(post));
+    }
+  }
+
+  async indexPost(post: PostWithTags): Promise<void> {
+    await this.removePost(post.id);
+    await this.insert(post.id, post.title, post.summary, post.contentMarkdown, post.contentHtml, post.tags);
+  }
+
+  async removePost(id: string): Promise<void> {
+    await this.prisma.$executeRaw`DELETE FROM posts_fts WHERE post_id = ${id}`;
+  }
+
+  // Ranked matches among published posts; callers still filter out scheduled posts
+  async search(query: string): Promise<SearchMatch[]> {
+    const match = this.toMatchExpression(query);
+
+    if (!match) {
+      return [];
+    }
+
+    const rows = await this.prisma.$queryRaw<FtsRow[]>`
+      SELECT
+        posts_fts.post_id AS postId,
+        bm25(posts_fts, ${Prisma.raw(BM25_WEIGHTS)}) AS score,
+        highlight(posts_fts, 1, ${MATCH_START}, ${MATCH_END}) AS title,
+        snippet(posts_fts, -1, ${MATCH_START}, ${MATCH_END}, '…', 24) AS snippet
+      FROM posts_fts
+      JOIN posts ON posts.id = posts_fts.post_id
+      WHERE posts_fts MATCH ${match}
+        AND posts.status = ${PostStatus.PUBLISHED}
+      ORDER BY score
+      LIMIT ${MAX_MATCHES}
+    `;
+
+    return rows.map(row => ({
+      postId: row.postId,
+      // bm25() is lower-is-better; flip it so higher scores rank first
+      score: -Number(row.score),
+      highlights: {
+        title: markMatches(row.title),
+        snippet: markMatches(row.snippet),
+      },
+    }));
+  }
+
+  // Turn free text into a safe FTS5 expression: every word as a quoted prefix term
+  private toMatchExpression(query: string): string {
+    return query
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(Boolean)
+      .slice(0, 10)
+      .map(term => `"${term}"*`)
+      .join(' ');
+  }
+
+  private async insert(
+    id: string,
+    title: string,
+    summary: string | null,
+    contentMarkdown: string,
+    contentHtml: string | null,
+    tags: string[]
+  ): Promise<void> {
+    const content = contentMarkdown || this.stripHtml(contentHtml || '');
+    const clean = (text: string) => text.replace(MARKERS, '');
+
+    await this.prisma.$executeRaw`
+      INSERT INTO posts_fts (post_id, title, summary, content, tags)
+      VALUES (${id}, ${clean(title)}, ${clean(summary || '')}, ${clean(content)}, ${clean(tags.join(' '))})
+    `;
+  }
+
+  private stripHtml(html: string): string {
+    return html
+      .replace(/<[^>]*>/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+}
@@ -0,0 +1,123 @@
+import type { PostWithTags } from './posts';
+import type { SitemapEntry } from './sitemap';
+
+const SITE_NAME = 'Teacher AI Academy';
+const DESCRIPTION_LENGTH = 160;
+
+export interface SeoOptions {
+  siteBaseUrl: string;
+  postUrl: (slug: string) => string;
+}
+
+// Everything a page head needs for search engines and link previews
+export interface PostMeta {
+  title: string;
+  description: string;
+  canonicalUrl: string;
+  image: string | null;
+  openGraph: Record<string, string>;
+  twitter: Record<string, string>;
+  jsonLd: Record<string, unknown>;
+}
+
+function plainText(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function truncate(text: string, length: number): string {
+  if (text.length <= length) {
+    return text;
+  }
+
+  const cut = text.slice(0, length - 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > length / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+// Explicit SEO fields win; otherwise fall back to the title, summary and content
+export function buildPostMeta(post: PostWithTags, options: SeoOptions): PostMeta {
+  const title = post.metaTitle || post.title;
+  const description = post.metaDescription
+    || post.summary
+    || truncate(plainText(post.contentHtml || post.contentMarkdown || ''), DESCRIPTION_LENGTH);
+  const canonicalUrl = post.canonicalUrl || options.postUrl(post.slug);
+  const image = post.ogImageUrl || post.imageUrl || null;
+
+  const openGraph: Record<string, string> = {
+    'og:type': 'article',
+    'og:site_name': SITE_NAME,
+    'og:title': title,
+    'og:description': description,
+    'og:url': canonicalUrl,
+    'article:published_time': post.publishedAt.toISOString(),
+    'article:modified_time': post.updatedAt.toISOString(),
+    'article:author': post.author,
+  };
+
+  const twitter: Record<string, string> = {
+    'twitter:card': image ? 'summary_large_image' : 'summary',
+    'twitter:title': title,
+    'twitter:description': description,
+  };
+
+  if (image) {
+    openGraph['og:image'] = image;
+    twitter['twitter:image'] = image;
+  }
+
+  const jsonLd: Record<string, unknown> = {
+    '@context': 'https://schema.org',
+    '@type': 'BlogPosting',
+    headline: title,
+    description,
+    url: canonicalUrl,
+    mainEntityOfPage: { '@type': 'WebPage', '@id': canonicalUrl },
+    datePublished: post.publishedAt.toISOString(),
+    dateModified: post.updatedAt.toISOString(),
+    author: { '@type': 'Person', name: post.author },
+    publisher: { '@type': 'Organization', name: SITE_NAME, url: options.siteBaseUrl },
+    keywords: post.tags.join(', '),
+  };
+
+  if (image) {
+    jsonLd['image'] = image;
+  }
+
+  return { title, description, canonicalUrl, image, openGraph, twitter, jsonLd };
+}
+
+// JSON-LD for a <script> tag; "<" is escaped so content cannot close the tag
+export function jsonLdScript(data: Record<string, unknown>): string {
+  const json = JSON.stringify(data).replace(/</g, '\\u003c');
+  return `<script type="application/ld+json">${json}</script>`;
+}
+
+// Sitemap entries for live posts. Posts whose canonical URL points at
+// another site are left out, since search engines should index that copy.
+export function postSitemapEntries(posts: PostWithTags[], options: SeoOptions): SitemapEntry[] {
+  return posts
+    .filter(post => !post.canonicalUrl || post.canonicalUrl.startsWith(options.siteBaseUrl))
+    .map(post => ({
+      loc: post.canonicalUrl || options.postUrl(post.slug),
+      lastmod: post.updatedAt,
+      changefreq: 'weekly' as const,
+      priority: 0.6,
+    }));
+}
+
+// Admin and webhook endpoints are not meant to be crawled
+export function buildRobotsTxt(siteBaseUrl: string): string {
+  return [
+    'User-agent: *',
+    'Allow: /',
+    'Disallow: /api/admin/',
+    'Disallow: /api/auth/',
+    'Disallow: /api/webhook/',
+    '',
+    `Sitemap: ${siteBaseUrl}/sitemap.xml`,
+    '',
+  ].join('\n');
+}
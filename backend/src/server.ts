@@ -3,12 +3,49 @@ import cors from 'cors';
 import helmet from 'helmet';
 import compression from 'compression';
 import { connectDatabase, disconnectDatabase, prisma } from './db';
+import { PublishScheduler } from './scheduler';
+import { SourcePoller } from './poller';
+import { DigestScheduler } from './digest';
+import { LinkCheckScheduler } from './link-scheduler';
+import { SearchService } from './search';
+import { RelatedPostsService } from './related';
+import { WebhookRequest } from './middleware/auth';
+import { responseCache } from './cache';
+import { mailTransport } from './mail';
+import { logger } from './logger';
+import { requestContext } from './middleware/requestLog';
+import { trackRequests } from './middleware/metrics';
+import { notFoundHandler, errorHandler } from './middleware/errors';
 
 // Import routes
 import publicRoutes from './routes/public';
+import commentsRoutes from './routes/comments';
+import commentModerationRoutes from './routes/comment-moderation';
+import contactRoutes from './routes/contact';
+import contactMessagesRoutes from './routes/contact-messages';
+import newsletterRoutes from './routes/newsletter';
+import newsletterAdminRoutes from './routes/newsletter-admin';
+import modulesRoutes from './routes/modules';
+import modulesAdminRoutes from './routes/modules-admin';
+import resourcesRoutes from './routes/resources';
+import resourcesAdminRoutes from './routes/resources-admin';
+import analyticsAdminRoutes from './routes/analytics-admin';
 import postsRoutes from './routes/posts';
+import postArchiveRoutes from './routes/post-archive';
+import revisionsRoutes from './routes/revisions';
+import authRoutes from './routes/auth';
+import usersRoutes from './routes/users';
+import sourcesRoutes from './routes/sources';
+import mediaRoutes from './routes/media';
+import mediaFilesRoutes from './routes/media-files';
 import webhookRoutes from './routes/webhook-n8n';
 import rssRoutes from './routes/rss';
+import feedsRoutes from './routes/feeds';
+import blogRoutes from './routes/blog';
+import curriculumRoutes from './routes/curriculum';
+import seoRoutes from './routes/seo';
+import metricsRoutes from './routes/metrics';
+import openapiRoutes from './routes/openapi';
 
 const app = express();
 const port = process.env.PORT || 8080;
@@ -17,6 +54,57 @@ const feOrigin = process.env.FE_ORIGIN || 'http://127.0.0.1:5500';
 // Make prisma available to routes
 app.locals.prisma = prisma;
 
+// Scheduler that announces posts when their publishedAt arrives
+const publishScheduler = new PublishScheduler(prisma, {
+  intervalMs: parseInt(process.env.SCHEDULER_INTERVAL_MS || '', 10) || undefined,
+  webhookUrl: process.env.PUBLISH_WEBHOOK_URL || undefined,
+  webhookTimeoutMs: parseInt(process.env.PUBLISH_WEBHOOK_TIMEOUT_MS || '', 10) || undefined,
+  siteBaseUrl: process.env.SITE_BASE_URL,
+});
+app.locals.publishScheduler = publishScheduler;
+
+// Poller that imports new articles from external feeds as drafts
+const sourcePoller = new SourcePoller(prisma, {
+  intervalMs: parseInt(process.env.SOURCE_POLL_INTERVAL_MS || '', 10) || undefined,
+});
+
+sourcePoller.on('fetched', (source, result) => {
+  if (result.imported.length > 0) {
+    logger.info('Imported drafts from source', { source: source.name, drafts: result.imported.length });
+  }
+  if (result.error) {
+    logger.warn('Fetching source failed', { source: source.name, reason: result.error });
+  }
+});
+
+// New-post digest for newsletter subscribers; NEWSLETTER_DIGEST_INTERVAL_HOURS=0 turns it off
+const digestIntervalHours = parseInt(process.env.NEWSLETTER_DIGEST_INTERVAL_HOURS ?? '', 10);
+const digestScheduler = new DigestScheduler(prisma, {
+  intervalHours: Number.isNaN(digestIntervalHours) ? undefined : digestIntervalHours,
+});
+
+digestScheduler.on('sent', result => {
+  logger.info('Sent newsletter digest', { posts: result.posts, subscribers: result.send.sent });
+});
+
+// Checks resource links for dead or redirected URLs; RESOURCE_LINK_CHECK_INTERVAL_HOURS=0 turns it off
+const linkCheckIntervalHours = parseInt(process.env.RESOURCE_LINK_CHECK_INTERVAL_HOURS ?? '', 10);
+const linkCheckScheduler = new LinkCheckScheduler(prisma, {
+  intervalHours: Number.isNaN(linkCheckIntervalHours) ? undefined : linkCheckIntervalHours,
+});
+
+linkCheckScheduler.on('checked', (resource, result) => {
+  if (result.status === 'BROKEN') {
+    logger.warn('Resource link is broken', { resource: resource.name, url: resource.url, reason: result.error });
+  }
+});
+
+publishScheduler.on('publish', post => {
+  logger.info('Scheduled post is now live', { slug: post.slug });
+  // Cached listings and feeds were built before the post went live
+  responseCache.invalidate();
+});
+
 // Security middleware
 app.use(helmet({
   contentSecurityPolicy: false, // Disable CSP for development
@@ -39,21 +127,53 @@ app.use(cors({
 // Compression middleware
 app.use(compression());
 
+// Request IDs, request logging and metrics; before body parsing so that
+// malformed bodies get a request ID too
+app.use(requestContext);
+app.use(trackRequests);
+
 // Body parsing middleware
-app.use(express.json({ limit: '10mb' }));
+app.use(express.json({
+  limit: '10mb',
+  // Keep the exact bytes of webhook requests for signature checks
+  verify: (req, _res, buf) => {
+    if (req.url?.startsWith('/api/webhook')) {
+      (req as WebhookRequest).rawBody = buf;
+    }
+  },
+}));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
-// Request logging middleware
-app.use((req, res, next) => {
-  console.log(`${new Date().toISOString()} ${req.method} ${req.path}`);
-  next();
-});
-
-// Routes
+// Routes. publicRoutes comes first and applies publicRateLimit to every
+// /api request, so the routers mounted below /api must not add it again.
 app.use('/api', publicRoutes);
+app.use('/api/posts/:slug/comments', commentsRoutes);
+app.use('/api/contact', contactRoutes);
+app.use('/api/newsletter', newsletterRoutes);
+app.use('/api/modules', modulesRoutes);
+app.use('/api/resources', resourcesRoutes);
+app.use('/api/auth', authRoutes);
+app.use('/api/admin/users', usersRoutes);
+app.use('/api/admin/sources', sourcesRoutes);
+app.use('/api/admin/media', mediaRoutes);
+app.use('/api/admin/comments', commentModerationRoutes);
+app.use('/api/admin/contact-messages', contactMessagesRoutes);
+app.use('/api/admin/newsletter', newsletterAdminRoutes);
+app.use('/api/admin/modules', modulesAdminRoutes);
+app.use('/api/admin/resources', resourcesAdminRoutes);
+app.use('/api/admin/analytics', analyticsAdminRoutes);
+app.use('/api/admin/posts/:id/revisions', revisionsRoutes);
+app.use('/api/admin/posts', postArchiveRoutes);
 app.use('/api/admin/posts', postsRoutes);
 app.use('/api/webhook/n8n', webhookRoutes);
 app.use('/api/rss', rssRoutes);
+app.use('/api', feedsRoutes);
+app.use('/api', openapiRoutes);
+app.use('/blog', blogRoutes);
+app.use('/curriculum', curriculumRoutes);
+app.use('/media', mediaFilesRoutes);
+app.use('/', seoRoutes);
+app.use('/metrics', metricsRoutes);
 
 // Root endpoint
 app.get('/', (req, res) => {
@@ -61,15 +181,61 @@ app.get('/', (req, res) => {
     message: 'Teacher AI Academy Backend API',
     version: '1.0.0',
     endpoints: {
+      pages: {
+        blog: '/blog',
+        post: '/blog/:slug',
+        module: '/curriculum/:slug',
+        sitemap: '/sitemap.xml',
+        robots: '/robots.txt',
+        media: '/media/:key',
+      },
       public: {
         posts: '/api/posts',
         post: '/api/posts/:slug',
+        meta: '/api/posts/:slug/meta',
+        comments: '/api/posts/:slug/comments',
+        contact: '/api/contact',
+        newsletter: '/api/newsletter/subscribe',
+        modules: '/api/modules',
+        module: '/api/modules/:slug',
+        resources: '/api/resources',
+        resourceCategories: '/api/resources/categories',
+        search: '/api/posts/search?q=',
+        popular: '/api/posts/popular?window=7d',
+        view: '/api/posts/:slug/view',
         health: '/api/health',
         rss: '/api/rss',
+        atom: '/api/feed.atom',
+        jsonFeed: '/api/feed.json',
+        feeds: '/api/feeds',
+        metrics: '/metrics',
+        openapi: '/api/openapi.json',
+        docs: '/api/docs',
+      },
+      auth: {
+        login: '/api/auth/login',
+        me: '/api/auth/me',
+        tokens: '/api/auth/tokens',
       },
       admin: {
+        users: '/api/admin/users',
+        sources: '/api/admin/sources',
+        media: '/api/admin/media',
+        comments: '/api/admin/comments',
+        contactMessages: '/api/admin/contact-messages',
+        newsletter: '/api/admin/newsletter/stats',
+        modules: '/api/admin/modules',
+        resources: '/api/admin/resources',
+        linkReport: '/api/admin/resources/link-report',
+        postViews: '/api/admin/analytics/posts',
+        tagViews: '/api/admin/analytics/tags',
         posts: '/api/admin/posts',
         post: '/api/admin/posts/:id',
+        revisions: '/api/admin/posts/:id/revisions',
+        review: '/api/admin/posts?status=IN_REVIEW',
+        transitions: '/api/admin/posts/:id/transitions',
+        export: '/api/admin/posts/export',
+        import: '/api/admin/posts/import',
       },
       webhook: {
         n8n: '/api/webhook/n8n',
@@ -79,31 +245,28 @@ app.get('/', (req, res) => {
 });
 
 // 404 handler
-app.use('*', (req, res) => {
-  res.status(404).json({
-    error: 'Endpoint not found',
-    path: req.originalUrl,
-  });
-});
+app.use('*', notFoundHandler);
 
 // Error handling middleware
-app.use((error: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
-  console.error('Unhandled error:', error);
-  res.status(500).json({
-    error: 'Internal server error',
-    message: process.env.NODE_ENV === 'development' ? error.message : 'Something went wrong',
-  });
-});
+app.use(errorHandler);
 
 // Graceful shutdown
 process.on('SIGINT', async () => {
-  console.log('\n🛑 Received SIGINT, shutting down gracefully...');
+  logger.info('Received SIGINT, shutting down gracefully');
+  publishScheduler.stop();
+  sourcePoller.stop();
+  digestScheduler.stop();
+  linkCheckScheduler.stop();
   await disconnectDatabase();
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
-  console.log('\n🛑 Received SIGTERM, shutting down gracefully...');
+  logger.info('Received SIGTERM, shutting down gracefully');
+  publishScheduler.stop();
+  sourcePoller.stop();
+  digestScheduler.stop();
+  linkCheckScheduler.stop();
   await disconnectDatabase();
   process.exit(0);
 });
@@ -114,29 +277,45 @@ async function startServer() {
     // Connect to database
     await connectDatabase();
     
+    // Make sure the full-text search index exists and is up to date
+    await new SearchService(prisma).ensureIndex();
+    
+    // Compute related posts for posts written before similarities were stored
+    await new RelatedPostsService(prisma).ensureSimilarities();
+    
+    // Start publishing scheduled posts
+    publishScheduler.start();
+    
+    // Start importing from external feeds
+    sourcePoller.start();
+    
+    // Start sending new-post digests
+    if (digestIntervalHours !== 0) {
+      digestScheduler.start();
+    }
+    
+    // Start checking resource links
+    if (linkCheckIntervalHours !== 0) {
+      linkCheckScheduler.start();
+    }
+    
     // Start listening
     app.listen(port, () => {
-      console.log('\n🚀 Teacher AI Academy Backend Server Started');
-      console.log(`📍 Port: ${port}`);
-      console.log(`🗄️  Database: ${process.env.DB_PATH || './data/blog.sqlite3'}`);
-      console.log(`🌐 Allowed Origin: ${feOrigin}`);
-      console.log(`🔐 Admin Token: ${process.env.ADMIN_BEARER_TOKEN ? 'Set' : 'Not Set'}`);
-      console.log(`🔗 n8n Webhook Secret: ${process.env.N8N_WEBHOOK_SECRET ? 'Set' : 'Not Set'}`);
-      console.log(`\n📡 API Endpoints:`);
-      console.log(`   GET  /api/health`);
-      console.log(`   GET  /api/posts`);
-      console.log(`   GET  /api/posts/:slug`);
-      console.log(`   GET  /api/rss`);
-      console.log(`   POST /api/admin/posts (requires Bearer token)`);
-      console.log(`   PUT  /api/admin/posts/:id (requires Bearer token)`);
-      console.log(`   DELETE /api/admin/posts/:id (requires Bearer token)`);
-      console.log(`   POST /api/webhook/n8n (requires x-n8n-secret header)`);
-      console.log(`\n🔗 Frontend Integration:`);
-      console.log(`   Blog page: ${feOrigin}/blog.html`);
-      console.log(`   RSS feed: http://localhost:${port}/api/rss`);
+      logger.info('Server started', {
+        port: Number(port),
+        database: process.env.DB_PATH || './data/blog.sqlite3',
+        allowedOrigin: feOrigin,
+        sessionTtlHours: Number(process.env.SESSION_TTL_HOURS || 12),
+        webhookSecret: Boolean(process.env.N8N_WEBHOOK_SECRET),
+        webhookAuth: process.env.N8N_WEBHOOK_AUTH_MODE || 'hmac',
+        mailTransport: mailTransport.name,
+        contactNotifyTo: Boolean(process.env.CONTACT_NOTIFY_TO),
+        publishWebhook: Boolean(process.env.PUBLISH_WEBHOOK_URL),
+        metricsToken: Boolean(process.env.METRICS_TOKEN),
+      });
     });
   } catch (error) {
-    console.error('❌ Failed to start server:', error);
+    logger.error('Failed to start server', { error });
     process.exit(1);
   }
 }
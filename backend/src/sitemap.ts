@@ -0,0 +1,33 @@
+import { escapeHtml } from './templates';
+
+export interface SitemapEntry {
+  loc: string;
+  lastmod?: Date | undefined;
+  changefreq?: 'daily' | 'weekly' | 'monthly' | undefined;
+  priority?: number | undefined;
+}
+
+// sitemaps.org XML for the given URLs
+export function buildSitemap(entries: SitemapEntry[]): string {
+  const urls = entries.map(entry => {
+    const fields = [`    <loc>${escapeHtml(entry.loc)}</loc>`];
+    if (entry.lastmod) {
+      fields.push(`    <lastmod>${entry.lastmod.toISOString()}</lastmod>`);
+    }
+    if (entry.changefreq) {
+      fields.push(`    <changefreq>${entry.changefreq}</changefreq>`);
+    }
+    if (entry.priority !== undefined) {
+      fields.push(`    <priority>${entry.priority.toFixed(1)}</priority>`);
+    }
+    return `  <url>\n${fields.join('\n')}\n  </url>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls,
+    '</urlset>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,20 @@
+import { z } from 'zod';
+
+// Slugs name the exported pages (blog-posts/<slug>.html, curriculum/<slug>.html),
+// so only lowercase letters and digits in dash-separated words are allowed
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export function isValidSlug(slug: string): boolean {
+  return SLUG_PATTERN.test(slug);
+}
+
+export const slugSchema = z.string().regex(SLUG_PATTERN, 'Slug may only contain lowercase letters and digits, separated by single dashes');
+
+// Derive a slug from a title, e.g. "Hello, World!" -> "hello-world"; empty if nothing is left
+export function slugify(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .replace(/[\s-]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
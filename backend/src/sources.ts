@@ -0,0 +1,334 @@
+import { Prisma, PrismaClient, PostStatus, Source, SourceFetch } from '@prisma/client';
+import { PostsService, PostWithTags } from './posts';
+import { feedActor } from './revisions';
+import { escapeHtml } from './templates';
+import { FeedEntry, FeedError, fetchFeed } from './feed-reader';
+import { logger } from './logger';
+
+// New entries imported per fetch; the rest follow on the next poll
+const MAX_IMPORTS_PER_FETCH = 25;
+
+// Failing sources are retried less often, up to 2^4 times their interval
+const MAX_BACKOFF_EXPONENT = 4;
+
+const SUMMARY_LENGTH = 300;
+
+// Fetches kept in the log of each source
+const FETCH_LOG_SIZE = 100;
+
+export interface SourceWithTags extends Omit<Source, 'defaultTags'> {
+  defaultTags: string[];
+}
+
+export interface CreateSourceData {
+  name: string;
+  feedUrl: string;
+  intervalMinutes?: number | undefined;
+  defaultTags?: string[] | undefined;
+  enabled?: boolean | undefined;
+}
+
+export type UpdateSourceData = Partial<CreateSourceData>;
+
+export interface SourceFetchResult {
+  ok: boolean;
+  notModified: boolean;
+  itemsFound: number;
+  imported: PostWithTags[];
+  error: string | null;
+}
+
+export class SourcesService {
+  private postsService: PostsService;
+  private timeoutMs: number;
+
+  constructor(private prisma: PrismaClient) {
+    this.postsService = new PostsService(prisma);
+    this.timeoutMs = parseInt(process.env.SOURCE_FETCH_TIMEOUT_MS || '', 10) || 15000;
+  }
+
+  private parseTags(tagsJson: string): string[] {
+    try {
+      return JSON.parse(tagsJson);
+    } catch {
+      return [];
+    }
+  }
+
+  private toSourceWithTags(source: Source): SourceWithTags {
+    return {
+      ...source,
+      defaultTags: this.parseTags(source.defaultTags),
+    };
+  }
+
+  async createSource(data: CreateSourceData): Promise<SourceWithTags> {
+    const source = await this.prisma.source.create({
+      data: {
+        name: data.name,
+        feedUrl: data.feedUrl,
+        intervalMinutes: data.intervalMinutes,
+        defaultTags: JSON.stringify(data.defaultTags || []),
+        enabled: data.enabled,
+      },
+    });
+
+    return this.toSourceWithTags(source);
+  }
+
+  async updateSource(id: string, data: UpdateSourceData): Promise<SourceWithTags> {
+    const updateData: Prisma.SourceUpdateInput = {};
+
+    if (data.name !== undefined) {
+      updateData.name = data.name;
+    }
+    if (data.feedUrl !== undefined) {
+      updateData.feedUrl = data.feedUrl;
+    }
+    if (data.intervalMinutes !== undefined) {
+      updateData.intervalMinutes = data.intervalMinutes;
+    }
+    if (data.enabled !== undefined) {
+      updateData.enabled = data.enabled;
+    }
+    if (data.defaultTags) {
+      updateData.defaultTags = JSON.stringify(data.defaultTags);
+    }
+
+    // A new URL starts over: no cached validators and no error streak
+    if (data.feedUrl) {
+      updateData.etag = null;
+      updateData.lastModified = null;
+      updateData.errorCount = 0;
+      updateData.lastError = null;
+      updateData.nextFetchAt = new Date();
+    }
+
+    const source = await this.prisma.source.update({
+      where: { id },
+      data: updateData,
+    });
+
+    return this.toSourceWithTags(source);
+  }
+
+  async deleteSource(id: string): Promise<void> {
+    await this.prisma.source.delete({
+      where: { id },
+    });
+  }
+
+  async getSources(): Promise<SourceWithTags[]> {
+    const sources = await this.prisma.source.findMany({
+      orderBy: { name: 'asc' },
+    });
+
+    return sources.map(source => this.toSourceWithTags(source));
+  }
+
+  async getSourceById(id: string): Promise<SourceWithTags | null> {
+    const source = await this.prisma.source.findUnique({
+      where: { id },
+    });
+
+    return source ? this.toSourceWithTags(source) : null;
+  }
+
+  // Fetch log of a source, newest first
+  async getFetches(sourceId: string, options: { errorsOnly?: boolean; limit?: number } = {}): Promise<SourceFetch[]> {
+    return this.prisma.sourceFetch.findMany({
+      where: {
+        sourceId,
+        ...(options.errorsOnly ? { ok: false } : {}),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: options.limit || 50,
+    });
+  }
+
+  // Enabled sources whose next fetch is due
+  async getDueSources(now: Date = new Date()): Promise<SourceWithTags[]> {
+    const sources = await this.prisma.source.findMany({
+      where: {
+        enabled: true,
+        nextFetchAt: { lte: now },
+      },
+      orderBy: { nextFetchAt: 'asc' },
+    });
+
+    return sources.map(source => this.toSourceWithTags(source));
+  }
+
+  // Fetch a source now, import its new entries as drafts and log the result
+  async fetchSource(source: SourceWithTags): Promise<SourceFetchResult> {
+    const startedAt = Date.now();
+    let statusCode: number | null = null;
+    let result: SourceFetchResult;
+
+    try {
+      const response = await fetchFeed(source.feedUrl, {
+        etag: source.etag,
+        lastModified: source.lastModified,
+        timeoutMs: this.timeoutMs,
+      });
+      statusCode = response.statusCode;
+
+      if (response.notModified) {
+        result = { ok: true, notModified: true, itemsFound: 0, imported: [], error: null };
+      } else {
+        const imported = await this.importEntries(source, response.feed.entries);
+        result = { ok: true, notModified: false, itemsFound: response.feed.entries.length, imported, error: null };
+
+        // When the import limit was hit, the feed must not come back as 304
+        // next time, or the remaining entries would never be imported
+        const complete = imported.length < MAX_IMPORTS_PER_FETCH;
+        await this.prisma.source.update({
+          where: { id: source.id },
+          data: {
+            etag: complete ? response.etag : null,
+            lastModified: complete ? response.lastModified : null,
+          },
+        });
+      }
+    } catch (error) {
+      if (error instanceof FeedError) {
+        statusCode = error.statusCode;
+      } else {
+        logger.error('Error importing source', { feedUrl: source.feedUrl, error });
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      result = { ok: false, notModified: false, itemsFound: 0, imported: [], error: message };
+    }
+
+    const errorCount = result.ok ? 0 : source.errorCount + 1;
+    const backoff = 2 ** Math.min(errorCount, MAX_BACKOFF_EXPONENT);
+    const now = new Date();
+
+    await this.prisma.source.update({
+      where: { id: source.id },
+      data: {
+        lastFetchedAt: now,
+        nextFetchAt: new Date(now.getTime() + source.intervalMinutes * backoff * 60 * 1000),
+        lastError: result.error,
+        errorCount,
+      },
+    });
+
+    await this.prisma.sourceFetch.create({
+      data: {
+        sourceId: source.id,
+        ok: result.ok,
+        statusCode,
+        itemsFound: result.itemsFound,
+        imported: result.imported.length,
+        error: result.error,
+        durationMs: Date.now() - startedAt,
+      },
+    });
+
+    const stale = await this.prisma.sourceFetch.findMany({
+      where: { sourceId: source.id },
+      orderBy: { createdAt: 'desc' },
+      skip: FETCH_LOG_SIZE,
+      select: { id: true },
+    });
+    if (stale.length > 0) {
+      await this.prisma.sourceFetch.deleteMany({ where: { id: { in: stale.map(fetch => fetch.id) } } });
+    }
+
+    return result;
+  }
+
+  // Create drafts for entries not seen before. An entry is a duplicate when
+  // this source already imported its guid, or any post links to its URL.
+  private async importEntries(source: SourceWithTags, entries: FeedEntry[]): Promise<PostWithTags[]> {
+    const imported: PostWithTags[] = [];
+
+    // Feeds list the newest entries first; import oldest first
+    for (const entry of [...entries].reverse()) {
+      if (imported.length >= MAX_IMPORTS_PER_FETCH) {
+        break;
+      }
+
+      if (!entry.title) {
+        continue;
+      }
+
+      const seen = await this.prisma.sourceItem.findUnique({
+        where: { sourceId_guid: { sourceId: source.id, guid: entry.guid } },
+      });
+      if (seen) {
+        continue;
+      }
+
+      const existing = entry.url
+        ? await this.prisma.post.findFirst({ where: { sourceUrl: entry.url }, select: { id: true } })
+        : null;
+
+      let postId = existing?.id ?? null;
+      if (!existing) {
+        const post = await this.postsService.createPost(
+          {
+            title: entry.title,
+            slug: await this.uniqueSlug(entry.title),
+            summary: this.summaryFor(entry),
+            contentHtml: this.contentFor(entry),
+            ...(entry.imageUrl ? { imageUrl: entry.imageUrl } : {}),
+            ...(entry.url ? { sourceUrl: entry.url } : {}),
+            tags: source.defaultTags,
+            status: PostStatus.DRAFT,
+          },
+          feedActor(source)
+        );
+        imported.push(post);
+        postId = post.id;
+      }
+
+      await this.prisma.sourceItem.create({
+        data: {
+          sourceId: source.id,
+          guid: entry.guid,
+          url: entry.url,
+          postId,
+        },
+      });
+    }
+
+    return imported;
+  }
+
+  private summaryFor(entry: FeedEntry): string {
+    const text = (entry.summary || entry.contentHtml)
+      .replace(/<[^>]*>/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    return text.length > SUMMARY_LENGTH ? `${text.slice(0, SUMMARY_LENGTH - 1).trimEnd()}…` : text;
+  }
+
+  // Feed HTML is sanitized by PostsService; a link back to the original is
+  // appended so editors can check the source while reviewing the draft
+  private contentFor(entry: FeedEntry): string {
+    const content = entry.contentHtml || (entry.summary ? `<p>${escapeHtml(entry.summary)}</p>` : '');
+    if (!entry.url) {
+      return content;
+    }
+
+    const url = escapeHtml(entry.url);
+    return `${content}\n<p>Originally published at <a href="${url}">${url}</a></p>`;
+  }
+
+  // Feed titles often repeat, e.g. weekly round-ups; number the slugs
+  private async uniqueSlug(title: string): Promise<string> {
+    const base = this.postsService.generateSlug(title) || 'imported-post';
+
+    for (let attempt = 1; ; attempt++) {
+      const slug = attempt === 1 ? base : `${base}-${attempt}`;
+      const taken = await this.prisma.post.findUnique({ where: { slug }, select: { id: true } });
+      if (!taken) {
+        return slug;
+      }
+    }
+  }
+}
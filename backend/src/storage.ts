@@ -0,0 +1,76 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+// Where uploaded media files are kept. Keys look like "<folder>/<name>"
+// and are never reused, so stored files can be cached forever.
+export interface MediaStorage {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+  // Public URL of a stored file
+  url(key: string): string;
+}
+
+const KEY_PATTERN = /^[a-z0-9]+\/[a-z0-9-]+\.[a-z0-9]+$/;
+
+export function isValidKey(key: string): boolean {
+  return KEY_PATTERN.test(key);
+}
+
+export class StorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+// Files on local disk, served by the /media route
+export class LocalDiskStorage implements MediaStorage {
+  constructor(private root: string, private baseUrl: string) {}
+
+  private filePath(key: string): string {
+    if (!isValidKey(key)) {
+      throw new StorageError(`Invalid storage key: ${key}`);
+    }
+    return path.join(this.root, key);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.filePath(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, data);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.filePath(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true });
+
+    // Remove the media folder once its last file is gone
+    await fs.rmdir(path.dirname(this.filePath(key))).catch(() => undefined);
+  }
+
+  url(key: string): string {
+    return `${this.baseUrl}/${key}`;
+  }
+}
+
+export function createMediaStorage(): MediaStorage {
+  const siteBaseUrl = process.env.SITE_BASE_URL || 'http://localhost:8080';
+  const baseUrl = (process.env.MEDIA_BASE_URL || `${siteBaseUrl}/media`).replace(/\/$/, '');
+  const root = path.resolve(process.env.MEDIA_DIR || './data/media');
+
+  return new LocalDiskStorage(root, baseUrl);
+}
+
+// Shared storage for uploads, posts and the /media route
+export const mediaStorage = createMediaStorage();
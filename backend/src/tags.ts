@@ -0,0 +1,132 @@
+import { PrismaClient, Post, PostStatus, Tag } from '@prisma/client';
+
+export interface TagWithCount {
+  slug: string;
+  name: string;
+  postCount: number;
+}
+
+export type PostWithTagRelations = Post & {
+  tags: { position: number; tag: Tag }[];
+};
+
+// Include clause that loads a post's tags in their original order
+export const postTagsInclude = {
+  tags: {
+    include: { tag: true },
+    orderBy: { position: 'asc' as const },
+  },
+};
+
+// Normalize a tag name to its slug, e.g. "Lesson Planning" -> "lesson-planning".
+// Accents are dropped ("Éducation" -> "education"); letters of other scripts,
+// with their vowel signs, are kept ("日本語 教育" -> "日本語-教育").
+export function normalizeTag(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .normalize('NFC')
+    .toLowerCase()
+    .trim()
+    .replace(/[^\p{L}\p{M}\p{N}\s-]/gu, '')
+    .replace(/[\s_]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+// Tag names of a post loaded with postTagsInclude
+export function tagNames(post: Pick<PostWithTagRelations, 'tags'>): string[] {
+  return post.tags.map(postTag => postTag.tag.name);
+}
+
+// Nested create input linking a post to tags, creating missing tags on the way
+export function tagsCreateInput(names: string[]) {
+  const seen = new Set<string>();
+  const tags: { slug: string; name: string }[] = [];
+
+  for (const name of names) {
+    const slug = normalizeTag(name);
+    if (slug && !seen.has(slug)) {
+      seen.add(slug);
+      tags.push({ slug, name: name.trim() });
+    }
+  }
+
+  return tags.map((tag, position) => ({
+    position,
+    tag: {
+      connectOrCreate: {
+        where: { slug: tag.slug },
+        create: tag,
+      },
+    },
+  }));
+}
+
+export class TagsService {
+  constructor(private prisma: PrismaClient) {}
+
+  async getTagBySlug(slug: string): Promise<Tag | null> {
+    return this.prisma.tag.findUnique({
+      where: { slug: normalizeTag(slug) },
+    });
+  }
+
+  // All tags with the number of live posts using them, most used first
+  async getTagsWithCounts(): Promise<TagWithCount[]> {
+    const tags = await this.prisma.tag.findMany({
+      include: {
+        _count: {
+          select: {
+            posts: {
+              where: {
+                post: {
+                  status: PostStatus.PUBLISHED,
+                  publishedAt: { lte: new Date() },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    return tags
+      .map(tag => ({
+        slug: tag.slug,
+        name: tag.name,
+        postCount: tag._count.posts,
+      }))
+      .filter(tag => tag.postCount > 0)
+      .sort((a, b) => b.postCount - a.postCount || a.slug.localeCompare(b.slug));
+  }
+
+  // Move tags from the legacy JSON column into the Tag tables
+  async migrateLegacyTags(): Promise<number> {
+    const posts = await this.prisma.post.findMany({
+      where: { legacyTags: { not: '[]' } },
+    });
+
+    for (const post of posts) {
+      let names: string[] = [];
+      try {
+        names = JSON.parse(post.legacyTags);
+      } catch {
+        names = [];
+      }
+
+      await this.prisma.post.update({
+        where: { id: post.id },
+        data: {
+          legacyTags: '[]',
+          tags: {
+            deleteMany: {},
+            create: tagsCreateInput(Array.isArray(names) ? names : []),
+          },
+        },
+      });
+    }
+
+    return posts.length;
+  }
+}
@@ -0,0 +1,40 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+// HTML templates live in the site root, next to blog.html
+const templatesDir = path.resolve(process.env.TEMPLATES_DIR || '..');
+
+const cache = new Map<string, string>();
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Templates are re-read on every render outside production so edits show up immediately
+export async function loadTemplate(name: string): Promise<string> {
+  const cached = cache.get(name);
+  if (cached) {
+    return cached;
+  }
+
+  const template = await fs.readFile(path.join(templatesDir, name), 'utf8');
+  if (process.env.NODE_ENV === 'production') {
+    cache.set(name, template);
+  }
+
+  return template;
+}
+
+// Replace {{KEY}} placeholders. Values are HTML-escaped, except for keys
+// ending in _HTML, which must already be safe markup.
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{([A-Z0-9_]+)\}\}/g, (_match, key: string) => {
+    const value = values[key] ?? '';
+    return key.endsWith('_HTML') ? value : escapeHtml(value);
+  });
+}
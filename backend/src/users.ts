@@ -0,0 +1,320 @@
+import { Prisma, PrismaClient, User, UserRole, ApiToken } from '@prisma/client';
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { responseCache } from './cache';
+import { DEFAULT_AUTHOR } from './posts';
+import { slugify } from './slugs';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const SESSION_TOKEN_PREFIX = 'tia_s_';
+const API_TOKEN_PREFIX = 'tia_pat_';
+const SCRYPT_KEY_LENGTH = 64;
+
+export type PublicUser = Omit<User, 'passwordHash'>;
+
+export type PublicApiToken = Omit<ApiToken, 'tokenHash'>;
+
+export interface CreateUserData {
+  email: string;
+  name: string;
+  password: string;
+  role?: UserRole | undefined;
+}
+
+export interface UpdateUserData {
+  name?: string | undefined;
+  password?: string | undefined;
+  role?: UserRole | undefined;
+  disabled?: boolean | undefined;
+}
+
+export interface LoginResult {
+  token: string;
+  expiresAt: Date;
+  user: PublicUser;
+}
+
+// Password hashing: scrypt with a random salt, stored as "salt:hash" in hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, SCRYPT_KEY_LENGTH);
+  return `${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [saltHex, hashHex] = stored.split(':');
+  if (!saltHex || !hashHex) {
+    return false;
+  }
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scrypt(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+// Tokens are only ever stored as SHA-256 hashes
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function generateToken(prefix: string): string {
+  return prefix + crypto.randomBytes(32).toString('base64url');
+}
+
+export class UsersService {
+  constructor(private prisma: PrismaClient) {}
+
+  private sessionTtlMs(): number {
+    const hours = parseInt(process.env.SESSION_TTL_HOURS || '', 10) || 12;
+    return hours * 60 * 60 * 1000;
+  }
+
+  toPublicUser(user: User): PublicUser {
+    const { passwordHash: _passwordHash, ...rest } = user;
+    return rest;
+  }
+
+  private toPublicApiToken(apiToken: ApiToken): PublicApiToken {
+    const { tokenHash: _tokenHash, ...rest } = apiToken;
+    return rest;
+  }
+
+  async createUser(data: CreateUserData): Promise<PublicUser> {
+    const user = await this.prisma.user.create({
+      data: {
+        email: data.email.toLowerCase(),
+        name: data.name,
+        passwordHash: await hashPassword(data.password),
+        role: data.role || UserRole.AUTHOR,
+      },
+    });
+
+    return this.toPublicUser(user);
+  }
+
+  async updateUser(id: string, data: UpdateUserData): Promise<PublicUser> {
+    const { password } = data;
+    const updateData: Prisma.UserUpdateInput = {};
+
+    if (data.name !== undefined) {
+      updateData.name = data.name;
+    }
+    if (data.role !== undefined) {
+      updateData.role = data.role;
+    }
+    if (data.disabled !== undefined) {
+      updateData.disabled = data.disabled;
+    }
+    if (password) {
+      updateData.passwordHash = await hashPassword(password);
+    }
+
+    const user = await this.prisma.user.update({
+      where: { id },
+      data: updateData,
+    });
+
+    // Disabling a user or changing their password ends their sessions
+    if (password || data.disabled) {
+      await this.prisma.session.deleteMany({ where: { userId: id } });
+    }
+
+    // Public posts show the author's name
+    if (data.name) {
+      responseCache.invalidate();
+    }
+
+    return this.toPublicUser(user);
+  }
+
+  async deleteUser(id: string): Promise<void> {
+    await this.prisma.user.delete({
+      where: { id },
+    });
+    responseCache.invalidate();
+  }
+
+  async getUsers(): Promise<PublicUser[]> {
+    const users = await this.prisma.user.findMany({
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return users.map(user => this.toPublicUser(user));
+  }
+
+  async getUserById(id: string): Promise<PublicUser | null> {
+    const user = await this.prisma.user.findUnique({
+      where: { id },
+    });
+
+    return user ? this.toPublicUser(user) : null;
+  }
+
+  // Check credentials and start a new session
+  async login(email: string, password: string): Promise<LoginResult | null> {
+    const user = await this.prisma.user.findUnique({
+      where: { email: email.toLowerCase() },
+    });
+
+    if (!user || user.disabled || !(await verifyPassword(password, user.passwordHash))) {
+      return null;
+    }
+
+    const token = generateToken(SESSION_TOKEN_PREFIX);
+    const expiresAt = new Date(Date.now() + this.sessionTtlMs());
+
+    await this.prisma.session.create({
+      data: {
+        tokenHash: hashToken(token),
+        userId: user.id,
+        expiresAt,
+      },
+    });
+
+    return { token, expiresAt, user: this.toPublicUser(user) };
+  }
+
+  async logout(token: string): Promise<void> {
+    await this.prisma.session.deleteMany({
+      where: { tokenHash: hashToken(token) },
+    });
+  }
+
+  // Resolve a bearer token (session or API token) to its user
+  async authenticate(token: string): Promise<PublicUser | null> {
+    const tokenHash = hashToken(token);
+    const now = new Date();
+
+    if (token.startsWith(SESSION_TOKEN_PREFIX)) {
+      const session = await this.prisma.session.findUnique({
+        where: { tokenHash },
+        include: { user: true },
+      });
+
+      if (!session || session.expiresAt <= now || session.user.disabled) {
+        return null;
+      }
+
+      return this.toPublicUser(session.user);
+    }
+
+    if (token.startsWith(API_TOKEN_PREFIX)) {
+      const apiToken = await this.prisma.apiToken.findUnique({
+        where: { tokenHash },
+        include: { user: true },
+      });
+
+      if (
+        !apiToken ||
+        apiToken.revokedAt ||
+        (apiToken.expiresAt && apiToken.expiresAt <= now) ||
+        apiToken.user.disabled
+      ) {
+        return null;
+      }
+
+      await this.prisma.apiToken.update({
+        where: { id: apiToken.id },
+        data: { lastUsedAt: now },
+      });
+
+      return this.toPublicUser(apiToken.user);
+    }
+
+    return null;
+  }
+
+  // Create an API token; the plain token is only returned here
+  async createApiToken(
+    userId: string,
+    name: string,
+    expiresAt?: Date
+  ): Promise<{ token: string; apiToken: PublicApiToken }> {
+    const token = generateToken(API_TOKEN_PREFIX);
+
+    const apiToken = await this.prisma.apiToken.create({
+      data: {
+        name,
+        tokenHash: hashToken(token),
+        tokenPrefix: token.substring(0, API_TOKEN_PREFIX.length + 6),
+        userId,
+        expiresAt: expiresAt ?? null,
+      },
+    });
+
+    return { token, apiToken: this.toPublicApiToken(apiToken) };
+  }
+
+  async getApiTokens(userId: string): Promise<PublicApiToken[]> {
+    const apiTokens = await this.prisma.apiToken.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return apiTokens.map(apiToken => this.toPublicApiToken(apiToken));
+  }
+
+  // Revoke one of the user's API tokens; returns false if it does not exist
+  async revokeApiToken(userId: string, id: string): Promise<boolean> {
+    const result = await this.prisma.apiToken.updateMany({
+      where: { id, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    return result.count > 0;
+  }
+
+  // Posts from before user accounts keep a free-text author in the legacy
+  // author column. Link each to the user of that name, creating a disabled
+  // user for names without one, and reset the column; returns the posts moved.
+  async migrateLegacyAuthors(): Promise<number> {
+    const posts = await this.prisma.post.findMany({
+      where: { legacyAuthor: { not: DEFAULT_AUTHOR } },
+      select: { id: true, authorId: true, legacyAuthor: true },
+    });
+
+    const authorIds = new Map<string, string>();
+    for (const post of posts) {
+      const name = post.legacyAuthor.trim();
+      let authorId = post.authorId;
+
+      if (!authorId && name) {
+        authorId = authorIds.get(name) ?? (await this.legacyAuthorId(name));
+        authorIds.set(name, authorId);
+      }
+
+      await this.prisma.post.update({
+        where: { id: post.id },
+        data: { authorId, legacyAuthor: DEFAULT_AUTHOR },
+      });
+    }
+
+    return posts.length;
+  }
+
+  // Legacy authors have no email or password, so their users get a
+  // placeholder address and a random password, and are disabled
+  private async legacyAuthorId(name: string): Promise<string> {
+    const existing = await this.prisma.user.findFirst({
+      where: { name },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true },
+    });
+
+    if (existing) {
+      return existing.id;
+    }
+
+    const user = await this.prisma.user.create({
+      data: {
+        email: `${slugify(name) || 'author'}-${crypto.randomBytes(4).toString('hex')}@legacy-authors.invalid`,
+        name,
+        passwordHash: await hashPassword(crypto.randomBytes(32).toString('base64url')),
+        disabled: true,
+      },
+    });
+
+    return user.id;
+  }
+}
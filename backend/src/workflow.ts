@@ -0,0 +1,44 @@
+import { PostStatus, RevisionSource } from '@prisma/client';
+import { ApiError } from './errors';
+
+// Editorial workflow: which status a post may move to from its current one
+export const ALLOWED_TRANSITIONS: Record<PostStatus, PostStatus[]> = {
+  [PostStatus.DRAFT]: [PostStatus.IN_REVIEW, PostStatus.PUBLISHED, PostStatus.ARCHIVED],
+  [PostStatus.IN_REVIEW]: [PostStatus.PUBLISHED, PostStatus.CHANGES_REQUESTED, PostStatus.DRAFT, PostStatus.ARCHIVED],
+  [PostStatus.CHANGES_REQUESTED]: [PostStatus.IN_REVIEW, PostStatus.DRAFT, PostStatus.ARCHIVED],
+  [PostStatus.PUBLISHED]: [PostStatus.IN_REVIEW, PostStatus.DRAFT, PostStatus.ARCHIVED],
+  [PostStatus.ARCHIVED]: [PostStatus.DRAFT],
+};
+
+export class InvalidTransitionError extends ApiError {
+  constructor(public from: PostStatus, public to: PostStatus) {
+    super(`Invalid status transition from ${from} to ${to}`, 409, 'INVALID_TRANSITION');
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+export function canTransition(from: PostStatus, to: PostStatus): boolean {
+  return from === to || ALLOWED_TRANSITIONS[from].includes(to);
+}
+
+export function assertTransition(from: PostStatus, to: PostStatus): void {
+  if (!canTransition(from, to)) {
+    throw new InvalidTransitionError(from, to);
+  }
+}
+
+// Status that posts from each source land in when none is given.
+// Webhook content goes to review unless WEBHOOK_POST_STATUS says otherwise;
+// articles imported from feeds always start as drafts.
+export function defaultStatusFor(source: RevisionSource): PostStatus {
+  if (source === RevisionSource.FEED) {
+    return PostStatus.DRAFT;
+  }
+
+  if (source === RevisionSource.WEBHOOK) {
+    const configured = process.env.WEBHOOK_POST_STATUS as PostStatus | undefined;
+    return configured && configured in PostStatus ? configured : PostStatus.IN_REVIEW;
+  }
+
+  return PostStatus.PUBLISHED;
+}
@@ -0,0 +1,36 @@
+#!/usr/bin/env tsx
+
+/**
+ * Runs every test-*.ts suite, each in its own process, and fails if any
+ * of them fails. None of them needs a database, a running server or
+ * network access; test-api.js smoke-tests a running server instead.
+ */
+
+import fs from 'fs';
+import { spawnSync } from 'child_process';
+
+const NOT_SUITES = ['test-all.ts', 'test-runner.ts'];
+
+const suites = fs.readdirSync(__dirname)
+  .filter(file => /^test-.+\.ts$/.test(file) && !NOT_SUITES.includes(file))
+  .sort();
+
+const failedSuites: string[] = [];
+
+for (const suite of suites) {
+  console.log(`\n▶️  ${suite}\n`);
+  const result = spawnSync(process.execPath, ['--import', 'tsx', suite], {
+    cwd: __dirname,
+    stdio: 'inherit',
+  });
+
+  if (result.status !== 0) {
+    failedSuites.push(suite);
+  }
+}
+
+console.log(`\n📊 ${suites.length - failedSuites.length} of ${suites.length} suites passed`);
+if (failedSuites.length > 0) {
+  console.log(`❌ Failed: ${failedSuites.join(', ')}`);
+  process.exit(1);
+}
@@ -0,0 +1,111 @@
+#!/usr/bin/env tsx
+
+/**
+ * View analytics test script
+ * Checks view deduplication and report ranges, so no database or
+ * running server is needed
+ */
+
+import { AnalyticsError, ViewDeduper, parseRange, parseWindow, windowRange } from './src/analytics';
+import { csvRows } from './src/csv';
+import { exitWith, runTestCases } from './test-runner';
+
+const VISITOR = { ip: '203.0.113.7', userAgent: 'Mozilla/5.0 (Macintosh)' };
+const NOW = new Date('2024-03-10T15:30:00Z');
+
+function throwsAnalyticsError(fn: () => unknown): boolean {
+  try {
+    fn();
+    return false;
+  } catch (error) {
+    return error instanceof AnalyticsError && error.statusCode === 400;
+  }
+}
+
+async function runTests() {
+  console.log('🧪 Testing view analytics\n');
+
+  const tests = [
+    {
+      name: 'Repeat View Same Day',
+      test: async () => {
+        const deduper = new ViewDeduper();
+        const first = deduper.isRepeat(VISITOR, 'post1', NOW);
+        const second = deduper.isRepeat(VISITOR, 'post1', new Date('2024-03-10T23:59:00Z'));
+        return first === false && second === true;
+      },
+    },
+    {
+      name: 'Other Post or Visitor',
+      test: async () => {
+        const deduper = new ViewDeduper();
+        deduper.isRepeat(VISITOR, 'post1', NOW);
+        return deduper.isRepeat(VISITOR, 'post2', NOW) === false &&
+          deduper.isRepeat({ ...VISITOR, ip: '203.0.113.8' }, 'post1', NOW) === false &&
+          deduper.isRepeat({ ...VISITOR, userAgent: 'Mozilla/5.0 (Windows)' }, 'post1', NOW) === false;
+      },
+    },
+    {
+      name: 'Salt Rotates Daily',
+      test: async () => {
+        const deduper = new ViewDeduper();
+        deduper.isRepeat(VISITOR, 'post1', NOW);
+        return deduper.isRepeat(VISITOR, 'post1', new Date('2024-03-11T00:00:01Z')) === false;
+      },
+    },
+    {
+      name: 'Visitor Limit',
+      test: async () => {
+        const deduper = new ViewDeduper(1);
+        deduper.isRepeat(VISITOR, 'post1', NOW);
+        deduper.isRepeat(VISITOR, 'post2', NOW);
+        // post2 was not remembered, so it counts again
+        return deduper.isRepeat(VISITOR, 'post1', NOW) === true &&
+          deduper.isRepeat(VISITOR, 'post2', NOW) === false;
+      },
+    },
+    {
+      name: 'Windows',
+      test: async () => {
+        const range = windowRange(parseWindow('7d'), NOW);
+        return range.from === '2024-03-04' && range.to === '2024-03-10' &&
+          parseWindow('1d') === 1 &&
+          throwsAnalyticsError(() => parseWindow('0d')) &&
+          throwsAnalyticsError(() => parseWindow('7')) &&
+          throwsAnalyticsError(() => parseWindow('400d'));
+      },
+    },
+    {
+      name: 'Report Ranges',
+      test: async () => {
+        const defaults = parseRange({}, NOW);
+        const explicit = parseRange({ from: '2024-02-01', to: '2024-02-29' }, NOW);
+        return defaults.from === '2024-02-10' && defaults.to === '2024-03-10' &&
+          explicit.from === '2024-02-01' && explicit.to === '2024-02-29' &&
+          parseRange({ window: '1d' }, NOW).from === '2024-03-10';
+      },
+    },
+    {
+      name: 'Invalid Ranges',
+      test: async () => {
+        return throwsAnalyticsError(() => parseRange({ from: '2024-02-30' }, NOW)) &&
+          throwsAnalyticsError(() => parseRange({ from: 'yesterday' }, NOW)) &&
+          throwsAnalyticsError(() => parseRange({ from: '2024-03-05', to: '2024-03-01' }, NOW)) &&
+          throwsAnalyticsError(() => parseRange({ from: '2022-01-01', to: '2024-01-01' }, NOW));
+      },
+    },
+    {
+      name: 'CSV Rows',
+      test: async () => {
+        const csv = csvRows(['day', 'title', 'views'], [['2024-03-10', '=Quotes, "and" formulas', 3]]);
+        return csv === 'day,title,views\r\n2024-03-10,"\'=Quotes, ""and"" formulas",3\r\n';
+      },
+    },
+  ];
+
+  const failed = await runTestCases(tests);
+
+  return failed;
+}
+
+runTests().then(exitWith);
@@ -31,9 +31,9 @@ function makeRequest(path, options = {}) {
       res.on('end', () => {
         try {
           const jsonData = JSON.parse(data);
-          resolve({ status: res.statusCode, data: jsonData });
+          resolve({ status: res.statusCode, headers: res.headers, data: jsonData });
         } catch (error) {
-          resolve({ status: res.statusCode, data: data });
+          resolve({ status: res.statusCode, headers: res.headers, data: data });
         }
       });
     });
@@ -58,7 +58,47 @@ async function runTests() {
       name: 'Health Check',
       test: async () => {
         const result = await makeRequest('/api/health');
-        return result.status === 200 && result.data.ok === true;
+        return result.status === 200 && result.data.success === true && result.data.data.status === 'ok';
+      },
+    },
+    {
+      name: 'Request ID Header',
+      test: async () => {
+        const generated = await makeRequest('/api/health');
+        const passed = await makeRequest('/api/health', { headers: { 'X-Request-ID': 'smoke-test-1' } });
+        return Boolean(generated.headers['x-request-id']) && passed.headers['x-request-id'] === 'smoke-test-1';
+      },
+    },
+    {
+      name: 'Metrics',
+      test: async () => {
+        const result = await makeRequest('/metrics');
+        // 401 when the server is started with METRICS_TOKEN
+        return result.status === 401 ||
+          (result.status === 200 && String(result.data).includes('http_requests_total'));
+      },
+    },
+    {
+      name: 'Error Envelope',
+      test: async () => {
+        const result = await makeRequest('/api/no-such-endpoint');
+        return result.status === 404 && result.data.success === false &&
+          result.data.code === 'NOT_FOUND' && result.data.requestId === result.headers['x-request-id'];
+      },
+    },
+    {
+      name: 'OpenAPI Document',
+      test: async () => {
+        const result = await makeRequest('/api/openapi.json');
+        return result.status === 200 && result.data.openapi.startsWith('3.') &&
+          result.data.paths['/api/webhook/n8n'] !== undefined;
+      },
+    },
+    {
+      name: 'API Docs Page',
+      test: async () => {
+        const result = await makeRequest('/api/docs/');
+        return result.status === 200 && String(result.data).includes('swagger-ui');
       },
     },
     {
@@ -68,6 +108,39 @@ async function runTests() {
         return result.status === 200 && result.data.success === true;
       },
     },
+    {
+      name: 'Get Posts (Conditional GET)',
+      test: async () => {
+        const first = await makeRequest('/api/posts');
+        const etag = first.headers.etag;
+        if (!etag) {
+          return false;
+        }
+        const second = await makeRequest('/api/posts', { headers: { 'If-None-Match': etag } });
+        return second.status === 304;
+      },
+    },
+    {
+      name: 'Search Posts (Public)',
+      test: async () => {
+        const result = await makeRequest('/api/posts/search?q=ai');
+        return result.status === 200 && result.data.success === true && Array.isArray(result.data.data.items);
+      },
+    },
+    {
+      name: 'Search Posts (Missing Query)',
+      test: async () => {
+        const result = await makeRequest('/api/posts/search');
+        return result.status === 400;
+      },
+    },
+    {
+      name: 'Get Tags (Public)',
+      test: async () => {
+        const result = await makeRequest('/api/tags');
+        return result.status === 200 && result.data.success === true && Array.isArray(result.data.data);
+      },
+    },
     {
       name: 'RSS Feed',
       test: async () => {
@@ -75,6 +148,227 @@ async function runTests() {
         return result.status === 200 && result.data.includes('<?xml');
       },
     },
+    {
+      name: 'Atom Feed',
+      test: async () => {
+        const result = await makeRequest('/api/feed.atom');
+        return result.status === 200 && result.data.includes('<feed');
+      },
+    },
+    {
+      name: 'JSON Feed',
+      test: async () => {
+        const result = await makeRequest('/api/feed.json');
+        return result.status === 200 && result.data.version === 'https://jsonfeed.org/version/1.1';
+      },
+    },
+    {
+      name: 'Blog Page',
+      test: async () => {
+        const result = await makeRequest('/blog');
+        return result.status === 200 && typeof result.data === 'string' && result.data.includes('<html');
+      },
+    },
+    {
+      name: 'Blog Post (Not Found)',
+      test: async () => {
+        const result = await makeRequest('/blog/this-post-does-not-exist');
+        return result.status === 404;
+      },
+    },
+    {
+      name: 'Sitemap',
+      test: async () => {
+        const result = await makeRequest('/sitemap.xml');
+        return result.status === 200 && result.data.includes('<urlset');
+      },
+    },
+    {
+      name: 'Robots.txt',
+      test: async () => {
+        const result = await makeRequest('/robots.txt');
+        return result.status === 200 && result.data.includes('Sitemap:');
+      },
+    },
+    {
+      name: 'Popular Posts',
+      test: async () => {
+        const result = await makeRequest('/api/posts/popular?window=7d');
+        return result.status === 200 && Array.isArray(result.data.data.items);
+      },
+    },
+    {
+      name: 'Popular Posts (Invalid Window)',
+      test: async () => {
+        const result = await makeRequest('/api/posts/popular?window=forever');
+        return result.status === 400;
+      },
+    },
+    {
+      name: 'Post View (Not Found)',
+      test: async () => {
+        const result = await makeRequest('/api/posts/this-post-does-not-exist/view', { method: 'POST' });
+        return result.status === 404;
+      },
+    },
+    {
+      name: 'View Reports (Unauthorized)',
+      test: async () => {
+        const result = await makeRequest('/api/admin/analytics/posts');
+        return result.status === 401;
+      },
+    },
+    {
+      name: 'Post Includes (Unknown)',
+      test: async () => {
+        const result = await makeRequest('/api/posts/any-post?include=comments');
+        return result.status === 400;
+      },
+    },
+    {
+      name: 'Post Meta (Not Found)',
+      test: async () => {
+        const result = await makeRequest('/api/posts/this-post-does-not-exist/meta');
+        return result.status === 404;
+      },
+    },
+    {
+      name: 'Comments (Post Not Found)',
+      test: async () => {
+        const result = await makeRequest('/api/posts/this-post-does-not-exist/comments');
+        return result.status === 404;
+      },
+    },
+    {
+      name: 'Add Comment (Unpublished Post)',
+      test: async () => {
+        const result = await makeRequest('/api/posts/this-post-does-not-exist/comments', {
+          method: 'POST',
+          body: { name: 'Test Reader', email: 'reader@example.com', body: 'Test comment' },
+        });
+        return result.status === 404;
+      },
+    },
+    {
+      name: 'Add Comment (Validation Error)',
+      test: async () => {
+        const result = await makeRequest('/api/posts/this-post-does-not-exist/comments', {
+          method: 'POST',
+          body: { name: 'Test Reader', email: 'not-an-email', body: '' },
+        });
+        return result.status === 400 && result.data.code === 'VALIDATION_ERROR';
+      },
+    },
+    {
+      name: 'Add Comment (Honeypot)',
+      test: async () => {
+        const result = await makeRequest('/api/posts/this-post-does-not-exist/comments', {
+          method: 'POST',
+          body: { name: 'Bot', email: 'bot@example.com', body: 'Buy now', website: 'http://spam.example' },
+        });
+        return result.status === 201 && result.data.success === true;
+      },
+    },
+    {
+      name: 'Contact Form (Validation Error)',
+      test: async () => {
+        const result = await makeRequest('/api/contact', {
+          method: 'POST',
+          body: { name: 'Test', email: 'not-an-email', subject: '', message: '' },
+        });
+        return result.status === 400;
+      },
+    },
+    {
+      name: 'Contact Form (Honeypot)',
+      test: async () => {
+        const result = await makeRequest('/api/contact', {
+          method: 'POST',
+          body: { name: 'Bot', email: 'bot@example.com', subject: 'Offer', message: 'Buy now', website: 'http://spam.example' },
+        });
+        return result.status === 201 && result.data.success === true;
+      },
+    },
+    {
+      name: 'Newsletter Subscribe (Validation Error)',
+      test: async () => {
+        const result = await makeRequest('/api/newsletter/subscribe', {
+          method: 'POST',
+          body: { email: 'not-an-email' },
+        });
+        return result.status === 400;
+      },
+    },
+    {
+      name: 'Newsletter Confirm (Invalid Token)',
+      test: async () => {
+        const result = await makeRequest('/api/newsletter/confirm?token=invalid');
+        return result.status === 400;
+      },
+    },
+    {
+      name: 'Newsletter Stats (Unauthorized)',
+      test: async () => {
+        const result = await makeRequest('/api/admin/newsletter/stats');
+        return result.status === 401;
+      },
+    },
+    {
+      name: 'Get Modules',
+      test: async () => {
+        const result = await makeRequest('/api/modules');
+        return result.status === 200 && result.data.success === true && Array.isArray(result.data.data);
+      },
+    },
+    {
+      name: 'Get Module (Not Found)',
+      test: async () => {
+        const result = await makeRequest('/api/modules/no-such-module');
+        return result.status === 404;
+      },
+    },
+    {
+      name: 'Get Resources',
+      test: async () => {
+        const result = await makeRequest('/api/resources?pricingTier=FREE');
+        return result.status === 200 && result.data.success === true && Array.isArray(result.data.data.items);
+      },
+    },
+    {
+      name: 'Get Resources (Invalid Filter)',
+      test: async () => {
+        const result = await makeRequest('/api/resources?category=NOT_A_CATEGORY');
+        return result.status === 400;
+      },
+    },
+    {
+      name: 'Resource Link Report (Unauthorized)',
+      test: async () => {
+        const result = await makeRequest('/api/admin/resources/link-report');
+        return result.status === 401;
+      },
+    },
+    {
+      name: 'Admin Modules (Unauthorized)',
+      test: async () => {
+        const result = await makeRequest('/api/admin/modules');
+        return result.status === 401;
+      },
+    },
+    {
+      name: 'Contact Messages (Unauthorized)',
+      test: async () => {
+        const result = await makeRequest('/api/admin/contact-messages');
+        return result.status === 401;
+      },
+    },
+    {
+      name: 'Comment Moderation (Unauthorized)',
+      test: async () => {
+        const result = await makeRequest('/api/admin/comments');
+        return result.status === 401;
+      },
+    },
     {
       name: 'Admin Posts (Unauthorized)',
       test: async () => {
@@ -82,6 +376,50 @@ async function runTests() {
         return result.status === 401;
       },
     },
+    {
+      name: 'Approve Post (Unauthorized)',
+      test: async () => {
+        const result = await makeRequest('/api/admin/posts/unknown/approve', {
+          method: 'POST',
+          body: {},
+        });
+        return result.status === 401;
+      },
+    },
+    {
+      name: 'Media Upload (Unauthorized)',
+      test: async () => {
+        const result = await makeRequest('/api/admin/media', {
+          method: 'POST',
+          body: {},
+        });
+        return result.status === 401;
+      },
+    },
+    {
+      name: 'Media File (Not Found)',
+      test: async () => {
+        const result = await makeRequest('/media/missing/original.jpg');
+        return result.status === 404;
+      },
+    },
+    {
+      name: 'Export Posts (Unauthorized)',
+      test: async () => {
+        const result = await makeRequest('/api/admin/posts/export');
+        return result.status === 401;
+      },
+    },
+    {
+      name: 'Login (Invalid Credentials)',
+      test: async () => {
+        const result = await makeRequest('/api/auth/login', {
+          method: 'POST',
+          body: { email: 'nobody@example.com', password: 'wrong-password' },
+        });
+        return result.status === 401;
+      },
+    },
     {
       name: 'n8n Webhook (Unauthorized)',
       test: async () => {
@@ -92,6 +430,20 @@ async function runTests() {
         return result.status === 401;
       },
     },
+    {
+      name: 'n8n Webhook (Invalid Signature)',
+      test: async () => {
+        const result = await makeRequest('/api/webhook/n8n', {
+          method: 'POST',
+          headers: {
+            'x-n8n-timestamp': Math.floor(Date.now() / 1000).toString(),
+            'x-n8n-signature': 'sha256=' + '0'.repeat(64),
+          },
+          body: { title: 'Test' },
+        });
+        return result.status === 401;
+      },
+    },
   ];
 
   let passed = 0;
@@ -0,0 +1,165 @@
+#!/usr/bin/env tsx
+
+/**
+ * Contact form test script
+ * Sends notifications through the mail transports (SMTP against an
+ * in-process server) and checks the CSV export, so no database or network
+ * access is needed
+ */
+
+import fs from 'fs';
+import os from 'os';
+import net from 'net';
+import path from 'path';
+import { ContactMessage } from '@prisma/client';
+import { FileTransport, SmtpTransport, MailError, createMailTransport } from './src/mail';
+import { toCsv } from './src/contact';
+import { exitWith, runTestCases } from './test-runner';
+
+// Just enough SMTP to accept one message at a time; received messages are
+// collected as raw DATA
+function createSmtpServer(received: string[]): net.Server {
+  return net.createServer(socket => {
+    let data: string | null = null;
+    socket.write('220 localhost test SMTP\r\n');
+
+    socket.on('data', chunk => {
+      for (const line of chunk.toString().split('\r\n').slice(0, -1)) {
+        if (data !== null) {
+          if (line === '.') {
+            received.push(data);
+            data = null;
+            socket.write('250 OK queued\r\n');
+          } else {
+            data += `${line}\n`;
+          }
+        } else if (/^(EHLO|HELO)/i.test(line)) {
+          socket.write('250 localhost\r\n');
+        } else if (/^DATA/i.test(line)) {
+          data = '';
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (/^QUIT/i.test(line)) {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+}
+
+function contactMessage(fields: Partial<ContactMessage>): ContactMessage {
+  return {
+    id: 'msg1',
+    name: 'Jane Teacher',
+    email: 'jane@school.example',
+    subject: 'Hello',
+    message: 'A question',
+    handled: false,
+    handledAt: null,
+    handledById: null,
+    notifiedAt: null,
+    notifyError: null,
+    createdAt: new Date('2024-03-01T10:00:00Z'),
+    ...fields,
+  };
+}
+
+async function runTests() {
+  console.log('🧪 Testing contact form\n');
+
+  const received: string[] = [];
+  const server = createSmtpServer(received);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as net.AddressInfo;
+
+  const tests = [
+    {
+      name: 'SMTP Transport',
+      test: async () => {
+        const transport = new SmtpTransport(
+          { host: '127.0.0.1', port, secure: false },
+          'Teacher AI Academy <no-reply@example.com>'
+        );
+        await transport.send({
+          to: 'team@example.com',
+          subject: 'Contact form: Hello',
+          text: 'From: Jane Teacher <jane@school.example>\n\nA question',
+          replyTo: 'jane@school.example',
+        });
+
+        const message = received[0] || '';
+        return (
+          received.length === 1 &&
+          message.includes('Subject: Contact form: Hello') &&
+          message.includes('Reply-To: jane@school.example') &&
+          message.includes('A question')
+        );
+      },
+    },
+    {
+      name: 'File Transport',
+      test: async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mail-test-'));
+        try {
+          await new FileTransport(dir).send({ to: 'team@example.com', subject: 'Hi', text: 'Body' });
+          const files = fs.readdirSync(dir);
+          const message = JSON.parse(fs.readFileSync(path.join(dir, files[0]!), 'utf8'));
+          return files.length === 1 && message.subject === 'Hi' && message.to === 'team@example.com';
+        } finally {
+          fs.rmSync(dir, { recursive: true, force: true });
+        }
+      },
+    },
+    {
+      name: 'Transport From Environment',
+      test: async () => {
+        const original = { ...process.env };
+        try {
+          process.env.MAIL_TRANSPORT = 'file';
+          const file = createMailTransport();
+          process.env.MAIL_TRANSPORT = 'console';
+          const consoleTransport = createMailTransport();
+
+          process.env.MAIL_TRANSPORT = 'smtp';
+          delete process.env.SMTP_HOST;
+          let missingHost = false;
+          try {
+            createMailTransport();
+          } catch (error) {
+            missingHost = error instanceof MailError;
+          }
+
+          return file.name === 'file' && consoleTransport.name === 'console' && missingHost;
+        } finally {
+          process.env = original;
+        }
+      },
+    },
+    {
+      name: 'CSV Export',
+      test: async () => {
+        const csv = toCsv([
+          contactMessage({ subject: 'Quotes "and", commas', message: 'Line one\nLine two' }),
+          contactMessage({ id: 'msg2', name: '=HYPERLINK("http://evil.example")', handled: true }),
+        ]);
+        const lines = csv.split('\r\n');
+
+        return (
+          lines[0] === 'id,createdAt,name,email,subject,message,handled,handledAt' &&
+          csv.includes('"Quotes ""and"", commas","Line one\nLine two"') &&
+          csv.includes('2024-03-01T10:00:00.000Z') &&
+          csv.includes(`"'=HYPERLINK(""http://evil.example"")"`) &&
+          csv.endsWith('\r\n')
+        );
+      },
+    },
+  ];
+
+  const failed = await runTestCases(tests);
+  server.close();
+
+  return failed;
+}
+
+runTests().then(exitWith);
@@ -0,0 +1,134 @@
+#!/usr/bin/env tsx
+
+/**
+ * Media processing test script
+ * Runs generated images through the upload pipeline and the local disk
+ * storage, so no database or running server is needed
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { processImage, MediaError } from './src/media';
+import { LocalDiskStorage, StorageError } from './src/storage';
+import { exitWith, runTestCases } from './test-runner';
+
+// A photo-like JPEG with camera metadata, stored sideways with an EXIF rotation
+function cameraJpeg(width: number, height: number): Promise<Buffer> {
+  return sharp({ create: { width, height, channels: 3, background: { r: 40, g: 120, b: 200 } } })
+    .jpeg()
+    .withMetadata({
+      orientation: 6,
+      exif: { IFD0: { Make: 'TestCam', Copyright: 'Someone' } },
+    })
+    .toBuffer();
+}
+
+async function expectMediaError(promise: Promise<unknown>, statusCode: number): Promise<boolean> {
+  try {
+    await promise;
+    return false;
+  } catch (error) {
+    return error instanceof MediaError && error.statusCode === statusCode;
+  }
+}
+
+async function runTests() {
+  console.log('🧪 Testing media processing\n');
+
+  const tests = [
+    {
+      name: 'EXIF Stripped and Orientation Applied',
+      test: async () => {
+        const input = await cameraJpeg(1200, 800);
+        const { original } = await processImage(input, [320, 640]);
+        const metadata = await sharp(original.data).metadata();
+
+        return (
+          (await sharp(input).metadata()).exif !== undefined &&
+          metadata.exif === undefined &&
+          metadata.orientation === undefined &&
+          original.mimeType === 'image/jpeg' &&
+          original.width === 800 &&
+          original.height === 1200
+        );
+      },
+    },
+    {
+      name: 'WebP Variants',
+      test: async () => {
+        const { variants } = await processImage(await cameraJpeg(1200, 800), [320, 640, 960, 1280]);
+        const formats = await Promise.all(variants.map(async variant => (await sharp(variant.data).metadata()).format));
+
+        return (
+          variants.map(variant => variant.width).join(',') === '320,640,800' &&
+          variants[0]?.height === 480 &&
+          formats.every(format => format === 'webp') &&
+          variants.every(variant => variant.mimeType === 'image/webp')
+        );
+      },
+    },
+    {
+      name: 'Small Image Not Upscaled',
+      test: async () => {
+        const input = await sharp({ create: { width: 200, height: 100, channels: 4, background: '#ffffff00' } }).png().toBuffer();
+        const { original, variants } = await processImage(input, [320, 640]);
+
+        return (
+          original.mimeType === 'image/png' &&
+          variants.length === 1 &&
+          variants[0]?.width === 200 &&
+          variants[0]?.height === 100
+        );
+      },
+    },
+    {
+      name: 'Not an Image',
+      test: async () => expectMediaError(processImage(Buffer.from('plain text, not an image')), 415),
+    },
+    {
+      name: 'Unsupported Format (SVG)',
+      test: async () => expectMediaError(
+        processImage(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10"><rect width="10" height="10"/></svg>')),
+        415
+      ),
+    },
+    {
+      name: 'Local Disk Storage',
+      test: async () => {
+        const root = fs.mkdtempSync(path.join(os.tmpdir(), 'media-test-'));
+        const storage = new LocalDiskStorage(root, 'https://cdn.example.com/media');
+
+        try {
+          await storage.put('abc123/w320.webp', Buffer.from('data'), 'image/webp');
+          const stored = await storage.get('abc123/w320.webp');
+          await storage.delete('abc123/w320.webp');
+
+          let rejected = false;
+          try {
+            await storage.get('../outside/file.txt');
+          } catch (error) {
+            rejected = error instanceof StorageError;
+          }
+
+          return (
+            stored?.toString() === 'data' &&
+            (await storage.get('abc123/w320.webp')) === null &&
+            !fs.existsSync(path.join(root, 'abc123')) &&
+            storage.url('abc123/w320.webp') === 'https://cdn.example.com/media/abc123/w320.webp' &&
+            rejected
+          );
+        } finally {
+          fs.rmSync(root, { recursive: true, force: true });
+        }
+      },
+    },
+  ];
+
+  const failed = await runTestCases(tests);
+
+  return failed;
+}
+
+runTests().then(exitWith);
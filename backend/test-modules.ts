@@ -0,0 +1,158 @@
+#!/usr/bin/env tsx
+
+/**
+ * Curriculum module test script
+ * Renders the seeded modules through module-template.html, so no
+ * database or running server is needed
+ */
+
+import { loadTemplate } from './src/templates';
+import { CurriculumModule, ModuleSummary } from './src/modules';
+import { ModuleLinks, moduleCardsHtml, renderModuleHtml } from './src/curriculum';
+import { curriculumModules } from './prisma/curriculum-modules';
+import { createModuleSchema } from './src/routes/modules-admin';
+import { isValidSlug, slugify } from './src/slugs';
+import { exitWith, runTestCases } from './test-runner';
+
+const LINKS: ModuleLinks = {
+  siteBaseUrl: 'https://teacheraiacademy.example',
+  curriculumUrl: 'https://teacheraiacademy.example/curriculum.html',
+  moduleUrl: slug => `https://teacheraiacademy.example/curriculum/${slug}.html`,
+};
+
+function sampleModule(fields: Partial<CurriculumModule>): CurriculumModule {
+  return {
+    id: 'module1',
+    slug: 'getting-started-with-ai',
+    title: 'Getting Started with AI',
+    summary: 'Learn the fundamentals.',
+    position: 0,
+    published: true,
+    overview: 'An **overview**.',
+    competencies: [],
+    skills: null,
+    prompts: [],
+    practiceSteps: [],
+    practiceNotes: null,
+    classroomIdeas: [],
+    classroomNotes: null,
+    rubricCriteria: [],
+    rubricNotes: null,
+    privacyNotes: [],
+    ethicsNotes: null,
+    downloads: [],
+    createdAt: new Date('2024-03-01T10:00:00Z'),
+    updatedAt: new Date('2024-03-01T10:00:00Z'),
+    ...fields,
+  };
+}
+
+function summaryOf(module: CurriculumModule): ModuleSummary {
+  const { slug, title, summary, position, updatedAt } = module;
+  return { slug, title, summary, position, updatedAt };
+}
+
+async function runTests() {
+  console.log('🧪 Testing curriculum modules\n');
+
+  const template = await loadTemplate('module-template.html');
+
+  const tests = [
+    {
+      name: 'Template Placeholders',
+      test: async () => {
+        const html = renderModuleHtml(template, sampleModule({}), { previous: null, next: null }, LINKS);
+        return !/\{\{[A-Z0-9_]+\}\}/.test(html) && html.includes('<strong>overview</strong>');
+      },
+    },
+    {
+      name: 'Sections',
+      test: async () => {
+        const module = sampleModule({
+          competencies: ['Prompting <basics>'],
+          prompts: [{ title: 'Lesson Plan', prompt: 'Plan a lesson on [TOPIC]' }],
+          practiceSteps: ['Pick a tool', 'Try it'],
+          downloads: [{ label: 'Module PDF', url: 'https://teacheraiacademy.example/files/module.pdf' }],
+          ethicsNotes: '<script>alert(1)</script>Be fair.',
+        });
+        const html = renderModuleHtml(template, module, { previous: null, next: null }, LINKS);
+
+        return (
+          html.includes('<li>Prompting &lt;basics&gt;</li>') &&
+          html.includes('<h3>Lesson Plan</h3>') &&
+          html.includes('Plan a lesson on [TOPIC]') &&
+          /<ol>\s*<li>Pick a tool<\/li>\s*<li>Try it<\/li>\s*<\/ol>/.test(html) &&
+          html.includes('href="https://teacheraiacademy.example/files/module.pdf" class="btn-primary">Module PDF</a>') &&
+          !html.includes('<script>alert(1)</script>') &&
+          html.includes('Be fair.')
+        );
+      },
+    },
+    {
+      name: 'Download URLs',
+      test: async () => {
+        const module = { title: 'Module', summary: 'Summary', overview: 'Overview' };
+        const download = (url: string) => createModuleSchema.safeParse({ ...module, downloads: [{ label: 'PDF', url }] });
+
+        return (
+          download('https://teacheraiacademy.example/files/module.pdf').success &&
+          !download('javascript:alert(1)').success &&
+          !download('data:text/html,<script>alert(1)</script>').success
+        );
+      },
+    },
+    {
+      name: 'Slugs',
+      test: async () => {
+        const module = { title: 'Module', summary: 'Summary', overview: 'Overview' };
+        const slug = (value: string) => createModuleSchema.safeParse({ ...module, slug: value }).success;
+
+        return (
+          slug('ai-basics-101') &&
+          !slug('../index') &&
+          !slug('-intro') &&
+          !slug('ai--basics') &&
+          slugify('  Hello, World! - Part 2 ') === 'hello-world-part-2' &&
+          slugify('!!!') === '' &&
+          isValidSlug(slugify('What is AI?'))
+        );
+      },
+    },
+    {
+      name: 'Module Navigation',
+      test: async () => {
+        const previous = summaryOf(sampleModule({ slug: 'intro', title: 'Intro' }));
+        const html = renderModuleHtml(template, sampleModule({}), { previous, next: null }, LINKS);
+
+        return (
+          html.includes('href="https://teacheraiacademy.example/curriculum/intro.html" class="nav-button"') &&
+          !html.includes('Next Module') &&
+          html.includes('href="https://teacheraiacademy.example/curriculum.html" class="back-link"') &&
+          html.includes('<link rel="canonical" href="https://teacheraiacademy.example/curriculum/getting-started-with-ai.html">')
+        );
+      },
+    },
+    {
+      name: 'Curriculum Cards',
+      test: async () => {
+        const modules = curriculumModules.map((data, position) =>
+          summaryOf(sampleModule({ ...data, slug: data.slug!, position })));
+        const html = moduleCardsHtml(modules, LINKS);
+
+        return (
+          modules.length === 6 &&
+          (html.match(/class="module-card"/g) || []).length === 6 &&
+          html.includes('<h3>Grading &amp; Feedback</h3>') &&
+          html.includes('href="https://teacheraiacademy.example/curriculum/grading-and-feedback.html"') &&
+          moduleCardsHtml([], LINKS).includes('coming soon')
+        );
+      },
+    },
+  ];
+
+  const failed = await runTestCases(tests);
+
+  return failed;
+}
+
+runTests().then(exitWith);
@@ -0,0 +1,183 @@
+#!/usr/bin/env tsx
+
+/**
+ * Newsletter digest test script
+ * Renders digests for sample posts and sends them through the capture
+ * transport, so no database or mail server is needed
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { CaptureTransport } from './src/mail';
+import { PostWithTags } from './src/posts';
+import { NewsletterService, normalizeTags, postsForSubscriber, renderDigest } from './src/newsletter';
+import { exitWith, runTestCases } from './test-runner';
+
+const LINKS = {
+  siteBaseUrl: 'https://teacheraiacademy.example',
+  unsubscribeUrl: 'https://teacheraiacademy.example/api/newsletter/unsubscribe?token=abc',
+};
+
+function samplePost(fields: Partial<PostWithTags>): PostWithTags {
+  return {
+    id: 'post1',
+    slug: 'ai-lesson-planning',
+    title: 'AI Lesson Planning',
+    summary: 'Plan a week of lessons in an hour.',
+    contentMarkdown: '# AI Lesson Planning',
+    contentHtml: '<h1>AI Lesson Planning</h1>',
+    imageUrl: null,
+    imageMediaId: null,
+    sourceUrl: null,
+    metaTitle: null,
+    metaDescription: null,
+    canonicalUrl: null,
+    ogImageUrl: null,
+    authorId: null,
+    publishedAt: new Date('2024-03-01T10:00:00Z'),
+    updatedAt: new Date('2024-03-01T10:00:00Z'),
+    status: 'PUBLISHED',
+    tags: ['Lesson Planning', 'AI Tools'],
+    author: 'Teacher AI Academy',
+    image: null,
+    ...fields,
+  };
+}
+
+// Just enough Prisma for sendDigest: the last send ended at periodStart, one
+// subscriber wants every post, and the published posts come back with their
+// last approval the way getPostsGoingLive loads them
+function digestPrisma(posts: { post: PostWithTags; approvedAt: Date }[], periodStart: Date): PrismaClient {
+  const rows = posts.map(({ post, approvedAt }) => ({
+    ...post,
+    tags: post.tags.map((name, position) => ({ position, tag: { name } })),
+    author: null,
+    imageMedia: null,
+    legacyTags: '[]',
+    transitions: [{ createdAt: approvedAt }],
+  }));
+  const subscriber = { id: 'sub1', email: 'teacher@school.example', status: 'ACTIVE', tags: '[]', unsubscribeToken: 'abc' };
+  let send = {};
+
+  return {
+    newsletterSend: {
+      findFirst: async () => ({ id: 'send1', periodEnd: periodStart, postIds: '[]' }),
+      create: async ({ data }: { data: object }) => (send = { id: 'send2', ...data }),
+      update: async ({ data }: { data: object }) => (send = { ...send, ...data }),
+    },
+    subscriber: {
+      findMany: async () => [subscriber],
+      update: async () => subscriber,
+    },
+    post: {
+      findMany: async () => rows,
+    },
+  } as unknown as PrismaClient;
+}
+
+async function runTests() {
+  console.log('🧪 Testing newsletter digests\n');
+
+  const posts = [
+    samplePost({}),
+    samplePost({
+      id: 'post2',
+      slug: 'grading-with-ai',
+      title: 'Grading <Essays> with AI',
+      summary: null,
+      tags: ['Assessment'],
+    }),
+  ];
+
+  const tests = [
+    {
+      name: 'Digest Rendering',
+      test: async () => {
+        const digest = renderDigest(posts, LINKS);
+
+        return (
+          digest.subject === '2 new posts on the Teacher AI Academy Blog' &&
+          digest.text.includes('https://teacheraiacademy.example/blog/ai-lesson-planning') &&
+          digest.text.includes('Plan a week of lessons in an hour.') &&
+          digest.text.includes(`Unsubscribe: ${LINKS.unsubscribeUrl}`) &&
+          digest.html.includes('Grading &lt;Essays&gt; with AI') &&
+          !digest.html.includes('<Essays>') &&
+          digest.html.includes('href="https://teacheraiacademy.example/api/newsletter/unsubscribe?token=abc"')
+        );
+      },
+    },
+    {
+      name: 'Single Post Subject',
+      test: async () => renderDigest([posts[0]!], LINKS).subject === 'New post: AI Lesson Planning',
+    },
+    {
+      name: 'Tag Preferences',
+      test: async () => {
+        const all = postsForSubscriber(posts, []);
+        const assessment = postsForSubscriber(posts, normalizeTags(['Assessment']));
+        const none = postsForSubscriber(posts, normalizeTags(['Coding']));
+
+        return (
+          all.length === 2 &&
+          assessment.length === 1 &&
+          assessment[0]?.id === 'post2' &&
+          none.length === 0 &&
+          normalizeTags(['Lesson Planning', 'lesson-planning', ' ']).join(',') === 'lesson-planning' &&
+          normalizeTags(['Éducation Numérique', 'education-numerique']).join(',') === 'education-numerique' &&
+          normalizeTags(['日本語 教育', 'हिंदी']).join(',') === '日本語-教育,हिंदी'
+        );
+      },
+    },
+    {
+      name: 'Capture Transport',
+      test: async () => {
+        const transport = new CaptureTransport();
+        const digest = renderDigest(posts, LINKS);
+        await transport.send({
+          to: 'teacher@school.example',
+          ...digest,
+          headers: { 'List-Unsubscribe': `<${LINKS.unsubscribeUrl}>` },
+        });
+
+        const message = transport.messages[0];
+        return (
+          transport.messages.length === 1 &&
+          message?.to === 'teacher@school.example' &&
+          message.html === digest.html &&
+          message.headers?.['List-Unsubscribe'] === `<${LINKS.unsubscribeUrl}>`
+        );
+      },
+    },
+    {
+      name: 'Posts Approved Late',
+      test: async () => {
+        const date = (day: number) => new Date(Date.UTC(2024, 2, day, 10));
+        const transport = new CaptureTransport();
+        const prisma = digestPrisma([
+          // Approved in the period, after its publish date had passed
+          { post: samplePost({ id: 'late', slug: 'approved-late', title: 'Approved Late', publishedAt: date(1) }), approvedAt: date(5) },
+          // Scheduled within the period, approved before it
+          { post: samplePost({ id: 'scheduled', slug: 'scheduled', title: 'Scheduled', publishedAt: date(4) }), approvedAt: date(2) },
+          // Already in the previous digest
+          { post: samplePost({ id: 'old', slug: 'old', title: 'Old', publishedAt: date(1) }), approvedAt: date(1) },
+        ], date(3));
+
+        const result = await new NewsletterService(prisma, transport).sendDigest('test', { now: date(10) });
+        const message = transport.messages[0];
+
+        return (
+          result.posts === 2 &&
+          JSON.stringify(result.send?.postIds) === '["scheduled","late"]' &&
+          transport.messages.length === 1 &&
+          message?.text.includes('Approved Late') === true &&
+          !message.text.includes('Old')
+        );
+      },
+    },
+  ];
+
+  const failed = await runTestCases(tests);
+
+  return failed;
+}
+
+runTests().then(exitWith);
@@ -0,0 +1,166 @@
+#!/usr/bin/env tsx
+
+/**
+ * Logging and metrics test script
+ * Sends requests to an in-process Express app with the request ID,
+ * metrics and rate limit middleware, so no database is needed
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { exitWith, runTestCases } from './test-runner';
+
+// Keep request logs out of the test output
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'silent';
+
+async function createApp() {
+  const { requestContext } = await import('./src/middleware/requestLog');
+  const { trackRequests, countWebhookOutcomes } = await import('./src/middleware/metrics');
+  const { loginRateLimit } = await import('./src/middleware/rateLimit');
+  const { default: metricsRoutes } = await import('./src/routes/metrics');
+
+  const app = express();
+  app.use(requestContext);
+  app.use(trackRequests);
+
+  app.get('/items/:id', (req, res) => {
+    res.json({ id: req.params.id });
+  });
+  app.get('/boom', () => {
+    throw new Error('Boom');
+  });
+  app.post('/login', loginRateLimit, (_req, res) => {
+    res.status(401).json({ error: 'Invalid credentials' });
+  });
+  app.post('/hook', countWebhookOutcomes('test'), (req, res) => {
+    res.status(req.query.signed ? 200 : 401).json({});
+  });
+  app.use('/metrics', metricsRoutes);
+
+  app.use((error: Error, req: express.Request, res: express.Response, _next: express.NextFunction) => {
+    res.status(500).json({ error: 'Internal server error', requestId: req.id });
+  });
+
+  return app;
+}
+
+async function runTests() {
+  console.log('🧪 Testing logging and metrics\n');
+
+  const server = http.createServer(await createApp());
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const tests = [
+    {
+      name: 'JSON Log Lines',
+      test: async () => {
+        const { Logger } = await import('./src/logger');
+        const lines: string[] = [];
+        const log = new Logger({ service: 'test' }, 20, line => lines.push(line));
+        log.debug('Hidden');
+        log.child({ requestId: 'abc' }).error('Failed', { error: new Error('Nope') });
+
+        const entry = JSON.parse(lines[0]!);
+        return lines.length === 1 && entry.level === 'error' && entry.msg === 'Failed' &&
+          entry.service === 'test' && entry.requestId === 'abc' &&
+          entry.error.message === 'Nope' && typeof entry.time === 'string';
+      },
+    },
+    {
+      name: 'Request ID Header',
+      test: async () => {
+        const generated = await fetch(`${base}/items/1`);
+        const passed = await fetch(`${base}/items/1`, { headers: { 'X-Request-ID': 'proxy-123' } });
+        const invalid = await fetch(`${base}/items/1`, { headers: { 'X-Request-ID': 'no spaces allowed' } });
+        return /^[0-9a-f-]{36}$/.test(generated.headers.get('x-request-id') || '') &&
+          passed.headers.get('x-request-id') === 'proxy-123' &&
+          invalid.headers.get('x-request-id') !== 'no spaces allowed';
+      },
+    },
+    {
+      name: 'Request ID in Error Response',
+      test: async () => {
+        const response = await fetch(`${base}/boom`);
+        const body = await response.json() as { requestId?: string };
+        return response.status === 500 && body.requestId === response.headers.get('x-request-id');
+      },
+    },
+    {
+      name: 'Rate Limit Rejections',
+      test: async () => {
+        let status = 0;
+        for (let i = 0; i < 11; i++) {
+          status = (await fetch(`${base}/login`, { method: 'POST' })).status;
+        }
+        return status === 429;
+      },
+    },
+    {
+      name: 'Webhook Outcomes',
+      test: async () => {
+        await fetch(`${base}/hook?signed=1`, { method: 'POST' });
+        await fetch(`${base}/hook`, { method: 'POST' });
+        return true;
+      },
+    },
+    {
+      name: 'Metrics Endpoint',
+      test: async () => {
+        const response = await fetch(`${base}/metrics`);
+        const text = await response.text();
+        return response.status === 200 &&
+          (response.headers.get('content-type') || '').startsWith('text/plain') &&
+          text.includes('http_requests_total{method="GET",route="/items/:id",status="200"} 3') &&
+          text.includes('http_request_duration_seconds_bucket{le="0.005",method="GET",route="/items/:id",status="200"}') &&
+          text.includes('rate_limit_rejections_total{limiter="login"} 1') &&
+          text.includes('webhook_requests_total{webhook="test",outcome="accepted"} 1') &&
+          text.includes('webhook_requests_total{webhook="test",outcome="unauthorized"} 1') &&
+          text.includes('db_query_duration_seconds');
+      },
+    },
+    {
+      name: 'Metrics Token',
+      test: async () => {
+        process.env.METRICS_TOKEN = 'scrape-secret';
+        try {
+          const denied = await fetch(`${base}/metrics`);
+          const allowed = await fetch(`${base}/metrics`, { headers: { Authorization: 'Bearer scrape-secret' } });
+          return denied.status === 401 && allowed.status === 200;
+        } finally {
+          delete process.env.METRICS_TOKEN;
+        }
+      },
+    },
+    {
+      name: 'Request Log Path',
+      test: async () => {
+        const { Logger, logger } = await import('./src/logger');
+        const lines: string[] = [];
+        const child = logger.child;
+        logger.child = fields => new Logger(fields, 10, line => lines.push(line));
+        try {
+          await fetch(`${base}/metrics`);
+          await fetch(`${base}/items/7?full=1`);
+          // Requests are logged once the response has finished
+          await new Promise(resolve => setTimeout(resolve, 20));
+        } finally {
+          logger.child = child;
+        }
+
+        const entries = lines.map(line => JSON.parse(line));
+        const metrics = entries.find(entry => entry.path === '/metrics');
+        const item = entries.find(entry => entry.path === '/items/7');
+        return entries.length === 2 && metrics?.level === 'debug' && item?.level === 'info';
+      },
+    },
+  ];
+
+  const failed = await runTestCases(tests);
+  server.close();
+
+  return failed;
+}
+
+runTests().then(exitWith);
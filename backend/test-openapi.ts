@@ -0,0 +1,190 @@
+#!/usr/bin/env tsx
+
+/**
+ * Error model and OpenAPI test script
+ * Checks the error envelope on an in-process Express app and the generated
+ * OpenAPI document, so no database is needed
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { exitWith, runTestCases } from './test-runner';
+
+// Keep request logs out of the test output
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'silent';
+
+function prismaError(code: string): Prisma.PrismaClientKnownRequestError {
+  return new Prisma.PrismaClientKnownRequestError(`Prisma error ${code}`, { code, clientVersion: '5.7.1' });
+}
+
+async function createApp() {
+  const { requestContext } = await import('./src/middleware/requestLog');
+  const { sendError, notFoundHandler, errorHandler } = await import('./src/middleware/errors');
+  const { NotFoundError } = await import('./src/errors');
+  const { requireAuth } = await import('./src/middleware/auth');
+  const { default: openapiRoutes } = await import('./src/routes/openapi');
+
+  const app = express();
+  app.use(requestContext);
+  app.use(express.json());
+
+  // Middleware rejections, answered before any route runs
+  app.get('/admin', requireAuth, (_req, res) => {
+    res.json({ success: true, data: null });
+  });
+  app.get('/thrown', (req, res) => {
+    sendError(req, res, new NotFoundError('Post not found'), 'Error fetching post');
+  });
+  app.get('/conflict', (req, res) => {
+    sendError(req, res, prismaError('P2002'), 'Error creating post', {
+      conflict: 'A post with this slug already exists',
+    });
+  });
+  app.post('/echo', (_req, res) => {
+    res.json({ success: true, data: null });
+  });
+  app.use('/api', openapiRoutes);
+
+  app.use('*', notFoundHandler);
+  app.use(errorHandler);
+
+  return app;
+}
+
+async function runTests() {
+  console.log('🧪 Testing the error model and OpenAPI document\n');
+
+  const { ApiError, NotFoundError, toApiError } = await import('./src/errors');
+  const { InvalidTransitionError } = await import('./src/workflow');
+  const { MediaError } = await import('./src/media');
+  const { openApiDocument } = await import('./src/openapi');
+
+  const server = http.createServer(await createApp());
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const tests = [
+    {
+      name: 'Error Hierarchy',
+      test: async () => {
+        const notFound = new NotFoundError('Post not found');
+        const transition = new InvalidTransitionError('ARCHIVED', 'PUBLISHED');
+        const tooLarge = new MediaError('File is too large', 413);
+        return notFound instanceof ApiError && notFound.statusCode === 404 && notFound.code === 'NOT_FOUND' &&
+          transition instanceof ApiError && transition.statusCode === 409 && transition.code === 'INVALID_TRANSITION' &&
+          tooLarge instanceof ApiError && tooLarge.code === 'PAYLOAD_TOO_LARGE';
+      },
+    },
+    {
+      name: 'Prisma Error Codes',
+      test: async () => {
+        const conflict = toApiError(prismaError('P2002'), { conflict: 'A post with this slug already exists' });
+        const missing = toApiError(prismaError('P2025'), { notFound: 'Post not found' });
+        const other = toApiError(prismaError('P1001'));
+        return conflict.statusCode === 409 && conflict.code === 'CONFLICT' &&
+          conflict.message === 'A post with this slug already exists' &&
+          missing.statusCode === 404 && missing.message === 'Post not found' &&
+          other.statusCode === 500 && other.message === 'Internal server error';
+      },
+    },
+    {
+      name: 'Validation Errors',
+      test: async () => {
+        const result = z.object({ title: z.string().min(1) }).safeParse({ title: '' });
+        const error = toApiError(result.success ? null : result.error);
+        return error.statusCode === 400 && error.code === 'VALIDATION_ERROR' &&
+          Array.isArray(error.details) && error.details.length === 1;
+      },
+    },
+    {
+      name: 'Unknown Errors',
+      test: async () => {
+        const error = toApiError(new Error('connect ECONNREFUSED 10.0.0.5:5432'));
+        // Internal messages must not reach clients
+        return error.statusCode === 500 && error.code === 'INTERNAL_ERROR' && error.message === 'Internal server error';
+      },
+    },
+    {
+      name: 'Envelope of Middleware Errors',
+      test: async () => {
+        const response = await fetch(`${base}/admin`);
+        const body = await response.json() as Record<string, unknown>;
+        return response.status === 401 && body.success === false &&
+          body.error === 'Authorization header required. Format: Bearer <token>' &&
+          body.code === 'UNAUTHORIZED' && body.requestId === response.headers.get('x-request-id');
+      },
+    },
+    {
+      name: 'Envelope of Thrown Errors',
+      test: async () => {
+        const notFound = await fetch(`${base}/thrown`);
+        const notFoundBody = await notFound.json() as Record<string, unknown>;
+        const conflict = await fetch(`${base}/conflict`);
+        const conflictBody = await conflict.json() as Record<string, unknown>;
+        return notFound.status === 404 && notFoundBody.code === 'NOT_FOUND' && notFoundBody.error === 'Post not found' &&
+          conflict.status === 409 && conflictBody.code === 'CONFLICT' && typeof conflictBody.requestId === 'string';
+      },
+    },
+    {
+      name: 'Malformed JSON and Unknown Endpoints',
+      test: async () => {
+        const malformed = await fetch(`${base}/echo`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: '{"title":',
+        });
+        const malformedBody = await malformed.json() as Record<string, unknown>;
+        const missing = await fetch(`${base}/nowhere`);
+        const missingBody = await missing.json() as Record<string, unknown>;
+        return malformed.status === 400 && malformedBody.code === 'BAD_REQUEST' &&
+          missing.status === 404 && missingBody.code === 'NOT_FOUND' && missingBody.path === '/nowhere';
+      },
+    },
+    {
+      name: 'OpenAPI Document',
+      test: async () => {
+        const document = openApiDocument() as any;
+        const createPost = document.components.schemas.CreatePost;
+        const webhook = document.paths['/api/webhook/n8n'].post;
+        const updatePost = document.paths['/api/admin/posts/{id}'].put;
+        const meta = document.paths['/api/posts/{slug}/meta'].get;
+        const scheduled = document.paths['/api/admin/posts'].get.parameters
+          .find((parameter: { name: string }) => parameter.name === 'scheduled');
+        const resourcesLimit = document.paths['/api/resources'].get.parameters
+          .find((parameter: { name: string }) => parameter.name === 'limit');
+        return document.openapi === '3.0.3' &&
+          createPost.required.includes('title') &&
+          createPost.properties.status.enum.includes('IN_REVIEW') &&
+          webhook.requestBody.content['application/json'].schema.$ref === '#/components/schemas/N8nWebhook' &&
+          webhook.security[0].n8nSignature !== undefined &&
+          updatePost.parameters[0].name === 'id' &&
+          updatePost.responses['409'].$ref === '#/components/responses/Conflict' &&
+          meta.parameters[0].name === 'slug' &&
+          resourcesLimit.schema.maximum === 100 &&
+          scheduled.schema.enum.join() === 'true,false' &&
+          document.components.schemas.Error.properties.code.enum.includes('VALIDATION_ERROR');
+      },
+    },
+    {
+      name: 'Spec and Docs Endpoints',
+      test: async () => {
+        const spec = await fetch(`${base}/api/openapi.json`);
+        const specBody = await spec.json() as { paths?: Record<string, unknown> };
+        const docs = await fetch(`${base}/api/docs/`);
+        const html = await docs.text();
+        return spec.status === 200 && specBody.paths?.['/api/admin/posts'] !== undefined &&
+          docs.status === 200 && html.includes('swagger-ui');
+      },
+    },
+  ];
+
+  const failed = await runTestCases(tests);
+  server.close();
+
+  return failed;
+}
+
+runTests().then(exitWith);
@@ -0,0 +1,111 @@
+#!/usr/bin/env tsx
+
+/**
+ * Related posts test script
+ * Scores sample posts against each other, so no database or running
+ * server is needed
+ */
+
+import { SimilarityDocument, similarityScores, tagOverlap, tokenize } from './src/related';
+import { exitWith, runTestCases } from './test-runner';
+
+const DOCS: SimilarityDocument[] = [
+  {
+    id: 'lesson-plans',
+    title: 'Lesson Planning with ChatGPT',
+    summary: 'Draft lesson plans and activities from your learning objectives.',
+    tags: ['Lesson Planning', 'ChatGPT'],
+  },
+  {
+    id: 'weekly-plans',
+    title: 'Weekly Lesson Plans in Minutes',
+    summary: 'Plan a week of lessons with AI support.',
+    tags: ['lesson-planning'],
+  },
+  {
+    id: 'rubrics',
+    title: 'Building Rubrics for Essays',
+    summary: 'Create fair grading rubrics and draft feedback.',
+    tags: ['Assessment'],
+  },
+  {
+    id: 'feedback',
+    title: 'Faster Essay Feedback',
+    summary: 'Draft specific feedback on student essays against a rubric.',
+    tags: ['Assessment', 'Feedback'],
+  },
+  {
+    id: 'news',
+    title: 'Academy News',
+    summary: null,
+    tags: [],
+  },
+];
+
+function doc(id: string): SimilarityDocument {
+  return DOCS.find(item => item.id === id)!;
+}
+
+async function runTests() {
+  console.log('🧪 Testing related posts\n');
+
+  const tests = [
+    {
+      name: 'Tokenize',
+      test: async () => {
+        const words = tokenize('How to use AI for Lesson-Planning in the classroom!');
+        return words.join(' ') === 'ai lesson planning classroom';
+      },
+    },
+    {
+      name: 'Tag Overlap',
+      test: async () => {
+        return tagOverlap(['Lesson Planning', 'ChatGPT'], ['lesson-planning']) === 0.5 &&
+          tagOverlap(['Assessment'], []) === 0 &&
+          tagOverlap(['A', 'B'], ['b', 'a']) === 1;
+      },
+    },
+    {
+      name: 'Most Similar First',
+      test: async () => {
+        const scores = similarityScores(doc('rubrics'), DOCS);
+        return scores[0]?.postId === 'feedback' &&
+          scores.every((score, index) => index === 0 || scores[index - 1]!.score >= score.score);
+      },
+    },
+    {
+      name: 'Shared Tags and Words',
+      test: async () => {
+        const scores = similarityScores(doc('lesson-plans'), DOCS);
+        return scores[0]?.postId === 'weekly-plans' &&
+          !scores.some(score => score.postId === 'rubrics' || score.postId === 'feedback');
+      },
+    },
+    {
+      name: 'Not Related to Itself',
+      test: async () => {
+        return DOCS.every(item => !similarityScores(item, DOCS).some(score => score.postId === item.id));
+      },
+    },
+    {
+      name: 'Unrelated Post',
+      test: async () => {
+        return similarityScores(doc('news'), DOCS).length === 0;
+      },
+    },
+    {
+      name: 'Symmetric Scores',
+      test: async () => {
+        const forward = similarityScores(doc('rubrics'), DOCS).find(score => score.postId === 'feedback')!;
+        const backward = similarityScores(doc('feedback'), DOCS).find(score => score.postId === 'rubrics')!;
+        return Math.abs(forward.score - backward.score) < 1e-9;
+      },
+    },
+  ];
+
+  const failed = await runTestCases(tests);
+
+  return failed;
+}
+
+runTests().then(exitWith);
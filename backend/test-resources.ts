@@ -0,0 +1,162 @@
+#!/usr/bin/env tsx
+
+/**
+ * Resource link checker test script
+ * Checks links against an in-process stub server and renders the
+ * resources.html sections, so no network access or database is needed
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { checkLink } from './src/link-checker';
+import { PublicResource } from './src/resources';
+import { featuredToolsHtml, resourceCategoriesHtml } from './src/resource-pages';
+import { directoryResources } from './prisma/resource-directory';
+import { exitWith, runTestCases } from './test-runner';
+
+// Serves working, moved, missing and misbehaving pages
+function createStubServer(): http.Server {
+  return http.createServer((req, res) => {
+    const url = req.url || '/';
+
+    if (url === '/ok') {
+      res.writeHead(200, { 'Content-Type': 'text/html' });
+      return res.end(req.method === 'HEAD' ? undefined : '<p>OK</p>');
+    }
+
+    if (url === '/moved') {
+      res.writeHead(301, { Location: '/ok' });
+      return res.end();
+    }
+
+    if (url === '/loop') {
+      res.writeHead(302, { Location: '/loop' });
+      return res.end();
+    }
+
+    // Rejects HEAD like some real sites do
+    if (url === '/no-head') {
+      res.writeHead(req.method === 'HEAD' ? 405 : 200, { 'Content-Type': 'text/html' });
+      return res.end();
+    }
+
+    if (url === '/slow') {
+      setTimeout(() => {
+        res.writeHead(200);
+        res.end();
+      }, 1000);
+      return;
+    }
+
+    res.writeHead(404);
+    res.end('Not found');
+  });
+}
+
+function sampleResource(fields: Partial<PublicResource>): PublicResource {
+  return {
+    id: 'resource1',
+    name: 'MagicSchool AI',
+    description: 'AI platform for educators.',
+    url: 'https://magicschool.ai',
+    linkLabel: null,
+    icon: null,
+    category: 'LESSON_PLANNING',
+    gradeBand: 'ALL',
+    pricingTier: 'FREEMIUM',
+    privacyRating: 'UNRATED',
+    featured: false,
+    position: 0,
+    updatedAt: new Date('2024-03-01T10:00:00Z'),
+    ...fields,
+  };
+}
+
+async function runTests(baseUrl: string) {
+  console.log('🧪 Testing resource link checks\n');
+
+  const tests = [
+    {
+      name: 'Working Link',
+      test: async () => {
+        const result = await checkLink(`${baseUrl}/ok`);
+        return result.status === 'OK' && result.statusCode === 200 && result.finalUrl === null;
+      },
+    },
+    {
+      name: 'Redirected Link',
+      test: async () => {
+        const result = await checkLink(`${baseUrl}/moved`);
+        return result.status === 'REDIRECTED' && result.statusCode === 200 && result.finalUrl === `${baseUrl}/ok`;
+      },
+    },
+    {
+      name: 'Dead Link',
+      test: async () => {
+        const result = await checkLink(`${baseUrl}/gone`);
+        return result.status === 'BROKEN' && result.statusCode === 404 && result.error === 'HTTP 404';
+      },
+    },
+    {
+      name: 'HEAD Not Allowed',
+      test: async () => {
+        const result = await checkLink(`${baseUrl}/no-head`);
+        return result.status === 'OK' && result.statusCode === 200;
+      },
+    },
+    {
+      name: 'Redirect Loop',
+      test: async () => {
+        const result = await checkLink(`${baseUrl}/loop`);
+        return result.status === 'BROKEN' && result.error === 'Too many redirects';
+      },
+    },
+    {
+      name: 'Timeout',
+      test: async () => {
+        const result = await checkLink(`${baseUrl}/slow`, { timeoutMs: 200 });
+        return result.status === 'BROKEN' && result.error === 'Request timed out';
+      },
+    },
+    {
+      name: 'Unreachable Host',
+      test: async () => {
+        const result = await checkLink('http://127.0.0.1:1/');
+        return result.status === 'BROKEN' && result.statusCode === null && (result.error || '').startsWith('Request failed');
+      },
+    },
+    {
+      name: 'Resources Page Sections',
+      test: async () => {
+        const resources = directoryResources.map((data, index) => sampleResource({ ...data, id: `resource${index}` }));
+        const featured = featuredToolsHtml(resources);
+        const categories = resourceCategoriesHtml([
+          ...resources,
+          sampleResource({ name: 'Tool <beta>', category: 'ASSESSMENT', position: 9 }),
+        ]);
+
+        return (
+          (featured.match(/class="tool-card"/g) || []).length === 6 &&
+          featured.includes('Try Canva') &&
+          (categories.match(/class="category"/g) || []).length === 6 &&
+          (categories.match(/class="resource-item"/g) || []).length === 19 &&
+          categories.includes('<h3>📝 Assessment &amp; Grading</h3>') &&
+          categories.includes('Tool &lt;beta&gt;') &&
+          !categories.includes('ChatGPT')
+        );
+      },
+    },
+  ];
+
+  const failed = await runTestCases(tests);
+
+  return failed;
+}
+
+const server = createStubServer();
+server.listen(0, '127.0.0.1', async () => {
+  const { port } = server.address() as AddressInfo;
+  const failed = await runTests(`http://127.0.0.1:${port}`);
+  server.close();
+  exitWith(failed);
+});
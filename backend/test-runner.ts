@@ -0,0 +1,43 @@
+/**
+ * Shared runner of the test-*.ts suites
+ * Runs the tests of a suite in order and prints each result and the totals
+ */
+
+export interface TestCase {
+  name: string;
+  test: () => Promise<boolean>;
+}
+
+// Returns the number of tests that failed or threw
+export async function runTestCases(tests: TestCase[]): Promise<number> {
+  let passed = 0;
+  let failed = 0;
+
+  for (const test of tests) {
+    try {
+      console.log(`Testing: ${test.name}...`);
+      const success = await test.test();
+      if (success) {
+        console.log(`✅ ${test.name} - PASSED\n`);
+        passed++;
+      } else {
+        console.log(`❌ ${test.name} - FAILED\n`);
+        failed++;
+      }
+    } catch (error) {
+      console.log(`❌ ${test.name} - ERROR: ${error instanceof Error ? error.message : error}\n`);
+      failed++;
+    }
+  }
+
+  console.log('📊 Test Results:');
+  console.log(`✅ Passed: ${passed}`);
+  console.log(`❌ Failed: ${failed}`);
+
+  return failed;
+}
+
+// Suites end the process themselves, since servers and timers may still be open
+export function exitWith(failed: number): never {
+  process.exit(failed === 0 ? 0 : 1);
+}
@@ -0,0 +1,174 @@
+#!/usr/bin/env tsx
+
+/**
+ * Feed ingestion test script
+ * Fetches and parses the fixture feeds in test-fixtures/feeds from an
+ * in-process HTTP server, so no network access or database is needed
+ */
+
+import http from 'http';
+import fs from 'fs';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { fetchFeed, FeedError } from './src/feed-reader';
+import { exitWith, runTestCases } from './test-runner';
+
+const FIXTURES_DIR = path.join(__dirname, 'test-fixtures', 'feeds');
+const FIXTURE_ETAG = '"fixture-v1"';
+
+// Serves the fixtures plus a few misbehaving endpoints
+function createFixtureServer(): http.Server {
+  return http.createServer((req, res) => {
+    const url = req.url || '/';
+
+    if (url === '/rss.xml' || url === '/atom.xml') {
+      if (req.headers['if-none-match'] === FIXTURE_ETAG) {
+        res.writeHead(304);
+        return res.end();
+      }
+
+      const type = url === '/rss.xml' ? 'application/rss+xml' : 'application/atom+xml';
+      res.writeHead(200, { 'Content-Type': type, ETag: FIXTURE_ETAG });
+      return res.end(fs.readFileSync(path.join(FIXTURES_DIR, url.slice(1))));
+    }
+
+    if (url === '/moved.xml') {
+      res.writeHead(301, { Location: '/rss.xml' });
+      return res.end();
+    }
+
+    if (url === '/page.html') {
+      res.writeHead(200, { 'Content-Type': 'text/html' });
+      return res.end('<!DOCTYPE html><html><body><p>Not a feed</p></body></html>');
+    }
+
+    if (url === '/slow.xml') {
+      setTimeout(() => {
+        res.writeHead(200, { 'Content-Type': 'application/rss+xml' });
+        res.end(fs.readFileSync(path.join(FIXTURES_DIR, 'rss.xml')));
+      }, 1000);
+      return;
+    }
+
+    res.writeHead(500);
+    res.end('Internal server error');
+  });
+}
+
+async function expectFeedError(promise: Promise<unknown>, check: (error: FeedError) => boolean): Promise<boolean> {
+  try {
+    await promise;
+    return false;
+  } catch (error) {
+    return error instanceof FeedError && check(error);
+  }
+}
+
+async function runTests(baseUrl: string) {
+  console.log('🧪 Testing feed ingestion against fixture feeds\n');
+
+  const tests = [
+    {
+      name: 'RSS 2.0 Entries',
+      test: async () => {
+        const result = await fetchFeed(`${baseUrl}/rss.xml`);
+        if (result.notModified) {
+          return false;
+        }
+
+        const [first, second, third] = result.feed.entries;
+        return (
+          result.feed.format === 'rss' &&
+          result.feed.title === 'EdTech Weekly' &&
+          result.feed.entries.length === 3 &&
+          result.etag === FIXTURE_ETAG &&
+          first?.guid === 'edtech-1003' &&
+          first.url === 'https://edtech.example.com/2024/03/chatbots-reading-partners' &&
+          first.contentHtml.includes('<strong>chatbots</strong>') &&
+          first.summary === 'A short teaser about chatbots & reading.' &&
+          first.imageUrl === 'https://edtech.example.com/images/reading.jpg' &&
+          first.categories.join(',') === 'Literacy,AI' &&
+          first.publishedAt?.toISOString() === '2024-03-11T09:00:00.000Z' &&
+          second?.guid === 'https://edtech.example.com/2024/03/grading-essays' &&
+          second.summary === null &&
+          second.imageUrl === 'https://edtech.example.com/images/grading.png' &&
+          second.publishedAt?.toISOString() === '2024-03-04T08:30:00.000Z' &&
+          third?.title === ''
+        );
+      },
+    },
+    {
+      name: 'Atom 1.0 Entries',
+      test: async () => {
+        const result = await fetchFeed(`${baseUrl}/atom.xml`);
+        if (result.notModified) {
+          return false;
+        }
+
+        const [first, second] = result.feed.entries;
+        return (
+          result.feed.format === 'atom' &&
+          result.feed.title === 'Classroom AI Lab' &&
+          result.feed.link === 'https://lab.example.org/' &&
+          first?.guid === 'urn:uuid:1225c695-cfb8-4ebb-aaaa-80da344efa6a' &&
+          first.title === 'Prompting 101 <for teachers>' &&
+          first.url === 'https://lab.example.org/posts/prompting-101' &&
+          first.contentHtml.includes('<em>learning goal</em>') &&
+          first.summary === 'How to write prompts for lesson planning.' &&
+          first.imageUrl === 'https://lab.example.org/img/prompting.webp' &&
+          first.categories.join(',') === 'prompting' &&
+          first.publishedAt?.toISOString() === '2024-03-09T10:00:00.000Z' &&
+          second?.contentHtml === '<p>Rubrics keep AI feedback consistent.</p>' &&
+          second.publishedAt?.toISOString() === '2024-03-02T09:00:00.000Z'
+        );
+      },
+    },
+    {
+      name: 'Conditional Fetch (304)',
+      test: async () => {
+        const result = await fetchFeed(`${baseUrl}/rss.xml`, { etag: FIXTURE_ETAG });
+        return result.notModified && result.statusCode === 304;
+      },
+    },
+    {
+      name: 'Redirect Followed',
+      test: async () => {
+        const result = await fetchFeed(`${baseUrl}/moved.xml`);
+        return !result.notModified && result.feed.entries.length === 3;
+      },
+    },
+    {
+      name: 'HTTP Error',
+      test: async () => expectFeedError(
+        fetchFeed(`${baseUrl}/missing.xml`),
+        error => error.statusCode === 500
+      ),
+    },
+    {
+      name: 'Not a Feed',
+      test: async () => expectFeedError(
+        fetchFeed(`${baseUrl}/page.html`),
+        error => error.message === 'Not an RSS or Atom feed'
+      ),
+    },
+    {
+      name: 'Timeout',
+      test: async () => expectFeedError(
+        fetchFeed(`${baseUrl}/slow.xml`, { timeoutMs: 200 }),
+        error => error.message === 'Request timed out'
+      ),
+    },
+  ];
+
+  const failed = await runTestCases(tests);
+
+  return failed;
+}
+
+const server = createFixtureServer();
+server.listen(0, '127.0.0.1', async () => {
+  const { port } = server.address() as AddressInfo;
+  const failed = await runTests(`http://127.0.0.1:${port}`);
+  server.close();
+  exitWith(failed);
+});
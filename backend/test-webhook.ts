@@ -0,0 +1,119 @@
+#!/usr/bin/env tsx
+
+/**
+ * Webhook signature test script
+ * Sends signed requests to an in-process Express app with the n8n signature
+ * check, so no database or running server is needed
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { exitWith, runTestCases } from './test-runner';
+
+const SECRET = 'test-webhook-secret';
+process.env.N8N_WEBHOOK_SECRET = SECRET;
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'silent';
+
+async function createApp() {
+  const { requireWebhookSignature } = await import('./src/middleware/auth');
+
+  const app = express();
+  app.use(express.json({
+    verify: (req, _res, buf) => {
+      (req as express.Request & { rawBody?: Buffer }).rawBody = buf;
+    },
+  }));
+  app.post('/hook', requireWebhookSignature, (_req, res) => {
+    res.json({ success: true, data: null });
+  });
+
+  return app;
+}
+
+async function runTests() {
+  console.log('🧪 Testing webhook signatures\n');
+
+  const { signWebhookPayload } = await import('./src/middleware/auth');
+
+  const server = http.createServer(await createApp());
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  let counter = 0;
+
+  // A signed request with a body no earlier test has used
+  function signedRequest() {
+    const body = JSON.stringify({ title: `Signed post ${++counter}` });
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const headers = {
+      'Content-Type': 'application/json',
+      'x-n8n-timestamp': timestamp,
+      'x-n8n-signature': `sha256=${signWebhookPayload(SECRET, timestamp, body)}`,
+    };
+    return (extraHeaders: Record<string, string> = {}) =>
+      fetch(`${base}/hook`, { method: 'POST', headers: { ...headers, ...extraHeaders }, body });
+  }
+
+  const tests = [
+    {
+      name: 'Signed Request',
+      test: async () => {
+        const send = signedRequest();
+        return (await send()).status === 200;
+      },
+    },
+    {
+      name: 'Invalid Signature',
+      test: async () => {
+        const send = signedRequest();
+        const response = await send({ 'x-n8n-signature': 'sha256=' + '0'.repeat(64) });
+        return response.status === 401;
+      },
+    },
+    {
+      name: 'Replay Without Key',
+      test: async () => {
+        const send = signedRequest();
+        const first = await send();
+        const replay = await send();
+        return first.status === 200 && replay.status === 401;
+      },
+    },
+    {
+      name: 'Retry With Same Key',
+      test: async () => {
+        const send = signedRequest();
+        const first = await send({ 'Idempotency-Key': 'retry-1' });
+        const retry = await send({ 'Idempotency-Key': 'retry-1' });
+        return first.status === 200 && retry.status === 200;
+      },
+    },
+    {
+      name: 'Replay With New Key',
+      test: async () => {
+        const send = signedRequest();
+        const first = await send({ 'Idempotency-Key': 'original-key' });
+        const replay = await send({ 'Idempotency-Key': 'attacker-key' });
+        const withoutKey = await send();
+        return first.status === 200 && replay.status === 401 && withoutKey.status === 401;
+      },
+    },
+    {
+      name: 'Key Added on Replay',
+      test: async () => {
+        const send = signedRequest();
+        const first = await send();
+        const replay = await send({ 'Idempotency-Key': 'added-later' });
+        return first.status === 200 && replay.status === 401;
+      },
+    },
+  ];
+
+  const failed = await runTestCases(tests);
+  server.close();
+
+  return failed;
+}
+
+runTests().then(exitWith);
@@ -35,11 +35,13 @@ class BlogAPI {
   /**
    * Fetch a specific blog post by slug
    * @param {string} slug - Post slug
+   * @param {string[]} include - Extra data: 'adjacent' (previous/next posts) and/or 'related'
    * @returns {Promise<Object>} Post data
    */
-  async getPost(slug) {
+  async getPost(slug, include = []) {
     try {
-      const response = await fetch(`${this.baseUrl}/api/posts/${slug}`);
+      const query = include.length > 0 ? `?include=${include.join(',')}` : '';
+      const response = await fetch(`${this.baseUrl}/api/posts/${slug}${query}`);
       const data = await response.json();
       
       if (data.success) {
@@ -53,6 +55,67 @@ class BlogAPI {
     }
   }
 
+  /**
+   * Search published blog posts
+   * @param {string} query - Search terms
+   * @param {number} page - Page number (default: 1)
+   * @param {number} limit - Results per page (default: 10, max: 50)
+   * @returns {Promise<Object>} Ranked results with highlighted snippets
+   */
+  async searchPosts(query, page = 1, limit = 10) {
+    try {
+      const params = new URLSearchParams({ q: query, page, limit });
+      const response = await fetch(`${this.baseUrl}/api/posts/search?${params}`);
+      const data = await response.json();
+
+      if (data.success) {
+        return data.data;
+      } else {
+        throw new Error(data.error || 'Failed to search posts');
+      }
+    } catch (error) {
+      console.error('Error searching posts:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the most viewed posts of the last days
+   * @param {string} window - Number of days, e.g. '7d' (default) or '30d'
+   * @param {number} limit - Number of posts (default: 5, max: 20)
+   * @returns {Promise<Object>} Popular posts with their view counts
+   */
+  async getPopularPosts(window = '7d', limit = 5) {
+    try {
+      const params = new URLSearchParams({ window, limit });
+      const response = await fetch(`${this.baseUrl}/api/posts/popular?${params}`);
+      const data = await response.json();
+
+      if (data.success) {
+        return data.data;
+      } else {
+        throw new Error(data.error || 'Failed to fetch popular posts');
+      }
+    } catch (error) {
+      console.error('Error fetching popular posts:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Count a view of a post; no cookies are set and no IP is stored
+   * @param {string} slug - Post slug
+   */
+  recordView(slug) {
+    const url = `${this.baseUrl}/api/posts/${encodeURIComponent(slug)}/view`;
+
+    if (navigator.sendBeacon) {
+      navigator.sendBeacon(url);
+    } else {
+      fetch(url, { method: 'POST', keepalive: true }).catch(() => {});
+    }
+  }
+
   /**
    * Get RSS feed URL
    * @returns {string} RSS feed URL
@@ -61,6 +124,123 @@ class BlogAPI {
     return `${this.baseUrl}/api/rss`;
   }
 
+  /**
+   * Get Atom feed URL
+   * @returns {string} Atom feed URL
+   */
+  getAtomUrl() {
+    return `${this.baseUrl}/api/feed.atom`;
+  }
+
+  /**
+   * Get JSON Feed URL
+   * @returns {string} JSON Feed URL
+   */
+  getJSONFeedUrl() {
+    return `${this.baseUrl}/api/feed.json`;
+  }
+
+  /**
+   * Fetch the available feeds (RSS, Atom, JSON Feed) for autodiscovery
+   * @param {string} tag - Optional tag slug for per-topic feeds
+   * @returns {Promise<Array>} Feeds with format, type, title and href
+   */
+  async getFeeds(tag) {
+    try {
+      const query = tag ? `?tag=${encodeURIComponent(tag)}` : '';
+      const response = await fetch(`${this.baseUrl}/api/feeds${query}`);
+      const data = await response.json();
+
+      if (data.success) {
+        return data.data;
+      } else {
+        throw new Error(data.error || 'Failed to fetch feeds');
+      }
+    } catch (error) {
+      console.error('Error fetching feeds:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add <link rel="alternate"> tags for every feed to the page head
+   * @param {string} tag - Optional tag slug for per-topic feeds
+   */
+  async addFeedLinks(tag) {
+    const feeds = await this.getFeeds(tag);
+
+    feeds.forEach(feed => {
+      if (document.head.querySelector(`link[rel="alternate"][href="${feed.href}"]`)) {
+        return;
+      }
+
+      const link = document.createElement('link');
+      link.rel = 'alternate';
+      link.type = feed.type;
+      link.title = feed.title;
+      link.href = feed.href;
+      document.head.appendChild(link);
+    });
+  }
+
+  /**
+   * Send a message through the contact form
+   * @param {Object} message - name, email, subject, message and the hidden website field
+   * @returns {Promise<string>} Confirmation message
+   */
+  async sendContactMessage(message) {
+    const response = await fetch(`${this.baseUrl}/api/contact`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(message),
+    });
+    const data = await response.json();
+
+    if (data.success) {
+      return data.message;
+    } else {
+      throw new Error(data.error || 'Failed to send message');
+    }
+  }
+
+  /**
+   * Get published resources from the directory
+   * @param {Object} filters - category, gradeBand, pricingTier, privacyRating, featured or q
+   * @returns {Promise<Object>} Paginated resources
+   */
+  async getResources(filters = {}) {
+    const params = new URLSearchParams(filters);
+    const response = await fetch(`${this.baseUrl}/api/resources?${params}`);
+    const data = await response.json();
+
+    if (data.success) {
+      return data.data;
+    } else {
+      throw new Error(data.error || 'Failed to fetch resources');
+    }
+  }
+
+  /**
+   * Subscribe to new posts by email; a confirmation link is sent first
+   * @param {string} email - Email address
+   * @param {string[]} tags - Only get posts with these tags (default: all posts)
+   * @returns {Promise<string>} Confirmation message
+   */
+  async subscribe(email, tags = []) {
+    const response = await fetch(`${this.baseUrl}/api/newsletter/subscribe`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, tags }),
+    });
+    const data = await response.json();
+
+    if (data.success) {
+      return data.message;
+    } else {
+      throw new Error(data.error || 'Failed to subscribe');
+    }
+  }
+
   /**
    * Check if the API is healthy
    * @returns {Promise<boolean>} API health status
@@ -69,7 +249,7 @@ class BlogAPI {
     try {
       const response = await fetch(`${this.baseUrl}/api/health`);
       const data = await response.json();
-      return data.ok === true;
+      return data.success === true;
     } catch (error) {
       console.error('API health check failed:', error);
       return false;